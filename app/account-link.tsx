@@ -0,0 +1,45 @@
+// app/account-link.tsx — CLIENT UI
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Session = { enabled: boolean; user: { email: string; admin: boolean } | null; viewing: string | null };
+
+/** Sign in / out beside the Archive chip; nothing at all while sign-in is off. */
+export default function AccountLink() {
+  const [session, setSession] = useState<Session | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/session", { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setSession)
+      .catch(() => setSession(null));
+  }, []);
+
+  if (!session?.enabled) return null;
+  if (!session.user) {
+    return (
+      <a className="text-sm" href={`/login?next=${encodeURIComponent(location.pathname + location.search)}`}>
+        Sign in
+      </a>
+    );
+  }
+
+  async function signOut() {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => undefined);
+    location.href = "/";
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      {session.viewing ? (
+        <a className="rounded-full px-3 py-1 border border-amber-400 bg-amber-50" href="/admin" title="Whose archive you're looking at">
+          Viewing {session.viewing === "shared" ? "the shared archive" : session.viewing}
+        </a>
+      ) : null}
+      {session.user.admin ? <a href="/admin">Admin</a> : null}
+      <span className="text-slate-500 hidden sm:inline">{session.user.email}</span>
+      <button className="underline" onClick={signOut}>Sign out</button>
+    </div>
+  );
+}
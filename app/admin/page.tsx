@@ -0,0 +1,77 @@
+// app/admin/page.tsx
+import Link from "next/link";
+import { archiveOwner, currentUser, listUsers, ownerStorage, SHARED_ARCHIVE, type ArchiveOwner } from "@/app/lib/auth";
+import { getArchive } from "@/app/lib/store";
+import ViewAsButton from "./view-as-button";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Row = { uid: string; label: string; lastSignInAt?: string; count: number | null };
+
+async function count(owner: ArchiveOwner): Promise<number | null> {
+  try {
+    return (await getArchive(ownerStorage(owner)).list()).length;
+  } catch {
+    return null;
+  }
+}
+
+/** Every archive: the shared one from before sign-in and each user's; admins pick which one to view. */
+export default async function AdminPage() {
+  const user = await currentUser();
+  if (!user?.admin) {
+    return (
+      <div className="container">
+        <div className="card p-4 my-8 text-slate-600">
+          This page is for admins (ADMIN_EMAILS). <Link href="/archive">Back to your archive</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const owner = await archiveOwner();
+  const current = owner === SHARED_ARCHIVE ? SHARED_ARCHIVE : owner?.uid;
+  const users = await listUsers();
+  const rows: Row[] = [
+    { uid: SHARED_ARCHIVE, label: "Shared archive (from before sign-in)", count: await count(SHARED_ARCHIVE) },
+    ...(await Promise.all(
+      users.map(async (u) => ({
+        uid: u.uid,
+        label: u.uid === user.uid ? `${u.email} (you)` : u.email,
+        lastSignInAt: u.lastSignInAt,
+        count: await count(u),
+      }))
+    )),
+  ];
+
+  return (
+    <div className="container">
+      <header className="py-8">
+        <h1 className="text-3xl font-semibold">Archives</h1>
+        <p className="text-slate-600 mt-2">
+          Viewing one makes the archive pages, exports and backups use it until you switch back. Edits there are made as
+          that user.
+        </p>
+      </header>
+      <div className="space-y-2">
+        {rows.map((r) => (
+          <div key={r.uid} className="card p-3 flex items-center gap-3 justify-between">
+            <div className="min-w-0">
+              <div className="font-semibold truncate">{r.label}</div>
+              <div className="text-slate-500 text-sm">
+                {r.count === null ? "Couldn’t read" : `${r.count} item${r.count === 1 ? "" : "s"}`}
+                {r.lastSignInAt ? ` · last signed in ${new Date(r.lastSignInAt).toLocaleString()}` : ""}
+              </div>
+            </div>
+            {r.uid === current ? (
+              <span className="text-sm text-slate-500">Viewing</span>
+            ) : (
+              <ViewAsButton uid={r.uid === user.uid ? null : r.uid} />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+// app/admin/view-as-button.tsx — CLIENT UI
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+/** Switch the archive pages to another archive (null: the admin's own). */
+export default function ViewAsButton({ uid }: { uid: string | null }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+
+  async function view() {
+    setBusy(true);
+    try {
+      const r = await fetch("/api/auth/view-as", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ uid }),
+      });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error || `HTTP ${r.status}`);
+      router.push("/archive");
+    } catch (e: any) {
+      alert(`Switch failed: ${e?.message || e}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <button className="btn" onClick={view} disabled={busy}>
+      View
+    </button>
+  );
+}
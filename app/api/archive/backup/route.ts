@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import { BackupError, MAX_BACKUP_BYTES, backupStream, restoreBackup } from "@/app/lib/backup";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET  /api/archive/backup[?images=0]        the whole archive as a zip; see app/lib/backup.ts
+// POST /api/archive/backup[?dryRun=1]        restore a zip (raw body, or multipart field "file")
+// The restore report lists restored, skipped (already here) and conflicting ids.
+
+export async function GET(req: NextRequest) {
+  const images = req.nextUrl.searchParams.get("images") !== "0";
+  const filename = `freshrecipes-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+  return new Response(backupStream({ images, store: await archiveStorage() }), {
+    headers: {
+      "content-type": "application/zip",
+      "content-disposition": `attachment; filename="${filename}"`,
+      "cache-control": "no-store",
+    },
+  });
+}
+
+async function readBundle(req: NextRequest): Promise<Uint8Array> {
+  const length = Number(req.headers.get("content-length") ?? 0);
+  if (length > MAX_BACKUP_BYTES) throw new BackupError("Backup is too large to restore", 413);
+  let data: ArrayBuffer;
+  if ((req.headers.get("content-type") ?? "").startsWith("multipart/form-data")) {
+    const file = (await req.formData()).get("file");
+    if (!file || typeof file === "string") throw new BackupError("Missing file", 400);
+    data = await file.arrayBuffer();
+  } else {
+    data = await req.arrayBuffer();
+  }
+  if (!data.byteLength) throw new BackupError("Missing backup", 400);
+  if (data.byteLength > MAX_BACKUP_BYTES) throw new BackupError("Backup is too large to restore", 413);
+  return new Uint8Array(data);
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const report = await restoreBackup(await readBundle(req), {
+      dryRun: req.nextUrl.searchParams.get("dryRun") === "1",
+      store: await archiveStorage(),
+    });
+    return Response.json(report, { status: report.failed.length ? 207 : 200 });
+  } catch (err: any) {
+    if (err instanceof BackupError) return Response.json({ error: err.message }, { status: err.status });
+    return Response.json({ error: "Restore failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import { getCollections, members } from "@/app/lib/collections";
+import { ArchiveError, getArchive } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET    /api/archive/collections/{id}     { collection, items: ArchiveSummary[] }
+// PATCH  /api/archive/collections/{id}     { name?, description?, add?: id[], remove?: id[] } → { ok: true, collection }
+// DELETE /api/archive/collections/{id}     { ok: true }; the items themselves stay archived
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function ids(v: unknown, key: string): string[] | undefined {
+  if (v === undefined) return undefined;
+  if (!Array.isArray(v) || !v.every((i) => typeof i === "string")) throw new ArchiveError(`${key} must be an array of ids`, 400);
+  return v;
+}
+
+function errorResponse(e: unknown, fallback: string) {
+  if (e instanceof ArchiveError) return Response.json({ error: e.message }, { status: e.status });
+  return Response.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(_req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  try {
+    const store = await archiveStorage();
+    const collection = await getCollections(store).get(id);
+    if (!collection) return Response.json({ error: "Collection not found" }, { status: 404 });
+    return Response.json({ collection, items: members(collection, await getArchive(store).list()) });
+  } catch (e) {
+    return errorResponse(e, "Reading the collection failed");
+  }
+}
+
+export async function PATCH(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  if (!body) return Response.json({ error: "Missing body" }, { status: 400 });
+  try {
+    const collection = await getCollections(await archiveStorage()).update(id, {
+      name: body.name as string | undefined,
+      description: body.description as string | undefined,
+      add: ids(body.add, "add"),
+      remove: ids(body.remove, "remove"),
+    });
+    return Response.json({ ok: true, collection });
+  } catch (e) {
+    return errorResponse(e, "Updating the collection failed");
+  }
+}
+
+export async function DELETE(_req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  try {
+    await getCollections(await archiveStorage()).delete(id);
+    return Response.json({ ok: true });
+  } catch (e) {
+    return errorResponse(e, "Deleting the collection failed");
+  }
+}
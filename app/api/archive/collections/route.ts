@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { getCollections, members } from "@/app/lib/collections";
+import { ArchiveError, getArchive } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET  /api/archive/collections      { collections: [{ id, name, description?, count, createdAt, updatedAt }] }
+// POST /api/archive/collections      { name, description?, itemIds? } → 201 { ok: true, collection }
+// One collection: /api/archive/collections/{id}. See app/lib/collections.ts.
+
+export async function GET() {
+  try {
+    const store = await archiveStorage();
+    const [collections, entries] = await Promise.all([getCollections(store).list(), getArchive(store).list()]);
+    return Response.json({
+      collections: collections.map(({ itemIds, ...c }) => ({ ...c, count: members({ ...c, itemIds }, entries).length })),
+    });
+  } catch (e) {
+    return Response.json({ error: "Listing collections failed" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  if (body?.itemIds !== undefined && !Array.isArray(body.itemIds)) {
+    return Response.json({ error: "itemIds must be an array" }, { status: 400 });
+  }
+  try {
+    const collection = await getCollections(await archiveStorage()).create({
+      name: body?.name as string,
+      description: body?.description as string | undefined,
+      itemIds: (body?.itemIds as unknown[] | undefined)?.filter((i): i is string => typeof i === "string"),
+    });
+    return Response.json({ ok: true, collection }, { status: 201 });
+  } catch (e: any) {
+    if (e instanceof ArchiveError) return Response.json({ error: e.message }, { status: e.status });
+    return Response.json({ error: "Creating the collection failed" }, { status: 500 });
+  }
+}
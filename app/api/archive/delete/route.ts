@@ -1,13 +1,15 @@
 import { NextRequest } from "next/server";
-import { deleteItem } from "@/app/lib/store";
+import { deleteItem, isItemId } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
 
 export const runtime = "nodejs";
 
 export async function POST(req: NextRequest) {
   const { id } = (await req.json()) as { id?: string };
   if (!id) return Response.json({ error: "Missing id" }, { status: 400 });
+  if (!isItemId(id)) return Response.json({ error: "Invalid id" }, { status: 400 });
   try {
-    await deleteItem(id);
+    await deleteItem(id, await archiveStorage());
     return Response.json({ ok: true });
   } catch {
     return Response.json({ error: "Delete failed" }, { status: 500 });
@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { getArchive } from "@/app/lib/store";
+import { EXPORT_FORMATS, exportFilename, exportItem, isExportFormat } from "@/app/lib/recipe-export";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/archive/export?id=…&format=jsonld|md|txt[&v=2]
+// A download of the item (or one of its versions) built from its structured
+// recipes; see app/lib/recipe-export.ts.
+
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const id = params.get("id");
+  if (!id) return Response.json({ error: "Missing id" }, { status: 400 });
+  const format = params.get("format") ?? "jsonld";
+  if (!isExportFormat(format)) {
+    return Response.json({ error: `format must be one of ${Object.keys(EXPORT_FORMATS).join(", ")}` }, { status: 400 });
+  }
+  const v = params.get("v");
+  const version = v === null ? null : Number(v);
+  if (version !== null && (!Number.isInteger(version) || version < 1)) {
+    return Response.json({ error: "v must be a version number" }, { status: 400 });
+  }
+
+  const repo = getArchive(await archiveStorage());
+  const item = version ? await repo.getVersion(id, version) : await repo.get(id);
+  if (!item) return Response.json({ error: "Not found" }, { status: 404 });
+
+  const pageUrl = new URL(`/r/${encodeURIComponent(id)}`, req.nextUrl.origin).toString();
+  const filename = exportFilename(item, format);
+  return new Response(exportItem(item, format, pageUrl), {
+    headers: {
+      "content-type": EXPORT_FORMATS[format].contentType,
+      "content-disposition": `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      "cache-control": "no-store",
+      "x-content-type-options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { ArchiveError, getArchive, summarize } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+
+// POST /api/archive/favorite
+// Body: { id, favorite: boolean }
+// Returns { ok: true, item: ArchiveSummary }. Starring isn't an edit: no new version.
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const id = typeof body?.id === "string" ? body.id : "";
+  if (!id) return Response.json({ error: "Missing id" }, { status: 400 });
+  if (typeof body?.favorite !== "boolean") return Response.json({ error: "favorite must be a boolean" }, { status: 400 });
+  try {
+    const item = await getArchive(await archiveStorage()).setFavorite(id, body.favorite);
+    return Response.json({ ok: true, item: summarize(item) });
+  } catch (e: any) {
+    if (e instanceof ArchiveError) return Response.json({ error: e.message }, { status: e.status });
+    return Response.json({ error: "Update failed" }, { status: 500 });
+  }
+}
@@ -1,13 +1,15 @@
 import { NextRequest } from "next/server";
-import { getItem } from "@/app/lib/store";
+import { getItem, isItemId } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
 
 export const runtime = "nodejs";
 
 export async function GET(req: NextRequest) {
   const id = req.nextUrl.searchParams.get("id");
   if (!id) return Response.json({ error: "Missing id" }, { status: 400 });
+  if (!isItemId(id)) return Response.json({ error: "Invalid id" }, { status: 400 });
   try {
-    const item = await getItem(id);
+    const item = await getItem(id, await archiveStorage());
     if (!item) return Response.json({ error: "Not found" }, { status: 404 });
     return Response.json(item);
   } catch {
@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { ImportError, importRecipe } from "@/app/lib/recipe-import";
+import { recipeSummary } from "@/app/lib/recipe-parse";
+import { getArchive, normalizeTags } from "@/app/lib/store";
+import { SafeFetchError } from "@/lib/safe-fetch";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/archive/import
+// Body: { url, tags? }
+// Saves the page's schema.org/Recipe as a full archive item, without the LLM.
+// Returns { ok: true, id, url: "/r/{id}", title }; 422 when the page has no Recipe.
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const url = typeof body?.url === "string" ? body.url.trim() : "";
+  if (!url) return Response.json({ error: "Missing url" }, { status: 400 });
+  if (body?.tags !== undefined && !Array.isArray(body.tags)) {
+    return Response.json({ error: "tags must be an array" }, { status: 400 });
+  }
+
+  try {
+    const { recipe, html } = await importRecipe(url, { signal: req.signal });
+    const item = await getArchive(await archiveStorage()).save({
+      kind: "full",
+      title: recipe.title,
+      description: recipeSummary([recipe]),
+      html,
+      tags: normalizeTags(body?.tags),
+      recipes: [recipe],
+    });
+    return Response.json({ ok: true, id: item.id, url: `/r/${encodeURIComponent(item.id)}`, title: item.title });
+  } catch (err: any) {
+    if (err instanceof ImportError || err instanceof SafeFetchError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    return Response.json({ error: "Import failed" }, { status: 500 });
+  }
+}
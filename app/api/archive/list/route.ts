@@ -1,12 +1,25 @@
-import { listItems } from "@/app/lib/store";
+import { NextRequest } from "next/server";
+import { ArchiveError } from "@/app/lib/store";
+import { pageSummaries, parseListQuery } from "@/app/lib/archive-list";
+import { archiveEntries } from "@/app/lib/collections";
+import { archiveStorage } from "@/app/lib/auth";
 
 export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
-export async function GET() {
+// GET /api/archive/list?sort=date|title&order=asc|desc&limit=20&cursor=…
+//                      &kind=full|highlight&from=YYYY-MM-DD&to=YYYY-MM-DD&tag=…
+//                      &favorite=1|0&collection={collection id}
+// Returns { items, nextCursor?, total }
+
+export async function GET(req: NextRequest) {
+  const parsed = parseListQuery(req.nextUrl.searchParams);
+  if (!parsed.ok) return Response.json({ error: parsed.error }, { status: 400 });
   try {
-    const data = await listItems();
-    return Response.json(data);
+    const entries = await archiveEntries(parsed.query, await archiveStorage());
+    return Response.json(pageSummaries(entries, parsed.query));
   } catch (e) {
+    if (e instanceof ArchiveError) return Response.json({ error: e.message }, { status: e.status });
     return Response.json({ error: "List failed" }, { status: 500 });
   }
 }
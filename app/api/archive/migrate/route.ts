@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { relocateLegacyBlobs } from "@/lib/storage";
+import { migrateLegacy } from "@/app/lib/migrate";
+import { IMAGE_KEY } from "@/app/lib/image-store";
+import { AuthError, requireUser } from "@/app/lib/auth";
+import { authEnabled } from "@/app/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET  /api/archive/migrate            dry run: what would move where
+// POST /api/archive/migrate            { keepLegacy?: boolean } rewrite legacy layouts into recipes/{id}.json
+// Legacy layouts only exist in the shared archive, so with sign-in on this is for admins.
+// Both also report `relocated`: blobs still at a guessable path (written before
+// lib/storage.ts picked private ones), which POST moves. Images stay put, since
+// saved HTML links to them and they're public anyway.
+
+const keepPublic = (key: string) => IMAGE_KEY.test(key);
+
+/** null when the caller may migrate, otherwise the error response. */
+async function denied(): Promise<Response | null> {
+  if (!authEnabled()) return null;
+  try {
+    await requireUser({ admin: true });
+    return null;
+  } catch (err: any) {
+    if (err instanceof AuthError) return Response.json({ error: err.message }, { status: err.status });
+    throw err;
+  }
+}
+
+export async function GET() {
+  const deny = await denied();
+  if (deny) return deny;
+  try {
+    const report = await migrateLegacy({ dryRun: true });
+    return Response.json({ ...report, relocated: await relocateLegacyBlobs({ keep: keepPublic, dryRun: true }) });
+  } catch (e) {
+    return Response.json({ error: "Migration dry run failed" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const deny = await denied();
+  if (deny) return deny;
+  const body = (await req.json().catch(() => ({}))) as { keepLegacy?: boolean };
+  try {
+    const report = await migrateLegacy({ keepLegacy: !!body.keepLegacy });
+    const relocated = await relocateLegacyBlobs({ keep: keepPublic });
+    return Response.json({ ...report, relocated }, { status: report.failed.length ? 207 : 200 });
+  } catch (e) {
+    return Response.json({ error: "Migration failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest } from "next/server";
+import { ArchiveError, getArchive, type ArchiveItem } from "@/app/lib/store";
+import { pageSummaries, parseListQuery } from "@/app/lib/archive-list";
+import { archiveEntries, getCollections } from "@/app/lib/collections";
+import { itemSlug } from "@/app/lib/recipe-export";
+import { MAX_PDF_ITEMS, renderPdf } from "@/app/lib/recipe-pdf";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/archive/pdf?id=…[&v=2]                  one item as a PDF
+// GET /api/archive/pdf?id=a&id=b… (or id=a,b)      a cookbook of those items, in that order
+// GET /api/archive/pdf?tag=…&kind=…&from=…&to=…&favorite=1&collection=…&sort=…&order=…
+//                                                  a cookbook of every item matching the
+//                                                  archive list filters (app/lib/archive-list.ts)
+// Optional: title= (cookbook title), size=a4|letter, images=0
+// Laid out server-side; see app/lib/recipe-pdf.ts.
+
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const store = await archiveStorage();
+  const repo = getArchive(store);
+  const ids = params.getAll("id").flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+
+  const size = (params.get("size") || "a4").toUpperCase();
+  if (size !== "A4" && size !== "LETTER") return Response.json({ error: "size must be a4 or letter" }, { status: 400 });
+
+  let items: ArchiveItem[];
+  if (ids.length) {
+    if (ids.length > MAX_PDF_ITEMS) {
+      return Response.json({ error: `At most ${MAX_PDF_ITEMS} items per PDF` }, { status: 400 });
+    }
+    const v = params.get("v");
+    const version = v === null ? null : Number(v);
+    if (version !== null && (ids.length > 1 || !Number.isInteger(version) || version < 1)) {
+      return Response.json({ error: "v must be a version number, with a single id" }, { status: 400 });
+    }
+    const found = await Promise.all(ids.map((id) => (version ? repo.getVersion(id, version) : repo.get(id))));
+    const missing = ids.filter((_, i) => !found[i]);
+    if (missing.length) return Response.json({ error: `Not found: ${missing.join(", ")}` }, { status: 404 });
+    items = found as ArchiveItem[];
+  } else {
+    const filters = new URLSearchParams(params);
+    filters.set("limit", String(MAX_PDF_ITEMS));
+    filters.delete("cursor");
+    const parsed = parseListQuery(filters);
+    if (!parsed.ok) return Response.json({ error: parsed.error }, { status: 400 });
+    let entries;
+    try {
+      entries = await archiveEntries(parsed.query, store);
+    } catch (e) {
+      if (e instanceof ArchiveError) return Response.json({ error: e.message }, { status: e.status });
+      throw e;
+    }
+    const page = pageSummaries(entries, parsed.query);
+    if (!page.items.length) return Response.json({ error: "No items match" }, { status: 404 });
+    const found = await Promise.all(page.items.map((e) => repo.get(e.id)));
+    items = found.filter((i): i is ArchiveItem => !!i);
+  }
+
+  try {
+    const collection = params.get("collection");
+    const title =
+      params.get("title")?.trim() ||
+      (collection ? (await getCollections(store).get(collection))?.name : undefined) ||
+      (params.get("tag") ? `${params.get("tag")} recipes` : undefined);
+    const pdf = await renderPdf(items, { title, size, images: params.get("images") !== "0" });
+    const name = items.length === 1 ? `${itemSlug(items[0])}.pdf` : "cookbook.pdf";
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        "content-type": "application/pdf",
+        "content-length": String(pdf.byteLength),
+        "content-disposition": `${params.get("download") === "1" ? "attachment" : "inline"}; filename="${name}"`,
+        "cache-control": "no-store",
+      },
+    });
+  } catch (e) {
+    return Response.json({ error: "PDF failed" }, { status: 500 });
+  }
+}
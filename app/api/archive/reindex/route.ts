@@ -0,0 +1,24 @@
+import { getArchive } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET  /api/archive/reindex            dry run: how recipes/index.json differs from the items
+// POST /api/archive/reindex            rebuild recipes/index.json from the items
+
+export async function GET() {
+  try {
+    return Response.json(await getArchive(await archiveStorage()).reindex({ dryRun: true }));
+  } catch (e) {
+    return Response.json({ error: "Index check failed" }, { status: 500 });
+  }
+}
+
+export async function POST() {
+  try {
+    return Response.json(await getArchive(await archiveStorage()).reindex());
+  } catch (e) {
+    return Response.json({ error: "Reindex failed" }, { status: 500 });
+  }
+}
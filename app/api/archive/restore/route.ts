@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { ArchiveError, getArchive } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+
+// POST /api/archive/restore  { id, version }
+// Makes `version` current again by saving it as a new version; nothing is lost.
+
+export async function POST(req: NextRequest) {
+  const { id, version } = ((await req.json().catch(() => ({}))) ?? {}) as { id?: string; version?: number };
+  if (!id) return Response.json({ error: "Missing id" }, { status: 400 });
+  if (!Number.isInteger(version) || version! < 1) {
+    return Response.json({ error: "version must be a version number" }, { status: 400 });
+  }
+  try {
+    const item = await getArchive(await archiveStorage()).restore(id, version!);
+    return Response.json({ ok: true, id, version: item.version, restoredFrom: version });
+  } catch (e: any) {
+    if (e instanceof ArchiveError) return Response.json({ error: e.message }, { status: e.status });
+    return Response.json({ error: "Restore failed" }, { status: 500 });
+  }
+}
@@ -1,43 +1,56 @@
 // app/api/archive/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import type { Recipe } from "@/app/lib/types";
+import { getArchive, normalizeTags } from "@/app/lib/store";
+import { recipeSections, renderRecipesDocument } from "@/app/lib/recipe-render";
+import { parseRecipesFromHtml, recipeSummary } from "@/app/lib/recipe-parse";
+import { archiveStorage } from "@/app/lib/auth";
+import { checkRecipes } from "@/app/lib/recipe-schema";
 
-type Section = { heading: string; html: string };
-export type Recipe = {
-  id: number | string;
-  title: string;
-  author?: string;
-  imageUrl?: string | null;
-  sections: Section[];
-};
+export type { Recipe };
 
 export const runtime = "nodejs"; // simple Node runtime; change to "edge" if you want
 
 /** POST /api/archive
- * Body: { recipe: Recipe }  OR  { recipes: Recipe[] }
- * Returns: { ok: true, count: number }
+ * Body: { html: string, query?, tags? }  OR  { recipe: Recipe, tags? }  OR  { recipes: Recipe[], query?, tags? }
+ * Returns: { ok: true, id, url, count: number }
  */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json().catch(() => ({}));
-    const recipes: Recipe[] = Array.isArray(body?.recipes)
-      ? body.recipes
-      : body?.recipe
-      ? [body.recipe]
-      : [];
+    const html: string = typeof body?.html === "string" ? body.html : "";
+    const given = body?.recipes != null ? body.recipes : body?.recipe != null ? [body.recipe] : [];
+    // Sections may be left out (they're rendered from the fields); anything malformed is a 400.
+    const checked = checkRecipes(given, { sectionsOptional: true });
+    if (!checked.ok) {
+      return NextResponse.json({ ok: false, error: checked.errors.join("; ") }, { status: 400 });
+    }
+    let recipes: Recipe[] = checked.recipes;
 
-    if (!recipes.length) {
+    if (!html && !recipes.length) {
       return NextResponse.json(
         { ok: false, error: "No recipe(s) provided" },
         { status: 400 }
       );
     }
 
-    // 🔧 Place to actually persist (DB, KV, Firestore, etc.)
-    // For now we just echo back what we would save.
-    // You can replace this with your storage of choice.
-    // await kv.set(`recipes:${Date.now()}`, recipes)
+    if (html && !recipes.length) recipes = parseRecipesFromHtml(html);
+    recipes = recipes.map((r) => (r.sections?.length ? r : { ...r, sections: recipeSections(r) }));
+
+    const query = typeof body?.query === "string" ? body.query.trim() : "";
+    const title = recipes.length === 1 ? recipes[0].title : query || "Fresh Recipes";
+
+    const item = await getArchive(await archiveStorage()).save({
+      kind: "full",
+      title,
+      description: recipeSummary(recipes),
+      html: html || renderRecipesDocument(recipes, title),
+      query: query || undefined,
+      tags: normalizeTags(body?.tags),
+      recipes,
+    });
 
-    return NextResponse.json({ ok: true, count: recipes.length });
+    return NextResponse.json({ ok: true, id: item.id, url: `/r/${item.id}`, count: recipes.length });
   } catch (err: any) {
     return NextResponse.json(
       { ok: false, error: err?.message ?? "Unknown error" },
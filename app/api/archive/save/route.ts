@@ -1,21 +1,23 @@
 import { NextRequest } from "next/server";
-import { saveItem } from "@/app/lib/store";
+import { normalizeTags, saveItem } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
 
 export const runtime = "nodejs";
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { kind, title, description, html } = body as {
+    const { kind, title, description, html, tags } = body as {
       kind: "full" | "highlight";
       title: string;
       description: string;
       html: string;
+      tags?: string[];
     };
     if (!html || !title || !kind) {
       return Response.json({ error: "Missing fields" }, { status: 400 });
     }
-    const { id } = await saveItem({ kind, title, description, html });
+    const { id } = await saveItem({ kind, title, description, html, tags: normalizeTags(tags) }, await archiveStorage());
     return Response.json({ id });
   } catch (e) {
     return Response.json({ error: "Save failed" }, { status: 500 });
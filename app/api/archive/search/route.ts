@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { getArchive } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/archive/search?q=short+rib&limit=20&kind=full|highlight
+// Returns { q, results: [{ id, kind, title, createdAt, score, snippet, matched }] }
+// `snippet` is escaped HTML whose only markup is <mark>.
+
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const q = (params.get("q") || "").trim();
+  if (!q) return Response.json({ error: "Missing q" }, { status: 400 });
+  if (q.length > 200) return Response.json({ error: "q is too long" }, { status: 400 });
+  const limit = Math.min(Math.max(Number(params.get("limit")) || 20, 1), 100);
+  const kindParam = params.get("kind");
+  const kind = kindParam === "full" || kindParam === "highlight" ? kindParam : undefined;
+  if (kindParam && !kind) {
+    return Response.json({ error: "kind must be full or highlight" }, { status: 400 });
+  }
+  try {
+    const results = await getArchive(await archiveStorage()).search(q, { limit, kind });
+    return Response.json({ q, results });
+  } catch (e) {
+    return Response.json({ error: "Search failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { archiveUid } from "@/app/lib/auth";
+import { revokeShare, shareState } from "@/app/lib/shares";
+import { ArchiveError } from "@/app/lib/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// DELETE /api/archive/shares/{token}   revoke a link; /s/{token} stops working at once
+
+export async function DELETE(_req: NextRequest, ctx: { params: Promise<{ token: string }> }) {
+  const { token } = await ctx.params;
+  try {
+    const share = await revokeShare(token, await archiveUid());
+    return Response.json({ ok: true, share: { ...share, state: shareState(share) } });
+  } catch (e) {
+    if (e instanceof ArchiveError) return Response.json({ error: e.message }, { status: e.status });
+    return Response.json({ error: "Revoking failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from "next/server";
+import { archiveUid } from "@/app/lib/auth";
+import { createShare, listShares, parseExpiry, sharePath, shareState, type Share } from "@/app/lib/shares";
+import { ArchiveError } from "@/app/lib/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET  /api/archive/shares?id=…                      the item's share links, newest first
+// POST /api/archive/shares { id, expiresInDays? }    a new link; 201 with { share }
+// Each share comes with its state (active, expired, revoked) and path (/s/{token}).
+
+function view(share: Share) {
+  return { ...share, state: shareState(share), path: sharePath(share.token) };
+}
+
+export async function GET(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get("id");
+  if (!id) return Response.json({ error: "Missing id" }, { status: 400 });
+  try {
+    return Response.json({ shares: (await listShares(id, await archiveUid())).map(view) });
+  } catch {
+    return Response.json({ error: "Reading shares failed" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const id = typeof body?.id === "string" ? body.id : "";
+  if (!id) return Response.json({ error: "Missing id" }, { status: 400 });
+  try {
+    const share = await createShare(id, await archiveUid(), parseExpiry(body?.expiresInDays));
+    return Response.json({ share: view(share) }, { status: 201 });
+  } catch (e) {
+    if (e instanceof ArchiveError) return Response.json({ error: e.message }, { status: e.status });
+    return Response.json({ error: "Sharing failed" }, { status: 500 });
+  }
+}
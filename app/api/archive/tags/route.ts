@@ -0,0 +1,21 @@
+import { getArchive } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/archive/tags
+// Returns { tags: [{ tag, count }] }, most used first, for the archive's filter chips.
+
+export async function GET() {
+  try {
+    const counts = new Map<string, number>();
+    for (const e of await getArchive(await archiveStorage()).list()) {
+      for (const t of e.tags ?? []) counts.set(t, (counts.get(t) ?? 0) + 1);
+    }
+    const tags = Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+    return Response.json({ tags });
+  } catch (e) {
+    return Response.json({ error: "Listing tags failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from "next/server";
+import { ArchiveError, getArchive, isItemId, summarize, type ArchiveUpdate } from "@/app/lib/store";
+import { checkRecipes } from "@/app/lib/recipe-schema";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+
+// POST /api/archive/update
+// Body: { id, expectedVersion?, kind?, title?, description?, html?, query?, tags?, recipes? }
+// Returns { ok: true, item: ArchiveSummary, version }; 409 when expectedVersion is stale.
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const id = typeof body?.id === "string" ? body.id : "";
+  if (!id) return Response.json({ error: "Missing id" }, { status: 400 });
+  if (!isItemId(id)) return Response.json({ error: "Invalid id" }, { status: 400 });
+
+  const patch: ArchiveUpdate = {};
+  for (const key of ["title", "description", "html", "query"] as const) {
+    const v = body?.[key];
+    if (v === undefined) continue;
+    if (typeof v !== "string") return Response.json({ error: `${key} must be a string` }, { status: 400 });
+    patch[key] = v;
+  }
+  if (patch.title !== undefined && !patch.title.trim()) {
+    return Response.json({ error: "title must not be empty" }, { status: 400 });
+  }
+  if (body?.kind !== undefined) {
+    if (body.kind !== "full" && body.kind !== "highlight") {
+      return Response.json({ error: "kind must be full or highlight" }, { status: 400 });
+    }
+    patch.kind = body.kind;
+  }
+  if (body?.tags !== undefined) {
+    if (!Array.isArray(body.tags)) return Response.json({ error: "tags must be an array" }, { status: 400 });
+    patch.tags = body.tags as string[];
+  }
+  if (body?.recipes !== undefined) {
+    const checked = checkRecipes(body.recipes);
+    if (!checked.ok) return Response.json({ error: checked.errors.join("; ") }, { status: 400 });
+    patch.recipes = checked.recipes;
+  }
+  if (!Object.keys(patch).length) return Response.json({ error: "Nothing to update" }, { status: 400 });
+
+  const expectedVersion = typeof body?.expectedVersion === "number" ? body.expectedVersion : undefined;
+  try {
+    const item = await getArchive(await archiveStorage()).update(id, patch, { expectedVersion });
+    return Response.json({ ok: true, item: summarize(item), version: item.version });
+  } catch (e: any) {
+    if (e instanceof ArchiveError) return Response.json({ error: e.message }, { status: e.status });
+    return Response.json({ error: "Update failed" }, { status: 500 });
+  }
+}
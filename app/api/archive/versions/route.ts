@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import { getArchive } from "@/app/lib/store";
+import { diffVersions } from "@/app/lib/diff";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/archive/versions?id=…               { id, versions: [{ version, title, savedAt, current }] }
+// GET /api/archive/versions?id=…&v=2           the item as it was at version 2
+// GET /api/archive/versions?id=…&from=1&to=3   { from, to, lines: [{ op: same|add|del, text }] }
+
+function versionParam(v: string | null): number | null {
+  const n = Number(v);
+  return v && Number.isInteger(n) && n >= 1 ? n : null;
+}
+
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const id = params.get("id");
+  if (!id) return Response.json({ error: "Missing id" }, { status: 400 });
+  const repo = getArchive(await archiveStorage());
+  try {
+    if (params.has("from") || params.has("to")) {
+      const from = versionParam(params.get("from"));
+      const to = versionParam(params.get("to"));
+      if (!from || !to) return Response.json({ error: "from and to must be version numbers" }, { status: 400 });
+      const [a, b] = await Promise.all([repo.getVersion(id, from), repo.getVersion(id, to)]);
+      if (!a || !b) return Response.json({ error: "Version not found" }, { status: 404 });
+      return Response.json({ from, to, lines: diffVersions(a, b) });
+    }
+    if (params.has("v")) {
+      const v = versionParam(params.get("v"));
+      if (!v) return Response.json({ error: "v must be a version number" }, { status: 400 });
+      const item = await repo.getVersion(id, v);
+      if (!item) return Response.json({ error: "Not found" }, { status: 404 });
+      return Response.json(item);
+    }
+    const versions = await repo.versions(id);
+    if (!versions.length) return Response.json({ error: "Not found" }, { status: 404 });
+    return Response.json({ id, versions });
+  } catch {
+    return Response.json({ error: "Versions failed" }, { status: 500 });
+  }
+}
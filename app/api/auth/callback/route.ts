@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, redeemLoginToken, sessionCookie } from "@/app/lib/auth";
+import { VIEW_AS_COOKIE } from "@/app/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/auth/callback?token=…   the link mailed by /api/auth/login
+// Sets the session cookie and redirects to the page sign-in started from.
+
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token") ?? "";
+  const login = new URL("/login", req.url);
+  try {
+    const { session, next } = await redeemLoginToken(token);
+    const res = NextResponse.redirect(new URL(next, req.url), 303);
+    res.cookies.set(sessionCookie.name, session, sessionCookie.options);
+    res.cookies.delete(VIEW_AS_COOKIE);
+    return res;
+  } catch (err: any) {
+    login.searchParams.set("error", err instanceof AuthError ? err.message : "Sign-in failed");
+    return NextResponse.redirect(login, 303);
+  }
+}
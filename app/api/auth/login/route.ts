@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import { AuthError, createLoginToken, mayLogIn, normalizeEmail } from "@/app/lib/auth";
+import { MailError, sendMail, usesOutbox } from "@/app/lib/mail";
+import { authEnabled } from "@/app/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/auth/login
+// Body: { email, next?: "/archive/..." }
+// Mails a one-time sign-in link to /api/auth/callback. Returns { ok: true, outbox }
+// where outbox says the link went to the dev stand-in (/api/auth/outbox) rather than SMTP.
+
+export async function POST(req: NextRequest) {
+  if (!authEnabled()) return Response.json({ error: "Sign-in is off (AUTH_SECRET isn't set)" }, { status: 404 });
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  try {
+    const email = normalizeEmail(body?.email);
+    if (!mayLogIn(email)) throw new AuthError("That email address can't sign in here", 403);
+    const token = await createLoginToken(email, typeof body?.next === "string" ? body.next : "");
+    // APP_URL pins the link's origin; otherwise it follows the request (and its Host header).
+    const link = new URL("/api/auth/callback", process.env.APP_URL?.trim() || req.nextUrl.origin);
+    link.searchParams.set("token", token);
+    await sendMail({
+      to: email,
+      subject: "Sign in to FreshRecipes",
+      text: `Open this link to sign in. It works once, for the next 15 minutes:\n\n${link}\n\nIf you didn't ask for it, ignore this email.`,
+    });
+    return Response.json({ ok: true, outbox: usesOutbox() });
+  } catch (err: any) {
+    if (err instanceof AuthError || err instanceof MailError) return Response.json({ error: err.message }, { status: err.status });
+    return Response.json({ error: "Sign-in failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE, VIEW_AS_COOKIE } from "@/app/lib/session";
+
+export const runtime = "nodejs";
+
+// POST /api/auth/logout   clears the session (and any admin view-as)
+
+export async function POST() {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.delete(SESSION_COOKIE);
+  res.cookies.delete(VIEW_AS_COOKIE);
+  return res;
+}
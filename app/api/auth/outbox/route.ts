@@ -0,0 +1,15 @@
+import { readOutbox, usesOutbox } from "@/app/lib/mail";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/auth/outbox   development only: the latest mail the stand-in didn't send (see app/lib/mail.ts)
+
+export async function GET() {
+  if (!usesOutbox()) return Response.json({ error: "Not found" }, { status: 404 });
+  try {
+    return Response.json({ messages: await readOutbox() }, { headers: { "cache-control": "no-store" } });
+  } catch {
+    return Response.json({ error: "Outbox read failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { archiveOwner, currentUser, SHARED_ARCHIVE } from "@/app/lib/auth";
+import { authEnabled } from "@/app/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/auth/session
+// Returns { enabled, user: { email, admin } | null, viewing: email | "shared" | null }.
+// viewing is set when an admin is looking at someone else's archive.
+
+export async function GET() {
+  const user = await currentUser();
+  const owner = user ? await archiveOwner() : null;
+  let viewing: string | null = null;
+  if (owner === SHARED_ARCHIVE) viewing = owner;
+  else if (owner && owner.uid !== user?.uid) viewing = owner.email;
+  return Response.json(
+    { enabled: authEnabled(), user: user && { email: user.email, admin: user.admin }, viewing },
+    { headers: { "cache-control": "no-store" } }
+  );
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, listUsers, requireUser, SHARED_ARCHIVE } from "@/app/lib/auth";
+import { VIEW_AS_COOKIE } from "@/app/lib/session";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/auth/view-as   (admins only)
+// Body: { uid: string | "shared" | null }
+// Every archive page and route then reads and writes that archive; null goes back to the admin's own.
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const uid = body?.uid;
+  try {
+    const admin = await requireUser({ admin: true });
+    const res = NextResponse.json({ ok: true });
+    if (uid === null || uid === admin.uid) {
+      res.cookies.delete(VIEW_AS_COOKIE);
+      return res;
+    }
+    if (typeof uid !== "string") throw new AuthError("uid must be a string or null", 400);
+    if (uid !== SHARED_ARCHIVE && !(await listUsers()).some((u) => u.uid === uid)) throw new AuthError("Unknown user", 404);
+    res.cookies.set(VIEW_AS_COOKIE, uid, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+    });
+    return res;
+  } catch (err: any) {
+    if (err instanceof AuthError) return Response.json({ error: err.message }, { status: err.status });
+    return Response.json({ error: "Switch failed" }, { status: 500 });
+  }
+}
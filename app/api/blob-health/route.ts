@@ -1,15 +1,16 @@
 // app/api/blob-health/route.ts
 import { NextResponse } from 'next/server'
-import { list } from '@/lib/blob'
+import { getStorage } from '@/lib/storage'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
 export async function GET() {
+  const store = getStorage()
   try {
-    await list(undefined, 1)
-    return NextResponse.json({ ok: true })
+    await store.list('', { limit: 1 })
+    return NextResponse.json({ ok: true, driver: store.name })
   } catch (err: any) {
-    return NextResponse.json({ ok: false, error: String(err?.message || err) }, { status: 500 })
+    return NextResponse.json({ ok: false, driver: store.name, error: String(err?.message || err) }, { status: 500 })
   }
 }
@@ -0,0 +1,55 @@
+// app/api/files/[...key]/route.ts
+// Serves stored objects to browsers, for every storage driver: this is the
+// only URL they are given for one (blob URLs stay server-side; see
+// lib/storage.ts), so this is where public and private are told apart.
+import { NextRequest } from "next/server";
+import { getStorage } from "@/lib/storage";
+import { authEnabled } from "@/app/lib/session";
+import { IMAGE_KEY } from "@/app/lib/image-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Stored images are public (content-hashed keys, in the shared archive or a
+// user's). Archive documents are too while there are no accounts; with
+// sign-in on they are only read through the archive routes. Anything else in
+// storage stays server-side.
+function isPublic(key: string): boolean {
+  return IMAGE_KEY.test(key) || (!authEnabled() && key.startsWith("recipes/"));
+}
+
+const TYPES: Record<string, string> = {
+  json: "application/json; charset=utf-8",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+};
+
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ key: string[] }> }) {
+  const { key: parts } = await ctx.params;
+  const key = parts.join("/");
+  if (!isPublic(key)) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const store = getStorage();
+  try {
+    const data = await store.get(key);
+    if (!data) return new Response("Not found", { status: 404 });
+    const ext = key.split(".").pop()?.toLowerCase() ?? "";
+    return new Response(new Uint8Array(data), {
+      headers: {
+        "Content-Type": TYPES[ext] ?? "application/octet-stream",
+        // images/ keys are content hashes, so their bytes never change.
+        "Cache-Control": IMAGE_KEY.test(key) ? "public, max-age=31536000, immutable" : "no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch {
+    return new Response("Invalid key", { status: 400 });
+  }
+}
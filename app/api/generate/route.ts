@@ -1,47 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import FILE_SYSTEM_PROMPT from '../../prompt/system-prompt.txt'
+import {
+  DEFAULT_MODE,
+  GenerateError,
+  type GenerateMode,
+} from '@/app/lib/generate'
+import { cacheTtlSeconds, cachedGenerate } from '@/app/lib/generate-cache'
+import {
+  ProviderError,
+  defaultProviderName,
+  getProvider,
+  providerStatus,
+  type LLMProvider,
+} from '@/app/lib/llm'
+import { VERIFY_IMAGES_DEFAULT, verifyImages } from '@/app/lib/image-verify'
+import { currentUser } from '@/app/lib/auth'
+import { QuotaError, callerKey, enforceQuota, limits, metered, quotaResponse, usageSummary } from '@/app/lib/quota'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
-// Choose file prompt by default; allow hot override via env
-const SYSTEM_PROMPT = (process.env.SYSTEM_PROMPT && process.env.SYSTEM_PROMPT.trim().length
-  ? process.env.SYSTEM_PROMPT
-  : FILE_SYSTEM_PROMPT
-).trim()
-
-const MODEL = process.env.OPENAI_MODEL?.trim() || 'gpt-4o-mini'
-
-function missing(key: string) {
-  return !process.env[key] || process.env[key]!.trim().length === 0
-}
-
 /**
- * Simple health check
+ * Simple health check, with today's model usage and the limits on POST
  */
 export async function GET() {
+  const status = providerStatus()
+  let model: string | null = null
+  try {
+    model = getProvider().model
+  } catch {
+    // default provider not configured; reported via `providers`
+  }
+  const usage = await usageSummary().catch(() => null)
   return NextResponse.json({
     ok: true,
-    model: MODEL,
-    openaiKeyPresent: !missing('OPENAI_API_KEY'),
+    provider: defaultProviderName(),
+    model,
+    mode: DEFAULT_MODE,
+    providers: status,
+    openaiKeyPresent: status.openai,
     promptSource: process.env.SYSTEM_PROMPT?.trim().length ? 'env' : 'file',
+    limits: limits(),
+    usage,
+    cacheTtlSeconds: cacheTtlSeconds(),
   })
 }
 
 /**
  * POST /api/generate
- * Body: { query: string } or { input: string }
- * Returns: { html: string }
+ * Body: { query: string } or { input: string },
+ *       optional mode: "json" | "html", provider: "openai" | "compatible" | "mock",
+ *       verifyImages: boolean (default on unless VERIFY_IMAGES=0),
+ *       force: boolean (skip the cache and regenerate)
+ * Returns: { html: string, recipes: Recipe[], mode, attempts, provider, model, fallbackReason?, images?,
+ *            cached: boolean, cache: "hit" | "shared" | "miss" | "bypass" }, with the same as X-Cache
+ *
+ * json mode (default) validates the model's structured reply and renders the
+ * document server-side; if it still fails after retries, the html prompt runs.
+ * Dead image URLs are then replaced or removed; `images` reports which.
+ * Identical requests are answered from app/lib/generate-cache.ts. Those that
+ * need the model get 429 with Retry-After when the caller's rate limit or the
+ * daily budget is used up (see app/lib/quota.ts).
  */
 export async function POST(req: NextRequest) {
-  if (missing('OPENAI_API_KEY')) {
-    return NextResponse.json(
-      { error: 'OPENAI_API_KEY is not set' },
-      { status: 500 }
-    )
-  }
-
   let body: any
   try {
     body = await req.json()
@@ -64,45 +84,59 @@ export async function POST(req: NextRequest) {
     )
   }
 
-  try {
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  if (body?.mode !== undefined && body.mode !== 'json' && body.mode !== 'html') {
+    return NextResponse.json(
+      { error: '"mode" must be "json" or "html"' },
+      { status: 400 }
+    )
+  }
+  const mode: GenerateMode = body?.mode ?? DEFAULT_MODE
+  const checkImages = typeof body?.verifyImages === 'boolean' ? body.verifyImages : VERIFY_IMAGES_DEFAULT
+  if (body?.force !== undefined && typeof body.force !== 'boolean') {
+    return NextResponse.json(
+      { error: '"force" must be a boolean' },
+      { status: 400 }
+    )
+  }
 
-    const completion = await openai.chat.completions.create({
-      model: MODEL,
-      temperature: 0.3,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        {
-          role: 'user',
-          content:
-            `Input directives:\n` +
-            userQuery +
-            `\n\nReturn ONLY the final complete HTML document as instructed in the system prompt.`,
-        },
-      ],
-    })
+  let provider: LLMProvider
+  try {
+    provider = getProvider(body?.provider)
+  } catch (err: any) {
+    if (err instanceof ProviderError) {
+      return NextResponse.json({ error: err.message }, { status: err.status })
+    }
+    throw err
+  }
 
-    const html =
-      completion.choices?.[0]?.message?.content?.trim() || ''
+  provider = metered(provider)
 
-    if (!html.startsWith('<!DOCTYPE html>') && !html.startsWith('<html')) {
-      // Guard rail: ensure caller receives HTML even if the model deviates
+  try {
+    const { result, cache } = await cachedGenerate(provider, userQuery, mode, {
+      force: body?.force === true,
+      beforeUpstream: async () => {
+        const user = await currentUser()
+        await enforceQuota(callerKey(req, user?.uid))
+      },
+    })
+    const headers = { 'X-Cache': cache.toUpperCase() }
+    const cached = cache === 'hit' || cache === 'shared'
+    if (!checkImages) return NextResponse.json({ ...result, cached, cache }, { headers })
+    const { html, recipes, report } = await verifyImages(result.html, result.recipes, { signal: req.signal })
+    return NextResponse.json({ ...result, html, recipes, images: report, cached, cache }, { headers })
+  } catch (err: any) {
+    if (err instanceof QuotaError) return quotaResponse(err)
+    if (err instanceof GenerateError) {
+      // Guard rail: the model deviated even after the json retries/fallback
       return NextResponse.json(
-        {
-          error:
-            'Model did not return a complete HTML document. Check the SYSTEM_PROMPT and input.',
-          preview: html.slice(0, 5000),
-        },
+        { error: err.message, preview: err.preview },
         { status: 502 }
       )
     }
-
-    return NextResponse.json({ html })
-  } catch (err: any) {
     const msg =
       typeof err?.message === 'string' ? err.message : 'Unknown error'
     return NextResponse.json(
-      { error: `OpenAI request failed: ${msg}` },
+      { error: `${provider.name} request failed: ${msg}` },
       { status: 500 }
     )
   }
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { GenerateError, extractHtmlDocument, streamHtml, type GenerateResult } from '@/app/lib/generate'
+import {
+  beginGeneration,
+  generationKey,
+  pendingGeneration,
+  readCachedGeneration,
+  type CacheStatus,
+} from '@/app/lib/generate-cache'
+import { ProviderError, getProvider, type LLMProvider } from '@/app/lib/llm'
+import { parseRecipesFromHtml } from '@/app/lib/recipe-parse'
+import { VERIFY_IMAGES_DEFAULT, verifyImages } from '@/app/lib/image-verify'
+import { currentUser } from '@/app/lib/auth'
+import { QuotaError, callerKey, enforceQuota, metered, quotaResponse } from '@/app/lib/quota'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/generate/stream
+ * Body: { query: string } or { input: string }, optional provider, verifyImages, force
+ * Returns: text/event-stream with
+ *   event: token  data: { delta }
+ *   event: done   data: { html, recipes, mode: "html", images?, cached, cache }
+ *   event: error  data: { error, preview?, retryAfter? }
+ *
+ * Always uses the html prompt: a partial HTML document can be previewed as it
+ * grows, a partial JSON reply can't. Closing the connection aborts upstream,
+ * unless an identical request is waiting on this one: then the generation
+ * runs on for it (and the cache), and only this response ends.
+ * Images are verified once the document is complete, before `done`.
+ * Caching, `force`, rate limit and budget work as for /api/generate (429
+ * before the stream opens). A cached or shared answer comes as `done` alone,
+ * with no tokens; a shared one fails if the request it waited on does.
+ */
+export async function POST(req: NextRequest) {
+  let body: any
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const userQuery: string =
+    (typeof body?.query === 'string' && body.query.trim()) ||
+    (typeof body?.input === 'string' && body.input.trim()) ||
+    ''
+
+  if (!userQuery) {
+    return NextResponse.json(
+      { error: 'Missing "query" (or "input") field' },
+      { status: 400 }
+    )
+  }
+
+  let provider: LLMProvider
+  try {
+    provider = getProvider(body?.provider)
+  } catch (err: any) {
+    if (err instanceof ProviderError) {
+      return NextResponse.json({ error: err.message }, { status: err.status })
+    }
+    throw err
+  }
+
+  const force = body?.force === true
+  const key = generationKey(provider, userQuery, 'html')
+  // A stored answer, or an identical request already running, needs no model call and no quota.
+  let reuse: { result: Promise<GenerateResult>; cache: CacheStatus } | null = null
+  if (!force) {
+    const stored = await readCachedGeneration(key).catch(() => null)
+    const pending = stored ? undefined : pendingGeneration(key)
+    if (stored) reuse = { result: Promise.resolve(stored), cache: 'hit' }
+    else if (pending) reuse = { result: pending, cache: 'shared' }
+  }
+  if (!reuse) {
+    try {
+      const user = await currentUser()
+      await enforceQuota(callerKey(req, user?.uid))
+    } catch (err: any) {
+      if (err instanceof QuotaError) return quotaResponse(err)
+      throw err
+    }
+    const pending = !force && pendingGeneration(key)
+    if (pending) reuse = { result: pending, cache: 'shared' }
+  }
+  const cache: CacheStatus = reuse ? reuse.cache : force ? 'bypass' : 'miss'
+  const cached = cache === 'hit' || cache === 'shared'
+  const flight = reuse ? null : beginGeneration(key)
+  provider = metered(provider)
+
+  // The client going away stops the upstream call, unless another request
+  // joined it; then it runs on for them, and only this response ends.
+  const upstream = new AbortController()
+  let gone = false
+  const onAbort = () => {
+    gone = true
+    if (flight?.joined()) return
+    // Fail the flight now, so nobody joins a generation that is stopping.
+    flight?.fail(new Error('The client disconnected'))
+    upstream.abort()
+  }
+  if (req.signal.aborted) onAbort()
+  else req.signal.addEventListener('abort', onAbort, { once: true })
+
+  const checkImages = typeof body?.verifyImages === 'boolean' ? body.verifyImages : VERIFY_IMAGES_DEFAULT
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (gone) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      const done = async (html: string, recipes: GenerateResult['recipes']) => {
+        if (checkImages) {
+          const verified = await verifyImages(html, recipes, { signal: req.signal })
+          send('done', { html: verified.html, recipes: verified.recipes, mode: 'html', images: verified.report, cached, cache })
+        } else {
+          send('done', { html, recipes, mode: 'html', cached, cache })
+        }
+      }
+
+      let raw = ''
+      try {
+        if (reuse) {
+          const result = await reuse.result
+          await done(result.html, result.recipes)
+          return
+        }
+        for await (const chunk of streamHtml(provider, userQuery, upstream.signal)) {
+          if (!('delta' in chunk)) continue
+          raw += chunk.delta
+          send('token', { delta: chunk.delta })
+        }
+        const html = extractHtmlDocument(raw)
+        if (!html) {
+          throw new GenerateError(
+            'Model did not return a complete HTML document. Check the SYSTEM_PROMPT and input.',
+            raw.slice(0, 5000)
+          )
+        }
+        const recipes = parseRecipesFromHtml(html)
+        await flight?.finish({ html, recipes, mode: 'html', attempts: 1, provider: provider.name, model: provider.model })
+        if (!gone) await done(html, recipes)
+      } catch (err: any) {
+        flight?.fail(err)
+        if (err instanceof QuotaError) {
+          send('error', { error: err.message, retryAfter: err.retryAfter })
+        } else if (err instanceof GenerateError) {
+          send('error', { error: err.message, preview: err.preview })
+        } else if (!gone) {
+          const msg = typeof err?.message === 'string' ? err.message : 'Unknown error'
+          send('error', { error: `${provider.name} request failed: ${msg}` })
+        }
+      } finally {
+        req.signal.removeEventListener('abort', onAbort)
+        try {
+          controller.close()
+        } catch {
+          // already closed by a client disconnect
+        }
+      }
+    },
+    cancel: onAbort,
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+      'X-Cache': cache.toUpperCase(),
+    },
+  })
+}
@@ -0,0 +1,41 @@
+// app/api/img/resize/route.ts
+// Serves an image at one of the widths in img-cdn.ts's srcset, resized with
+// sharp (see app/lib/image-resize.ts). Used when NEXT_PUBLIC_IMAGE_CDN=local.
+//
+// Usage: <img src="/api/img/resize?u=ENCODED_URL&w=640">   (u: http(s) URL or /api/files/[users/{uid}/]images/…)
+
+import { NextRequest } from "next/server";
+import { resizeImage } from "@/app/lib/image-resize";
+import { SafeFetchError } from "@/lib/safe-fetch";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const u = req.nextUrl.searchParams.get("u");
+  if (!u) return new Response("Missing u", { status: 400 });
+  const w = Number(req.nextUrl.searchParams.get("w"));
+  if (!Number.isInteger(w) || w <= 0) return new Response("w must be a positive integer", { status: 400 });
+
+  try {
+    const result = await resizeImage(u, w, {
+      accept: req.headers.get("accept"),
+      ifNoneMatch: req.headers.get("if-none-match"),
+    });
+    const headers = new Headers({
+      etag: result.etag,
+      "cache-control": "public, max-age=86400",
+      vary: "accept",
+      "x-cache": result.cache,
+      "x-content-type-options": "nosniff",
+      "content-security-policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+    });
+    if (result.status === 304) return new Response(null, { status: 304, headers });
+    headers.set("content-type", result.contentType);
+    headers.set("content-length", String(result.body.byteLength));
+    return new Response(new Uint8Array(result.body), { status: 200, headers });
+  } catch (err: any) {
+    if (err instanceof SafeFetchError) return new Response(err.message, { status: err.status });
+    return new Response("Resize error", { status: 500 });
+  }
+}
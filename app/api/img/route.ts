@@ -1,47 +1,38 @@
-import { NextRequest } from "next/server";
+// app/api/img/route.ts
+// Streams a remote image through our origin so browsers never touch
+// hotlink-protected hosts, with SSRF checks and a storage-backed cache
+// (see app/lib/image-proxy.ts).
+//
+// Usage: <img src="/api/img?u=ENCODED_HTTP_URL">   (?url= is accepted too,
+// for links written for the old /api/proxy)
 
-export async function GET(req: NextRequest) {
-  try {
-    const u = req.nextUrl.searchParams.get("u");
-    if (!u) return new Response("Missing u", { status: 400 });
-
-    let target: URL;
-    try {
-      target = new URL(u);
-    } catch {
-      return new Response("Bad URL", { status: 400 });
-    }
+import { NextRequest } from "next/server";
+import { proxyImage } from "@/app/lib/image-proxy";
+import { SafeFetchError } from "@/lib/safe-fetch";
 
-    if (!/^https?:$/i.test(target.protocol)) {
-      return new Response("Blocked scheme", { status: 400 });
-    }
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
-    const host = target.hostname;
-    if (
-      /(^|\.)(localhost|local|internal)$/.test(host) ||
-      /^(0\.0\.0\.0|127\.0\.0\.1|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[0-1])\.\d+\.\d+)$/.test(
-        host
-      )
-    ) {
-      return new Response("Blocked host", { status: 400 });
-    }
+export async function GET(req: NextRequest) {
+  const u = req.nextUrl.searchParams.get("u") || req.nextUrl.searchParams.get("url");
+  if (!u) return new Response("Missing u", { status: 400 });
 
-    const res = await fetch(target.toString(), {
-      headers: { accept: "image/*,*/*;q=0.8" },
-      cache: "no-store"
+  try {
+    const result = await proxyImage(u, { ifNoneMatch: req.headers.get("if-none-match") });
+    const headers = new Headers({
+      etag: result.meta.etag,
+      "cache-control": "public, max-age=86400",
+      "x-cache": result.cache,
+      "x-content-type-options": "nosniff",
+      // An SVG opened directly must not run script on our origin.
+      "content-security-policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
     });
-
-    if (!res.ok) {
-      return new Response(`Upstream ${res.status}`, { status: 502 });
-    }
-
-    const headers = new Headers(res.headers);
-    const ct = headers.get("content-type") ?? "image/jpeg";
-    headers.set("content-type", ct);
-    headers.set("cache-control", "public, max-age=86400, immutable");
-
-    return new Response(res.body, { status: 200, headers });
-  } catch {
+    if (result.status === 304) return new Response(null, { status: 304, headers });
+    headers.set("content-type", result.meta.contentType);
+    headers.set("content-length", String(result.body.byteLength));
+    return new Response(new Uint8Array(result.body), { status: 200, headers });
+  } catch (err: any) {
+    if (err instanceof SafeFetchError) return new Response(err.message, { status: err.status });
     return new Response("Proxy error", { status: 500 });
   }
 }
@@ -1,17 +1,8 @@
 // app/api/save/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { put } from "@vercel/blob";
-
-// tiny helpers kept here to avoid extra imports
-function slugify(s: string) {
-  return (s || "")
-    .toLowerCase()
-    .replace(/[^a-z0-9-_]+/g, "-")
-    .replace(/^-+|-+$/g, "");
-}
-function stamp() {
-  return new Date().toISOString();
-}
+import { getArchive } from "@/app/lib/store";
+import { parseRecipesFromHtml, recipeSummary } from "@/app/lib/recipe-parse";
+import { archiveStorage } from "@/app/lib/auth";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -20,35 +11,31 @@ export async function POST(req: NextRequest) {
   try {
     const body = await req.json().catch(() => ({} as any));
     const html = String(body?.html ?? "");
-    const title = String(body?.title ?? "").trim() || "Recipe";
 
     if (!html) {
       return NextResponse.json({ error: "Missing html" }, { status: 400 });
     }
 
-    const slug = `${slugify(title)}-${Date.now().toString(36)}`;
-    const dir = `archive/${slug}`;
-
-    // Save HTML
-    const { url: htmlUrl } = await put(
-      `${dir}/index.html`,
-      new Blob([html], { type: "text/html" }),
-      { access: "public", addRandomSuffix: false }
-    );
-
-    // Save metadata (optional but useful)
-    const meta = { title, addedAt: stamp(), htmlUrl, slug };
-    await put(
-      `${dir}/meta.json`,
-      new Blob([JSON.stringify(meta, null, 2)], { type: "application/json" }),
-      { access: "public", addRandomSuffix: false }
-    );
+    const recipes = parseRecipesFromHtml(html);
+    const title =
+      String(body?.title ?? "").trim() ||
+      (recipes.length === 1 ? recipes[0].title : "") ||
+      "Recipe";
+
+    const item = await getArchive(await archiveStorage()).save({
+      kind: "full",
+      title,
+      description: recipeSummary(recipes),
+      html,
+      query: typeof body?.query === "string" ? body.query : undefined,
+      recipes,
+    });
 
     // IMPORTANT: return the exact key your client expects
-    const url = `/archive/${encodeURIComponent(slug)}`;
+    const url = `/r/${encodeURIComponent(item.id)}`;
 
     return NextResponse.json(
-      { ok: true, url, slug, htmlUrl }, // <-- url included
+      { ok: true, url, slug: item.id, id: item.id }, // <-- url included
       { status: 200 }
     );
   } catch (err: any) {
@@ -7,6 +7,10 @@
 // @ts-nocheck
 
 import type { Metadata } from "next";
+import { getArchive } from "@/app/lib/store";
+import { sanitizeFragment } from "@/app/lib/sanitize";
+import { responsiveImages } from "@/app/lib/img-cdn";
+import { archiveStorage } from "@/app/lib/auth";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -32,42 +36,15 @@ export async function generateMetadata(
 export default async function ArchiveItemPage({ params }: { params: any }) {
   const { slug } = await resolveParams(params);
 
-  const base = process.env.NEXT_PUBLIC_BLOB_BASE; // e.g. https://xxxx.public.blob.vercel-storage.com
-  if (!base) {
-    return (
-      <main style={{ padding: 24 }}>
-        <h1>Archive</h1>
-        <p style={{ color: "crimson" }}>
-          Environment variable <code>NEXT_PUBLIC_BLOB_BASE</code> is not set.
-          Add it in Vercel → Project → Settings → Environment Variables.
-        </p>
-      </main>
-    );
-  }
-
-  const htmlUrl = `${base}/archive/${encodeURIComponent(slug)}/index.html`;
-  const metaUrl = `${base}/archive/${encodeURIComponent(slug)}/meta.json`;
-
-  let html = "";
-  let title = slug;
-
+  // Slugs from the old archive/{slug}/ layout became item ids when migrated.
+  let item = null;
   try {
-    const [hRes, mRes] = await Promise.all([
-      fetch(htmlUrl, { cache: "no-store" }),
-      fetch(metaUrl, { cache: "no-store" }),
-    ]);
-
-    if (mRes.ok) {
-      const meta = await mRes.json().catch(() => null);
-      if (meta?.title) title = meta.title;
-    }
-
-    if (hRes.ok) {
-      html = await hRes.text();
-    }
+    item = await getArchive(await archiveStorage()).get(decodeURIComponent(slug));
   } catch {
-    // fall through to link below
+    // fall through to the not-found message below
   }
+  const html = item ? responsiveImages(sanitizeFragment(item.html, item.id)) : "";
+  const title = item?.title ?? slug;
 
   return (
     <main style={{ padding: 24, maxWidth: 1100, margin: "0 auto" }}>
@@ -89,10 +66,8 @@ export default async function ArchiveItemPage({ params }: { params: any }) {
         />
       ) : (
         <p>
-          Couldn&apos;t fetch saved HTML. Open directly:&nbsp;
-          <a href={htmlUrl} target="_blank" rel="noreferrer">
-            {htmlUrl}
-          </a>
+          Couldn&apos;t find this recipe. Back to the&nbsp;
+          <a href="/archive">archive</a>.
         </p>
       )}
     </main>
@@ -0,0 +1,51 @@
+// app/archive/collections/[id]/collection-actions.tsx — CLIENT UI
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+/** Rename, describe or delete a collection; deleting keeps its items archived. */
+export default function CollectionActions({ id, name, description }: { id: string; name: string; description: string }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+  const url = `/api/archive/collections/${encodeURIComponent(id)}`;
+
+  async function send(method: "PATCH" | "DELETE", body?: object) {
+    setBusy(true);
+    try {
+      const r = await fetch(url, {
+        method,
+        headers: { "content-type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error || `HTTP ${r.status}`);
+      return true;
+    } catch (e: any) {
+      alert(`${method === "DELETE" ? "Delete" : "Update"} failed: ${e?.message || e}`);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function edit() {
+    const nextName = prompt("Collection name", name);
+    if (nextName === null) return;
+    const nextDescription = prompt("Description (optional)", description);
+    if (nextDescription === null) return;
+    if (await send("PATCH", { name: nextName, description: nextDescription })) router.refresh();
+  }
+
+  async function remove() {
+    if (!confirm(`Delete the collection “${name}”? Its items stay in the archive.`)) return;
+    if (await send("DELETE")) router.push("/archive");
+  }
+
+  return (
+    <div className="flex gap-3 mt-3 text-sm">
+      <button className="underline" onClick={edit} disabled={busy}>Rename</button>
+      <button className="underline text-red-700" onClick={remove} disabled={busy}>Delete collection</button>
+    </div>
+  );
+}
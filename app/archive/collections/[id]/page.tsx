@@ -0,0 +1,76 @@
+import Link from "next/link";
+import { getCollections, members } from "@/app/lib/collections";
+import { getArchive } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
+import CollectionActions from "./collection-actions";
+import RemoveItemButton from "./remove-item-button";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export default async function CollectionPage(props: any) {
+  const params = await props?.params;
+  const id = params?.id as string | undefined;
+  if (!id) return null;
+
+  const store = await archiveStorage();
+  const collection = await getCollections(store).get(id);
+  if (!collection) {
+    return (
+      <div className="container">
+        <div className="card p-4 my-8 text-slate-600">
+          That collection doesn’t exist any more. <Link href="/archive">Back to the archive</Link>
+        </div>
+      </div>
+    );
+  }
+  const items = members(collection, await getArchive(store).list());
+
+  return (
+    <div className="container">
+      <header className="py-8">
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <h1 className="text-3xl font-semibold">{collection.name}</h1>
+          <div className="flex gap-2">
+            {items.length ? (
+              <a className="btn" href={`/api/archive/pdf?${new URLSearchParams({ collection: id })}`}>
+                Cookbook PDF
+              </a>
+            ) : null}
+            <Link href="/archive" className="btn">← Archive</Link>
+          </div>
+        </div>
+        {collection.description ? <p className="text-slate-600 mt-2">{collection.description}</p> : null}
+        <div className="text-slate-500 text-sm mt-2">
+          {items.length} item{items.length === 1 ? "" : "s"}
+        </div>
+        <CollectionActions id={id} name={collection.name} description={collection.description ?? ""} />
+      </header>
+
+      {!items.length ? (
+        <div className="card p-4 text-slate-600">
+          Nothing here yet. Add items from the <Link href="/archive">archive</Link>.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {items.map((r) => (
+            <div key={r.id} className="card p-3 flex items-center gap-3 justify-between">
+              <div className="min-w-0">
+                <div className="font-semibold truncate">
+                  <Link href={`/r/${r.id}`}>{r.title}</Link>
+                  {r.favorite ? <span className="ml-2 text-xs">★</span> : null}
+                </div>
+                <div className="text-slate-600 text-sm truncate">{r.description}</div>
+                <div className="text-slate-500 text-xs">
+                  {new Date(r.createdAt).toLocaleString()}
+                  {r.tags?.length ? ` · ${r.tags.join(", ")}` : ""}
+                </div>
+              </div>
+              <RemoveItemButton collection={id} id={r.id} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
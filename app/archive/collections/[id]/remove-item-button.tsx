@@ -0,0 +1,34 @@
+// app/archive/collections/[id]/remove-item-button.tsx — CLIENT UI
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export default function RemoveItemButton({ collection, id }: { collection: string; id: string }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+
+  async function remove() {
+    setBusy(true);
+    try {
+      const r = await fetch(`/api/archive/collections/${encodeURIComponent(collection)}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ remove: [id] }),
+      });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error || `HTTP ${r.status}`);
+      router.refresh();
+    } catch (e: any) {
+      alert(`Remove failed: ${e?.message || e}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <button className="btn" onClick={remove} disabled={busy} title="Remove from this collection">
+      {busy ? "Removing…" : "Remove"}
+    </button>
+  );
+}
@@ -0,0 +1,88 @@
+// app/archive/filter-chips.tsx — CLIENT UI
+"use client";
+
+import Link from "next/link";
+
+export type CollectionRow = { id: string; name: string; description?: string; count: number };
+export type TagCount = { tag: string; count: number };
+export type ChipFilters = { favorite: string; collection: string; tag: string };
+
+const MAX_TAG_CHIPS = 24;
+
+function Chip({
+  active,
+  onClick,
+  title,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  title?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-pressed={active}
+      onClick={onClick}
+      className={`rounded-full px-3 py-1 border ${
+        active ? "bg-neutral-900 text-white border-neutral-900" : "bg-white text-neutral-600 border-neutral-300"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Favorites, collections and tags as one-click filters; clicking an active chip clears it. */
+export default function FilterChips({
+  filters,
+  collections,
+  tags,
+  onChange,
+  onNewCollection,
+}: {
+  filters: ChipFilters;
+  collections: CollectionRow[];
+  tags: TagCount[];
+  onChange: (patch: Partial<ChipFilters>) => void;
+  onNewCollection: () => void;
+}) {
+  return (
+    <div className="card p-3 mb-4 flex flex-col gap-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Chip active={filters.favorite === "1"} onClick={() => onChange({ favorite: filters.favorite === "1" ? "" : "1" })}>
+          ★ Favorites
+        </Chip>
+        {collections.map((c) => (
+          <Chip
+            key={c.id}
+            active={filters.collection === c.id}
+            title={c.description}
+            onClick={() => onChange({ collection: filters.collection === c.id ? "" : c.id })}
+          >
+            {c.name} <span className="opacity-60">{c.count}</span>
+          </Chip>
+        ))}
+        <button type="button" className="rounded-full px-3 py-1 border border-dashed border-neutral-300 text-neutral-600" onClick={onNewCollection}>
+          + New collection
+        </button>
+        {filters.collection ? (
+          <Link className="ml-auto" href={`/archive/collections/${encodeURIComponent(filters.collection)}`}>
+            Open collection →
+          </Link>
+        ) : null}
+      </div>
+      {tags.length ? (
+        <div className="flex flex-wrap items-center gap-2">
+          {tags.slice(0, MAX_TAG_CHIPS).map((t) => (
+            <Chip key={t.tag} active={filters.tag === t.tag} onClick={() => onChange({ tag: filters.tag === t.tag ? "" : t.tag })}>
+              #{t.tag} <span className="opacity-60">{t.count}</span>
+            </Chip>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
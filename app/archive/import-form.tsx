@@ -0,0 +1,53 @@
+// app/archive/import-form.tsx — CLIENT UI
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+/** Paste a recipe page's URL; its schema.org data is saved as a new item. */
+export default function ImportForm() {
+  const router = useRouter();
+  const [url, setUrl] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!url.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const r = await fetch("/api/archive/import", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ url: url.trim() }),
+      });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error || `HTTP ${r.status}`);
+      router.push(j.url);
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="card p-3 mb-4">
+      <div className="flex gap-2 flex-wrap">
+        <input
+          type="url"
+          className="flex-1 min-w-[16rem] border border-slate-300 rounded-lg px-3 py-2 bg-white"
+          placeholder="Import from a recipe page URL…"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          disabled={busy}
+        />
+        <button className="btn" type="submit" disabled={busy || !url.trim()}>
+          {busy ? "Importing…" : "Import"}
+        </button>
+      </div>
+      {error ? <div className="text-red-700 text-sm mt-2">Import failed: {error}</div> : null}
+    </form>
+  );
+}
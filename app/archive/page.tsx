@@ -1,29 +1,143 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import Link from "next/link";
+import ImportForm from "./import-form";
+import FilterChips, { type ChipFilters, type CollectionRow, type TagCount } from "./filter-chips";
 
-type Row = { id: string; title: string; description: string; createdAt: string };
-type Data = { full: Row[]; highlight: Row[] };
+type Row = {
+  id: string;
+  kind: "full" | "highlight";
+  title: string;
+  description: string;
+  createdAt: string;
+  tags?: string[];
+  favorite?: boolean;
+};
+type Page = { items: Row[]; nextCursor?: string; total: number };
+type Hit = { id: string; kind: Row["kind"]; title: string; createdAt: string; snippet: string };
+type Filters = { sort: "date" | "title"; order: "asc" | "desc"; kind: string; from: string; to: string } & ChipFilters;
+
+const PAGE_SIZE = 20;
+const DEFAULT_FILTERS: Filters = { sort: "date", order: "desc", kind: "", from: "", to: "", tag: "", favorite: "", collection: "" };
+const FILTER_KEYS = ["kind", "from", "to", "tag", "favorite", "collection"] as const;
+
+function listUrl(f: Filters, cursor?: string) {
+  const p = new URLSearchParams({ sort: f.sort, order: f.order, limit: String(PAGE_SIZE) });
+  for (const k of FILTER_KEYS) if (f[k].trim()) p.set(k, f[k].trim());
+  if (cursor) p.set("cursor", cursor);
+  return `/api/archive/list?${p}`;
+}
+
+/** Every item matching the filters as one PDF (see /api/archive/pdf). */
+function cookbookUrl(f: Filters) {
+  const p = new URLSearchParams({ sort: f.sort, order: f.order });
+  for (const k of FILTER_KEYS) if (f[k].trim()) p.set(k, f[k].trim());
+  return `/api/archive/pdf?${p}`;
+}
 
 export default function ArchivePage() {
-  const [data, setData] = useState<Data | null>(null);
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [total, setTotal] = useState(0);
+  const [cursor, setCursor] = useState<string | undefined>();
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const sentinel = useRef<HTMLDivElement | null>(null);
+  // Bumped on every filter change so responses for stale filters are dropped.
+  const generation = useRef(0);
+  const [q, setQ] = useState("");
+  const [hits, setHits] = useState<Hit[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [collections, setCollections] = useState<CollectionRow[]>([]);
+  const [tags, setTags] = useState<TagCount[]>([]);
+
+  // Chips for the filters; reloaded whenever counts may have changed.
+  const loadChips = useCallback(async () => {
+    try {
+      const [c, t] = await Promise.all([
+        fetch("/api/archive/collections", { cache: "no-store" }).then((r) => r.json()),
+        fetch("/api/archive/tags", { cache: "no-store" }).then((r) => r.json()),
+      ]);
+      setCollections(c.collections ?? []);
+      setTags(t.tags ?? []);
+    } catch {
+      // the list still works without them
+    }
+  }, []);
+
+  useEffect(() => {
+    loadChips();
+  }, [loadChips]);
+
+  // Debounced search; an empty box goes back to the filtered list.
+  useEffect(() => {
+    const term = q.trim();
+    if (!term) {
+      setHits(null);
+      return;
+    }
+    const ctrl = new AbortController();
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const p = new URLSearchParams({ q: term });
+        if (filters.kind) p.set("kind", filters.kind);
+        const r = await fetch(`/api/archive/search?${p}`, { cache: "no-store", signal: ctrl.signal });
+        const j = await r.json();
+        setHits(r.ok ? j.results : []);
+      } catch {
+        // aborted by the next keystroke
+      } finally {
+        if (!ctrl.signal.aborted) setSearching(false);
+      }
+    }, 250);
+    return () => {
+      clearTimeout(timer);
+      ctrl.abort();
+    };
+  }, [q, filters.kind]);
 
-  async function load() {
+  const fetchPage = useCallback(async (f: Filters, after?: string) => {
+    const gen = generation.current;
     setLoading(true);
+    setError(null);
     try {
-      const r = await fetch("/api/archive/list", { cache: "no-store" });
-      const j = (await r.json()) as Data;
-      setData(j);
+      const r = await fetch(listUrl(f, after), { cache: "no-store" });
+      const j = (await r.json()) as Page & { error?: string };
+      if (gen !== generation.current) return;
+      if (!r.ok) throw new Error(j.error || `HTTP ${r.status}`);
+      setRows((prev) => (after ? [...prev, ...j.items] : j.items));
+      setTotal(j.total);
+      setCursor(j.nextCursor);
+    } catch (e: any) {
+      if (gen === generation.current) setError(e?.message || "Failed to load.");
     } finally {
-      setLoading(false);
+      if (gen === generation.current) setLoading(false);
     }
-  }
+  }, []);
 
   useEffect(() => {
-    load();
-  }, []);
+    generation.current++;
+    setRows([]);
+    setCursor(undefined);
+    fetchPage(filters);
+  }, [filters, fetchPage]);
+
+  // Infinite scroll: fetch the next page when the sentinel comes into view.
+  useEffect(() => {
+    const el = sentinel.current;
+    if (!el || !cursor || loading) return;
+    const io = new IntersectionObserver((entries) => {
+      if (entries.some((e) => e.isIntersecting)) fetchPage(filters, cursor);
+    });
+    io.observe(el);
+    return () => io.disconnect();
+  }, [cursor, loading, filters, fetchPage]);
+
+  function update<K extends keyof Filters>(key: K, value: Filters[K]) {
+    setFilters((f) => ({ ...f, [key]: value }));
+  }
 
   async function onDelete(id: string) {
     if (!confirm("Delete this item?")) return;
@@ -32,36 +146,60 @@ export default function ArchivePage() {
       headers: { "content-type": "application/json" },
       body: JSON.stringify({ id }),
     });
-    await load();
+    setRows((prev) => prev.filter((r) => r.id !== id));
+    setHits((prev) => prev && prev.filter((h) => h.id !== id));
+    setTotal((t) => Math.max(0, t - 1));
+    loadChips();
   }
 
-  function RowList({ rows }: { rows: Row[] }) {
-    if (!rows?.length) {
-      return <div className="card p-4 text-slate-600">No items yet.</div>;
-    }
-    return (
-      <div className="space-y-2">
-        {rows.map((r) => (
-          <div key={r.id} className="card p-3 flex items-center gap-3 justify-between">
-            <div className="min-w-0">
-              <div className="font-semibold truncate">
-                <Link href={`/r/${r.id}`}>{r.title}</Link>
-              </div>
-              <div className="text-slate-600 text-sm truncate">{r.description}</div>
-              <div className="text-slate-500 text-xs">{new Date(r.createdAt).toLocaleString()}</div>
-            </div>
-            <div className="flex items-center gap-2">
-              <Link className="btn" href={`/r/${r.id}?print=1`} title="Print to PDF">
-                <ArrowUpIcon />
-              </Link>
-              <button className="btn" onClick={() => onDelete(r.id)} title="Delete">
-                <TrashIcon />
-              </button>
-            </div>
-          </div>
-        ))}
-      </div>
-    );
+  async function onFavorite(row: Row) {
+    const favorite = !row.favorite;
+    const mark = (on: boolean) => setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, favorite: on } : r)));
+    mark(favorite);
+    const r = await fetch("/api/archive/favorite", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ id: row.id, favorite }),
+    }).catch(() => null);
+    if (!r?.ok) mark(!favorite);
+  }
+
+  async function onEditTags(row: Row) {
+    const input = prompt("Tags, separated by commas", (row.tags ?? []).join(", "));
+    if (input === null) return;
+    const r = await fetch("/api/archive/update", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ id: row.id, tags: input.split(",") }),
+    });
+    const j = await r.json();
+    if (!r.ok) return alert(`Saving tags failed: ${j.error || r.status}`);
+    setRows((prev) => prev.map((x) => (x.id === row.id ? { ...x, tags: j.item.tags } : x)));
+    loadChips();
+  }
+
+  async function onAddToCollection(id: string, collection: string) {
+    const r = await fetch(`/api/archive/collections/${encodeURIComponent(collection)}`, {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ add: [id] }),
+    });
+    if (!r.ok) return alert(`Adding to the collection failed: ${(await r.json()).error || r.status}`);
+    loadChips();
+  }
+
+  async function onNewCollection() {
+    const name = prompt("Name the new collection");
+    if (!name?.trim()) return;
+    const r = await fetch("/api/archive/collections", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    const j = await r.json();
+    if (!r.ok) return alert(`Creating the collection failed: ${j.error || r.status}`);
+    await loadChips();
+    update("collection", j.collection.id);
   }
 
   return (
@@ -69,25 +207,172 @@ export default function ArchivePage() {
       <header className="py-8">
         <div className="flex items-center justify-between flex-wrap gap-3">
           <h1 className="text-3xl font-semibold">Archive</h1>
-          <Link href="/" className="btn">← Back</Link>
+          <div className="flex gap-2">
+            <a className="btn" href="/api/archive/backup" title="Every item, its history and images as a zip">
+              Backup
+            </a>
+            <Link href="/" className="btn">← Back</Link>
+          </div>
         </div>
       </header>
 
-      {loading ? (
-        <div className="card p-4">Loading…</div>
-      ) : !data ? (
-        <div className="card p-4 text-red-700">Failed to load.</div>
-      ) : (
-        <div className="grid md:grid-cols-2 gap-6">
-          <section className="space-y-3">
-            <h2 className="text-xl font-semibold">Saved Results</h2>
-            <RowList rows={data.full} />
-          </section>
-          <section className="space-y-3">
-            <h2 className="text-xl font-semibold">Recipe Highlights</h2>
-            <RowList rows={data.highlight} />
-          </section>
+      <ImportForm />
+
+      <FilterChips
+        filters={filters}
+        collections={collections}
+        tags={tags}
+        onChange={(patch) => setFilters((f) => ({ ...f, ...patch }))}
+        onNewCollection={onNewCollection}
+      />
+
+      <div className="card p-3 mb-4">
+        <input
+          type="search"
+          className="w-full border border-slate-300 rounded-lg px-3 py-2 bg-white"
+          placeholder="Search titles, chefs, ingredients…"
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+        />
+      </div>
+
+      {hits ? (
+        <div className="space-y-2">
+          <div className="text-slate-500 text-sm">
+            {searching ? "Searching…" : `${hits.length} result${hits.length === 1 ? "" : "s"} for “${q.trim()}”`}
+          </div>
+          {hits.map((h) => (
+            <div key={h.id} className="card p-3 flex items-center gap-3 justify-between">
+              <div className="min-w-0">
+                <div className="font-semibold truncate">
+                  <Link href={`/r/${h.id}`}>{h.title}</Link>
+                  {h.kind === "highlight" && <span className="ml-2 text-xs text-slate-500">highlight</span>}
+                </div>
+                {/* Escaped server-side; the only markup is <mark>. */}
+                <div className="text-slate-600 text-sm" dangerouslySetInnerHTML={{ __html: h.snippet }} />
+                <div className="text-slate-500 text-xs">{new Date(h.createdAt).toLocaleString()}</div>
+              </div>
+              <button className="btn" onClick={() => onDelete(h.id)} title="Delete">
+                <TrashIcon />
+              </button>
+            </div>
+          ))}
         </div>
+      ) : (
+        <>
+          <div className="card p-3 mb-4 flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-600">Sort</span>
+              <select
+                className="border border-slate-300 rounded-lg px-2 py-1 bg-white"
+                value={`${filters.sort}:${filters.order}`}
+                onChange={(e) => {
+                  const [sort, order] = e.target.value.split(":") as [Filters["sort"], Filters["order"]];
+                  setFilters((f) => ({ ...f, sort, order }));
+                }}
+              >
+                <option value="date:desc">Newest first</option>
+                <option value="date:asc">Oldest first</option>
+                <option value="title:asc">Title A–Z</option>
+                <option value="title:desc">Title Z–A</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-600">Kind</span>
+              <select className="border border-slate-300 rounded-lg px-2 py-1 bg-white" value={filters.kind} onChange={(e) => update("kind", e.target.value)}>
+                <option value="">All</option>
+                <option value="full">Saved results</option>
+                <option value="highlight">Highlights</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-600">From</span>
+              <input className="border border-slate-300 rounded-lg px-2 py-1 bg-white" type="date" value={filters.from} onChange={(e) => update("from", e.target.value)} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-600">To</span>
+              <input className="border border-slate-300 rounded-lg px-2 py-1 bg-white" type="date" value={filters.to} onChange={(e) => update("to", e.target.value)} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-600">Tag</span>
+              <input
+                // Remount when a chip sets the tag, so the box shows it.
+                key={filters.tag}
+                className="border border-slate-300 rounded-lg px-2 py-1 bg-white"
+                placeholder="e.g. vegetarian"
+                defaultValue={filters.tag}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") update("tag", e.currentTarget.value);
+                }}
+                onBlur={(e) => update("tag", e.target.value)}
+              />
+            </label>
+            <button className="btn" onClick={() => setFilters(DEFAULT_FILTERS)}>Reset</button>
+            {total > 0 ? (
+              <a className="btn" href={cookbookUrl(filters)} title="The items below as one PDF, up to 100">
+                Cookbook PDF
+              </a>
+            ) : null}
+            <div className="ml-auto text-slate-500">{loading && !rows.length ? "" : `${total} item${total === 1 ? "" : "s"}`}</div>
+          </div>
+
+          {error ? (
+            <div className="card p-4 text-red-700">{error}</div>
+          ) : !rows.length ? (
+            <div className="card p-4 text-slate-600">{loading ? "Loading…" : "No items match."}</div>
+          ) : (
+            <div className="space-y-2">
+              {rows.map((r) => (
+                <div key={r.id} className="card p-3 flex items-center gap-3 justify-between">
+                  <div className="min-w-0">
+                    <div className="font-semibold truncate">
+                      <Link href={`/r/${r.id}`}>{r.title}</Link>
+                      {r.kind === "highlight" && <span className="ml-2 text-xs text-slate-500">highlight</span>}
+                    </div>
+                    <div className="text-slate-600 text-sm truncate">{r.description}</div>
+                    <div className="text-slate-500 text-xs">
+                      {new Date(r.createdAt).toLocaleString()}
+                      {r.tags?.length ? ` · ${r.tags.join(", ")}` : ""}
+                      {" · "}
+                      <button className="underline" onClick={() => onEditTags(r)}>
+                        {r.tags?.length ? "edit tags" : "add tags"}
+                      </button>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {collections.length ? (
+                      <select
+                        className="border border-slate-300 rounded-lg px-2 py-1 bg-white text-sm"
+                        value=""
+                        title="Add to a collection"
+                        onChange={(e) => e.target.value && onAddToCollection(r.id, e.target.value)}
+                      >
+                        <option value="">+ Collection</option>
+                        {collections.map((c) => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                      </select>
+                    ) : null}
+                    <button className="btn" onClick={() => onFavorite(r)} title={r.favorite ? "Unfavorite" : "Favorite"} aria-pressed={!!r.favorite}>
+                      {r.favorite ? "★" : "☆"}
+                    </button>
+                    <Link className="btn" href={`/r/${r.id}?print=1`} title="Print to PDF">
+                      <ArrowUpIcon />
+                    </Link>
+                    <button className="btn" onClick={() => onDelete(r.id)} title="Delete">
+                      <TrashIcon />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <div ref={sentinel} className="py-4 text-center text-slate-500 text-sm">
+                {loading ? "Loading…" : cursor ? (
+                  <button className="btn" onClick={() => fetchPage(filters, cursor)}>Load more</button>
+                ) : null}
+              </div>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
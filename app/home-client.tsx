@@ -2,6 +2,8 @@
 "use client";
 
 import { useState } from "react";
+import { sanitizeFragment } from "./lib/sanitize";
+import { responsiveImages } from "./lib/img-cdn";
 
 type GenResult = {
   html?: string;
@@ -164,7 +166,7 @@ export default function HomeClient() {
             marginTop: 8,
             minHeight: 120,
           }}
-          dangerouslySetInnerHTML={{ __html: res?.html || "" }}
+          dangerouslySetInnerHTML={{ __html: responsiveImages(sanitizeFragment(res?.html || "", "preview")) }}
         />
       </details>
     </main>
@@ -1,6 +1,7 @@
 // app/layout.tsx
 import type { Metadata } from 'next';
 import './globals.css';
+import AccountLink from './account-link';
 
 export const metadata: Metadata = {
   title: 'FreshRecipes',
@@ -22,7 +23,10 @@ export default function RootLayout({ children }: { children: React.ReactNode })
             <span className="logo" aria-hidden>✺</span>
             <span className="brand-text">FreshRecipes</span>
           </div>
-          <a className="archive-chip" href="/archive" aria-label="Open Archive">Archive</a>
+          <div className="flex items-center gap-4">
+            <AccountLink />
+            <a className="archive-chip" href="/archive" aria-label="Open Archive">Archive</a>
+          </div>
         </header>
 
         <main className="site-main">{children}</main>
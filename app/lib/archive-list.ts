@@ -0,0 +1,129 @@
+// app/lib/archive-list.ts
+import type { ArchiveSummary, Kind } from "./store";
+
+// Paging, sorting and filtering over the archive index (store.ts list()).
+// Cursors are keyset cursors: the sort key and id of the last row served,
+// so items saved or deleted between requests don't shift later pages.
+
+export type ListSort = "date" | "title";
+export type ListOrder = "asc" | "desc";
+
+export type ListQuery = {
+  sort: ListSort;
+  order: ListOrder;
+  limit: number;
+  cursor?: string;
+  kind?: Kind;
+  /** Inclusive ISO bounds on createdAt */
+  from?: string;
+  to?: string;
+  tag?: string;
+  favorite?: boolean;
+  /** A collection id; callers narrow the entries to its members (see collections.ts) */
+  collection?: string;
+};
+
+export type ListPage = {
+  items: ArchiveSummary[];
+  /** Pass back as `cursor` for the next page; absent on the last page */
+  nextCursor?: string;
+  /** Items matching the filters, across all pages */
+  total: number;
+};
+
+export const DEFAULT_LIMIT = 20;
+export const MAX_LIMIT = 100;
+
+type Cursor = { k: string; id: string };
+
+function sortKey(e: ArchiveSummary, sort: ListSort): string {
+  return sort === "title" ? e.title.toLowerCase() : e.createdAt;
+}
+
+function compare(a: Cursor, b: Cursor, order: ListOrder): number {
+  const c = a.k.localeCompare(b.k) || a.id.localeCompare(b.id);
+  return order === "asc" ? c : -c;
+}
+
+function encodeCursor(c: Cursor): string {
+  return Buffer.from(JSON.stringify(c)).toString("base64url");
+}
+
+function decodeCursor(s: string): Cursor | null {
+  try {
+    const c = JSON.parse(Buffer.from(s, "base64url").toString("utf8"));
+    return typeof c?.k === "string" && typeof c?.id === "string" ? c : null;
+  } catch {
+    return null;
+  }
+}
+
+/** A date-only bound covers the whole day: `to=2024-05-01` includes that day. */
+function parseBound(v: string, end: boolean): string | null {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(v);
+  const t = new Date(dateOnly ? `${v}T00:00:00.000Z` : v).getTime();
+  if (!Number.isFinite(t)) return null;
+  return new Date(dateOnly && end ? t + 86_400_000 - 1 : t).toISOString();
+}
+
+/** Read and validate list parameters from a query string. */
+export function parseListQuery(params: URLSearchParams): { ok: true; query: ListQuery } | { ok: false; error: string } {
+  const sort = params.get("sort") || "date";
+  if (sort !== "date" && sort !== "title") return { ok: false, error: "sort must be date or title" };
+  const order = params.get("order") || (sort === "date" ? "desc" : "asc");
+  if (order !== "asc" && order !== "desc") return { ok: false, error: "order must be asc or desc" };
+
+  const limitParam = params.get("limit");
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) return { ok: false, error: "limit must be a positive integer" };
+
+  const kindParam = params.get("kind");
+  const kind = kindParam === "full" || kindParam === "highlight" ? kindParam : undefined;
+  if (kindParam && !kind) return { ok: false, error: "kind must be full or highlight" };
+
+  const query: ListQuery = { sort, order, limit: Math.min(limit, MAX_LIMIT), kind };
+  for (const [name, end] of [["from", false], ["to", true]] as const) {
+    const v = params.get(name);
+    if (!v) continue;
+    const bound = parseBound(v, end);
+    if (!bound) return { ok: false, error: `${name} must be a date` };
+    query[name] = bound;
+  }
+  const tag = params.get("tag")?.trim().toLowerCase();
+  if (tag) query.tag = tag;
+  const favorite = params.get("favorite");
+  if (favorite && favorite !== "1" && favorite !== "0") return { ok: false, error: "favorite must be 1 or 0" };
+  if (favorite) query.favorite = favorite === "1";
+  const collection = params.get("collection")?.trim();
+  if (collection) query.collection = collection;
+  const cursor = params.get("cursor");
+  if (cursor) {
+    if (!decodeCursor(cursor)) return { ok: false, error: "Invalid cursor" };
+    query.cursor = cursor;
+  }
+  return { ok: true, query };
+}
+
+export function pageSummaries(entries: ArchiveSummary[], q: ListQuery): ListPage {
+  const fromT = q.from ? Date.parse(q.from) : -Infinity;
+  const toT = q.to ? Date.parse(q.to) : Infinity;
+  const matching = entries
+    .filter((e) => {
+      if (q.kind && e.kind !== q.kind) return false;
+      if (q.tag && !e.tags?.includes(q.tag)) return false;
+      if (q.favorite !== undefined && !!e.favorite !== q.favorite) return false;
+      const t = Date.parse(e.createdAt);
+      return !(t < fromT || t > toT);
+    })
+    .map((e) => ({ e, c: { k: sortKey(e, q.sort), id: e.id } }))
+    .sort((a, b) => compare(a.c, b.c, q.order));
+
+  const after = q.cursor ? decodeCursor(q.cursor) : null;
+  const rest = after ? matching.filter((m) => compare(m.c, after, q.order) > 0) : matching;
+  const page = rest.slice(0, q.limit);
+  return {
+    items: page.map((m) => m.e),
+    nextCursor: rest.length > q.limit ? encodeCursor(page[page.length - 1].c) : undefined,
+    total: matching.length,
+  };
+}
@@ -0,0 +1,30 @@
+// app/lib/auth.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getStorage } from "@/lib/storage";
+import { createLoginToken, redeemLoginToken } from "./auth";
+
+beforeEach(() => {
+  vi.stubEnv("AUTH_SECRET", "test-secret-test-secret-test-secret");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("redeemLoginToken", () => {
+  it("spends a link once, even when two requests race", async () => {
+    const token = await createLoginToken("cook@example.com", "/");
+    // Slow storage, so both requests would look for the marker before either writes it.
+    const store = getStorage();
+    const head = store.head.bind(store);
+    vi.spyOn(store, "head").mockImplementation(async (key) => {
+      const found = await head(key);
+      await new Promise((r) => setTimeout(r, 5));
+      return found;
+    });
+    const results = await Promise.allSettled([redeemLoginToken(token), redeemLoginToken(token)]);
+    expect(results.map((r) => r.status).sort()).toEqual(["fulfilled", "rejected"]);
+    await expect(redeemLoginToken(token)).rejects.toThrow("already been used");
+  });
+});
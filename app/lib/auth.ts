@@ -0,0 +1,202 @@
+// app/lib/auth.ts
+import { cookies } from "next/headers";
+import { getStorage, readJson, scopedStorage, writeJson, type StorageDriver } from "@/lib/storage";
+import {
+  LINK_TTL_MS,
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  VIEW_AS_COOKIE,
+  authEnabled,
+  isAdmin,
+  signToken,
+  userId,
+  verifyToken,
+  type LinkToken,
+  type SessionToken,
+} from "./session";
+import { createQueue } from "./queue";
+
+// Sign-in by magic link, and whose archive a request sees.
+//
+// With AUTH_SECRET set, every user gets their own archive under
+// users/{uid}/ in storage (recipes, images, collections: the whole layout of
+// store.ts, one level down). Admins (ADMIN_EMAILS) can look at any user's
+// archive, or the shared one at the root that predates sign-in, by setting
+// the view-as cookie from /admin. Without AUTH_SECRET there is only the
+// shared archive, as before; see middleware.ts for what that allows.
+//
+// Server-side state, in the root of storage:
+//   auth/users.json               UsersDocument: everyone who has signed in
+//   auth/used-links/{nonce}.json  magic links already spent; each works once
+
+export const USERS_PATH = "auth/users.json";
+const USED_LINKS = "auth/used-links/";
+/** The view-as value for the shared archive at the root of storage */
+export const SHARED_ARCHIVE = "shared";
+
+export class AuthError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export type User = { uid: string; email: string; admin: boolean };
+export type UserRecord = { uid: string; email: string; createdAt: string; lastSignInAt: string };
+export type UsersDocument = { version: 1; users: UserRecord[] };
+/** Whose archive a request sees: a user's, or the shared one at the root of storage. */
+export type ArchiveOwner = { uid: string; email: string } | typeof SHARED_ARCHIVE;
+
+function isUsersDocument(v: any): v is UsersDocument {
+  return !!v && typeof v === "object" && v.version === 1 && Array.isArray(v.users);
+}
+
+export function normalizeEmail(v: unknown): string {
+  const email = typeof v === "string" ? v.trim().toLowerCase() : "";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > 254) {
+    throw new AuthError("Enter a valid email address", 400);
+  }
+  return email;
+}
+
+/**
+ * AUTH_ALLOWED_EMAILS, comma-separated addresses or "@domain" entries; unset
+ * lets anyone sign in (and get an empty archive of their own). Admins are
+ * always allowed.
+ */
+export function mayLogIn(email: string): boolean {
+  const allowed = (process.env.AUTH_ALLOWED_EMAILS ?? "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+  if (!allowed.length || isAdmin(email)) return true;
+  return allowed.some((a) => (a.startsWith("@") ? email.endsWith(a) : email === a));
+}
+
+/** Where a sign-in may send the browser afterwards: a path on this site, never another origin. */
+export function safeNext(v: unknown): string {
+  const next = typeof v === "string" ? v : "";
+  return next.startsWith("/") && !next.startsWith("//") && !next.startsWith("/\\") ? next : "/archive";
+}
+
+/** A magic link for `email` that signs in once, within LINK_TTL_MS. */
+export function createLoginToken(email: string, next: string): Promise<string> {
+  return signToken({ typ: "link", email, next: safeNext(next), nonce: crypto.randomUUID(), exp: Date.now() + LINK_TTL_MS });
+}
+
+// Checking and writing a link's used marker is one step, so two requests
+// with the same link can't both find it unused (see queue.ts).
+const spendQueue = createQueue();
+
+function markUsed(link: LinkToken): Promise<void> {
+  return spendQueue(async () => {
+    const store = getStorage();
+    const used = `${USED_LINKS}${link.nonce}.json`;
+    if (await store.head(used)) throw new AuthError("This sign-in link has already been used", 400);
+    await writeJson(store, used, { usedAt: new Date().toISOString(), exp: link.exp });
+  });
+}
+
+/**
+ * Spend a magic link: check it, mark it used and record the user. Returns the
+ * session token to set as the cookie and where to go next.
+ */
+export async function redeemLoginToken(token: string): Promise<{ session: string; next: string; user: User }> {
+  const link = await verifyToken<LinkToken>(token, "link");
+  if (!link) throw new AuthError("This sign-in link is invalid or has expired", 400);
+  await markUsed(link);
+
+  const uid = await userId(link.email);
+  await recordSignIn(uid, link.email);
+  const session = await signToken({ typ: "session", uid, email: link.email, exp: Date.now() + SESSION_TTL_MS });
+  return { session, next: link.next, user: { uid, email: link.email, admin: isAdmin(link.email) } };
+}
+
+const enqueue = createQueue();
+
+function recordSignIn(uid: string, email: string): Promise<void> {
+  return enqueue(async () => {
+    const store = getStorage();
+    const doc = await readJson(store, USERS_PATH);
+    const users = isUsersDocument(doc) ? doc.users : [];
+    const now = new Date().toISOString();
+    const existing = users.find((u) => u.uid === uid);
+    const next: UsersDocument = {
+      version: 1,
+      users: existing
+        ? users.map((u) => (u.uid === uid ? { ...u, lastSignInAt: now } : u))
+        : [...users, { uid, email, createdAt: now, lastSignInAt: now }],
+    };
+    await writeJson(store, USERS_PATH, next);
+  });
+}
+
+/** Everyone who has signed in, by email. */
+export async function listUsers(): Promise<UserRecord[]> {
+  const doc = await readJson(getStorage(), USERS_PATH);
+  return (isUsersDocument(doc) ? doc.users : []).sort((a, b) => a.email.localeCompare(b.email));
+}
+
+export const sessionCookie = {
+  name: SESSION_COOKIE,
+  options: {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  },
+};
+
+/** The signed-in user of the current request, or null (always null with auth off). */
+export async function currentUser(): Promise<User | null> {
+  if (!authEnabled()) return null;
+  const jar = await cookies();
+  const session = await verifyToken<SessionToken>(jar.get(SESSION_COOKIE)?.value, "session");
+  return session ? { uid: session.uid, email: session.email, admin: isAdmin(session.email) } : null;
+}
+
+/** The signed-in user, or AuthError 401; 403 as well when `admin` and they aren't one. */
+export async function requireUser(opts: { admin?: boolean } = {}): Promise<User> {
+  const user = await currentUser();
+  if (!user) throw new AuthError("Sign in required", 401);
+  if (opts.admin && !user.admin) throw new AuthError("Admins only", 403);
+  return user;
+}
+
+/** The archive an admin has chosen to view, from the view-as cookie; their own when unset. */
+async function viewing(user: User): Promise<ArchiveOwner> {
+  const choice = user.admin ? (await cookies()).get(VIEW_AS_COOKIE)?.value : undefined;
+  if (!choice || choice === user.uid) return user;
+  if (choice === SHARED_ARCHIVE) return SHARED_ARCHIVE;
+  return (await listUsers()).find((u) => u.uid === choice) ?? user;
+}
+
+/** Whose archive the current request sees; null with auth off. */
+export async function archiveOwner(): Promise<ArchiveOwner | null> {
+  if (!authEnabled()) return null;
+  return viewing(await requireUser());
+}
+
+/** The uid whose archive the current request sees; undefined for the shared archive, and with auth off. */
+export async function archiveUid(): Promise<string | undefined> {
+  const owner = await archiveOwner();
+  return owner && owner !== SHARED_ARCHIVE ? owner.uid : undefined;
+}
+
+/** Storage for `uid`'s archive, or for the shared one without a uid. */
+export function userStorage(uid?: string): StorageDriver {
+  return uid ? scopedStorage(`users/${uid}/`) : getStorage();
+}
+
+export function ownerStorage(owner: ArchiveOwner): StorageDriver {
+  return userStorage(owner === SHARED_ARCHIVE ? undefined : owner.uid);
+}
+
+/**
+ * Storage for the current request's archive: pass it to getArchive() and
+ * getCollections(). The whole store with auth off; otherwise the user's part
+ * of it (AuthError 401 without a session).
+ */
+export async function archiveStorage(): Promise<StorageDriver> {
+  return userStorage(await archiveUid());
+}
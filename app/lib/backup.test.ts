@@ -0,0 +1,83 @@
+// app/lib/backup.test.ts
+import { createHash } from "crypto";
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { readJson } from "@/lib/storage";
+import { userStorage } from "./auth";
+import { BACKUP_FORMAT, restoreBackup } from "./backup";
+import { getArchive, INDEX_PATH, type ArchiveItem } from "./store";
+
+let uid = 0;
+
+function item(id: string, html = "<article><h2>Soup</h2></article>"): ArchiveItem {
+  return { id, kind: "full", title: "Soup", description: "", html, createdAt: "2026-01-01T00:00:00.000Z" };
+}
+
+/** A bundle as an attacker would write one: any ids, any HTML, valid checksums. */
+function bundle(items: ArchiveItem[]): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  const entries = items.map((it, i) => {
+    const file = `items/${i}.json`;
+    files[file] = strToU8(JSON.stringify(it));
+    const sha256 = createHash("sha256").update(files[file]).digest("hex");
+    return { id: it.id, title: it.title, source: "recipes", version: 1, history: [], file, sha256 };
+  });
+  const manifest = { format: BACKUP_FORMAT, version: 1, createdAt: new Date().toISOString(), items: entries, images: [] };
+  files["manifest.json"] = strToU8(JSON.stringify(manifest));
+  return zipSync(files);
+}
+
+describe("restoreBackup", () => {
+  it("refuses ids that would land on another document", async () => {
+    const store = userStorage(`a${++uid}`);
+    const ids = ["index", "x/v1", "../shares/abc", "", ".hidden", "a~b"];
+    const report = await restoreBackup(bundle(ids.map((id) => item(id))), { store });
+    expect(report.restored).toEqual([]);
+    expect(report.failed.map((f) => f.error)).toEqual(ids.map(() => "invalid item id"));
+    expect(await readJson(store, INDEX_PATH)).toBeNull();
+  });
+
+  it("sanitizes restored pages", async () => {
+    const store = userStorage(`a${++uid}`);
+    const id = crypto.randomUUID();
+    const report = await restoreBackup(bundle([item(id, `<p>hi</p><img src=x onerror=alert(1)><script>alert(2)</script>`)]), {
+      store,
+    });
+    expect(report.restored.map((r) => r.id)).toEqual([id]);
+    const html = (await getArchive(store).get(id))!.html;
+    expect(html).toContain("<p>hi</p>");
+    expect(html).not.toMatch(/onerror|<script/);
+  });
+
+  it("refuses items missing fields the archive needs, before writing anything", async () => {
+    const store = userStorage(`a${++uid}`);
+    const good = item(crypto.randomUUID());
+    const bare = { id: crypto.randomUUID(), html: "<p>x</p>" } as ArchiveItem;
+    const badRecipe = { ...item(crypto.randomUUID()), recipes: [{ id: 1, title: "Soup" }] } as ArchiveItem;
+    const badTags = { ...item(crypto.randomUUID()), tags: "soup" } as unknown as ArchiveItem;
+    const report = await restoreBackup(bundle([good, bare, badRecipe, badTags]), { store });
+    expect(report.restored.map((r) => r.id)).toEqual([good.id]);
+    expect(report.failed.map((f) => f.id)).toEqual([bare.id, badRecipe.id, badTags.id]);
+    expect((await getArchive(store).list()).map((e) => e.id)).toEqual([good.id]);
+    expect(await getArchive(store).get(bare.id)).toBeNull();
+  });
+
+  it("sanitizes restored recipe sections", async () => {
+    const store = userStorage(`a${++uid}`);
+    const recipes = [{ id: 1, title: "Soup", sections: [{ heading: "Steps", html: `<p>Stir</p><img src=x onerror=alert(1)>` }] }];
+    const id = crypto.randomUUID();
+    await restoreBackup(bundle([{ ...item(id), recipes }]), { store });
+    const section = (await getArchive(store).get(id))!.recipes![0].sections[0].html;
+    expect(section).toContain("<p>Stir</p>");
+    expect(section).not.toContain("onerror");
+  });
+
+  it("restores a bundle twice without conflicts", async () => {
+    const store = userStorage(`a${++uid}`);
+    const data = bundle([item("legacy-slug", `<p onclick="x()">hi</p>`)]);
+    await restoreBackup(data, { store });
+    const again = await restoreBackup(data, { store });
+    expect(again.skipped.map((s) => s.id)).toEqual(["legacy-slug"]);
+    expect(again.conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,371 @@
+// app/lib/backup.ts
+import { createHash } from "crypto";
+import { Zip, ZipDeflate, ZipPassThrough, unzipSync, strFromU8, strToU8, type Unzipped } from "fflate";
+import { getStorage, listAll, readJson, type StorageDriver } from "@/lib/storage";
+import { getCollections, type Collection } from "./collections";
+import { IMAGE_PREFIX, imageKeys } from "./image-store";
+import { readLegacy } from "./migrate";
+import { checkRecipes } from "./recipe-schema";
+import { sanitizeDocument, sanitizeRecipes } from "./sanitize";
+import type { Recipe } from "./types";
+import { currentVersion, getArchive, INDEX_PATH, isArchiveItem, isItemId, itemPath, type ArchiveItem, type LegacyLayout } from "./store";
+
+// The whole archive as one zip, and back. A bundle holds:
+//   items/{id}.json         the current item (ArchiveItem)
+//   items/{id}.html         its page, so a backup is readable without the app
+//   items/{id}/v{n}.json    earlier versions
+//   images/{sha256}.{ext}   stored images (see image-store.ts), unless left out
+//   collections.json        every collection (see collections.ts)
+//   manifest.json           BackupManifest, written last since the zip is streamed
+//
+// Items still in a legacy layout (see migrate.ts) are exported as the items
+// migration would write, so a restore lands them in recipes/{id}.json.
+//
+// Restoring never overwrites: an id that is already here is skipped when the
+// content matches and reported as a conflict when it doesn't, so the same
+// bundle can be restored any number of times. Collections are added when
+// their id is new and otherwise left alone.
+//
+// A bundle is whatever was uploaded, not necessarily one we wrote: ids must
+// be ones the archive could have made (isItemId in store.ts), and every page
+// is sanitized again on the way in.
+
+export const BACKUP_FORMAT = "freshrecipes-backup";
+export const MAX_BACKUP_BYTES = 100 * 1024 * 1024;
+/** Uncompressed total; a bundle that claims more is refused before unpacking. */
+const MAX_UNPACKED_BYTES = 300 * 1024 * 1024;
+
+export class BackupError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export type BackupEntry = {
+  id: string;
+  title: string;
+  /** Where the item was read from: recipes/{id}.json or a legacy layout */
+  source: "recipes" | LegacyLayout;
+  version: number;
+  /** Earlier versions included, oldest first */
+  history: number[];
+  /** Path of the item's JSON in the zip */
+  file: string;
+  /** sha256 of that JSON */
+  sha256: string;
+};
+
+export type BackupManifest = {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  createdAt: string;
+  items: BackupEntry[];
+  /** Image keys included in the zip */
+  images: string[];
+};
+
+export type RestoreReport = {
+  dryRun: boolean;
+  restored: { id: string; title: string; versions: number }[];
+  /** Already here with the same content */
+  skipped: { id: string; title: string }[];
+  /** Already here with different content; left as it is */
+  conflicts: { id: string; title: string; reason: string }[];
+  failed: { id?: string; file?: string; error: string }[];
+  images: { restored: number; existing: number };
+  collections: { restored: number; existing: number };
+};
+
+type ZipFile = { name: string; data: Uint8Array; compress: boolean };
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+};
+
+// A stored image in any of its URL forms: the blob URL, /api/files/… (with or
+// without a user's prefix) or an absolute local URL. Only the key survives a
+// move between stores.
+const IMAGE_URL = /(?:https?:\/\/[^"'\s()<>\\]*?\/|\/api\/files\/(?:users\/[^/"'\s]+\/)?)?(images\/[0-9a-f]{64}\.(?:jpg|png|gif|webp|avif))\b/g;
+
+function itemFile(id: string) {
+  return `items/${encodeURIComponent(id)}`;
+}
+
+function sha256(data: Uint8Array) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** Earlier versions of `item` straight from storage, oldest first. */
+async function readHistory(store: StorageDriver, item: ArchiveItem): Promise<ArchiveItem[]> {
+  const objects = await listAll(store, `recipes/${item.id}/v`);
+  const out: ArchiveItem[] = [];
+  for (const o of objects) {
+    const m = /\/v(\d+)\.json$/.exec(o.key);
+    if (!m || Number(m[1]) >= currentVersion(item)) continue;
+    const j = await readJson(store, o.key);
+    if (isArchiveItem(j) && j.id === item.id) out.push({ ...j, version: Number(m[1]) });
+  }
+  return out.sort((a, b) => currentVersion(a) - currentVersion(b));
+}
+
+async function* backupFiles(store: StorageDriver, opts: { images: boolean }): AsyncGenerator<ZipFile> {
+  const manifest: BackupManifest = { format: BACKUP_FORMAT, version: 1, createdAt: new Date().toISOString(), items: [], images: [] };
+  const seen = new Set<string>();
+  const images = new Set<string>();
+
+  async function* entry(item: ArchiveItem, source: BackupEntry["source"]): AsyncGenerator<ZipFile> {
+    seen.add(item.id);
+    const history = await readHistory(store, item);
+    const base = itemFile(item.id);
+    const json = strToU8(JSON.stringify(item, null, 2));
+    manifest.items.push({
+      id: item.id,
+      title: item.title,
+      source,
+      version: currentVersion(item),
+      history: history.map(currentVersion),
+      file: `${base}.json`,
+      sha256: sha256(json),
+    });
+    yield { name: `${base}.json`, data: json, compress: true };
+    yield { name: `${base}.html`, data: strToU8(item.html), compress: true };
+    for (const old of history) {
+      yield { name: `${base}/v${currentVersion(old)}.json`, data: strToU8(JSON.stringify(old, null, 2)), compress: true };
+    }
+    for (const i of [item, ...history]) imageKeys(i).forEach((k) => images.add(k));
+  }
+
+  // Read the items themselves rather than the index, which may have drifted.
+  for (const o of await listAll(store, "recipes/")) {
+    if (!/^recipes\/[^/]+\.json$/.test(o.key) || o.key === INDEX_PATH) continue;
+    const j = await readJson(store, o.key);
+    if (isArchiveItem(j) && o.key === itemPath(j.id)) yield* entry(j, "recipes");
+  }
+  for (const rec of await readLegacy(store)) {
+    if (!seen.has(rec.item.id)) yield* entry(rec.item, rec.source);
+  }
+
+  if (opts.images) {
+    for (const key of Array.from(images).sort()) {
+      const data = await store.get(key);
+      if (!data) continue;
+      manifest.images.push(key);
+      // Already compressed formats; deflating them again only costs time.
+      yield { name: key, data, compress: false };
+    }
+  }
+  const collections = await getCollections(store).list();
+  if (collections.length) yield { name: "collections.json", data: strToU8(JSON.stringify(collections, null, 2)), compress: true };
+  yield { name: "manifest.json", data: strToU8(JSON.stringify(manifest, null, 2)), compress: true };
+}
+
+/** The archive in `opts.store` (all of storage by default) as a zip, streamed one file at a time. */
+export function backupStream(opts: { images?: boolean; store?: StorageDriver } = {}): ReadableStream<Uint8Array> {
+  const files = backupFiles(opts.store ?? getStorage(), { images: opts.images ?? true });
+  let zip: Zip;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((err, chunk, final) => {
+        if (err) return controller.error(err);
+        controller.enqueue(chunk);
+        if (final) controller.close();
+      });
+    },
+    async pull(controller) {
+      try {
+        const next = await files.next();
+        if (next.done) return zip.end();
+        const { name, data, compress } = next.value;
+        const file = compress ? new ZipDeflate(name, { level: 6 }) : new ZipPassThrough(name);
+        zip.add(file);
+        file.push(data, true);
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      zip.terminate();
+      await files.return(undefined);
+    },
+  });
+}
+
+function unpack(bundle: Uint8Array): Unzipped {
+  let total = 0;
+  try {
+    return unzipSync(bundle, {
+      filter: (f) => {
+        total += f.originalSize;
+        if (total > MAX_UNPACKED_BYTES) throw new BackupError("Backup is too large to restore", 413);
+        return true;
+      },
+    });
+  } catch (err) {
+    if (err instanceof BackupError) throw err;
+    throw new BackupError("Not a zip file", 400);
+  }
+}
+
+function readManifest(files: Unzipped): BackupManifest {
+  let m: any = null;
+  try {
+    m = files["manifest.json"] ? JSON.parse(strFromU8(files["manifest.json"])) : null;
+  } catch {}
+  if (m?.format !== BACKUP_FORMAT || !Array.isArray(m.items)) throw new BackupError("Not a freshrecipes backup", 400);
+  if (m.version !== 1) throw new BackupError(`Unsupported backup version ${m.version}`, 400);
+  return m;
+}
+
+const isStr = (v: unknown): v is string => typeof v === "string";
+const optional = <T>(v: unknown, ok: (v: unknown) => v is T) => v === undefined || ok(v);
+
+/**
+ * The item in `data`, if it has every field an ArchiveItem must (the index
+ * and search are built from them), its HTML sanitized again.
+ */
+function parseItem(data: Uint8Array | undefined, id: string): ArchiveItem | null {
+  if (!data) return null;
+  let j: any;
+  try {
+    j = JSON.parse(strFromU8(data));
+  } catch {
+    return null;
+  }
+  if (!isArchiveItem(j) || j.id !== id) return null;
+  const shaped =
+    (j.kind === "full" || j.kind === "highlight") &&
+    isStr(j.title) &&
+    isStr(j.description) &&
+    isStr(j.createdAt) &&
+    !Number.isNaN(Date.parse(j.createdAt)) &&
+    optional(j.query, isStr) &&
+    optional(j.updatedAt, isStr) &&
+    optional(j.tags, (v): v is string[] => Array.isArray(v) && v.every(isStr)) &&
+    optional(j.version, (v): v is number => Number.isInteger(v) && (v as number) >= 1);
+  if (!shaped) return null;
+  let recipes: Recipe[] | undefined;
+  if (j.recipes !== undefined) {
+    const checked = checkRecipes(j.recipes);
+    if (!checked.ok) return null;
+    recipes = sanitizeRecipes(checked.recipes);
+  }
+  return { ...j, html: sanitizeDocument(j.html), recipes };
+}
+
+function readCollections(files: Unzipped): Collection[] {
+  try {
+    const list = files["collections.json"] ? JSON.parse(strFromU8(files["collections.json"])) : [];
+    return (Array.isArray(list) ? list : []).filter(
+      (c: any): c is Collection => typeof c?.id === "string" && typeof c?.name === "string" && Array.isArray(c?.itemIds)
+    );
+  } catch {
+    return [];
+  }
+}
+
+/** Point every stored image URL in `item` at this store's copy. */
+function relink<T extends ArchiveItem>(item: T, urls: Map<string, string>): T {
+  if (!urls.size) return item;
+  const json = JSON.stringify(item).replace(IMAGE_URL, (url, key) => urls.get(key) ?? url);
+  return JSON.parse(json);
+}
+
+/** What makes two copies of an item the same, whichever store their images live in. */
+function fingerprint(item: ArchiveItem): string {
+  const { kind, title, description, html, createdAt, query, tags, recipes, version, updatedAt } = item;
+  const json = JSON.stringify([kind, title, description, html, createdAt, query, tags, recipes, version ?? 1, updatedAt]);
+  return json.replace(IMAGE_URL, "$1");
+}
+
+/**
+ * Restore a bundle made by backupStream(). Items whose id is already in the
+ * archive, in any layout, are skipped or reported as conflicts; with dryRun
+ * nothing is written. Throws BackupError for a bundle it can't read.
+ */
+export async function restoreBackup(
+  bundle: Uint8Array,
+  opts: { dryRun?: boolean; store?: StorageDriver } = {}
+): Promise<RestoreReport> {
+  const dryRun = !!opts.dryRun;
+  const files = unpack(bundle);
+  const manifest = readManifest(files);
+  const store = opts.store ?? getStorage();
+  const repo = getArchive(store);
+  const collections = getCollections(store);
+  const legacy = new Map((await readLegacy(store)).map((rec) => [rec.item.id, rec.item]));
+  const report: RestoreReport = { dryRun, restored: [], skipped: [], conflicts: [], failed: [], images: { restored: 0, existing: 0 }, collections: { restored: 0, existing: 0 } };
+  const imageUrls = new Map<string, string>();
+
+  const restoreImage = async (key: string) => {
+    if (imageUrls.has(key)) return;
+    const existing = await store.head(key);
+    if (existing) {
+      imageUrls.set(key, existing.url);
+      report.images.existing++;
+      return;
+    }
+    const data = files[key];
+    // Not in the bundle: the item keeps the URL it had.
+    if (!data || sha256(data) !== key.slice(IMAGE_PREFIX.length, key.lastIndexOf("."))) return;
+    if (!dryRun) imageUrls.set(key, (await store.put(key, data, CONTENT_TYPES[key.slice(key.lastIndexOf(".") + 1)])).url);
+    report.images.restored++;
+  };
+
+  for (const entry of manifest.items) {
+    const id = typeof entry?.id === "string" ? entry.id : "";
+    const file = typeof entry?.file === "string" ? entry.file : "";
+    try {
+      if (!isItemId(id)) {
+        report.failed.push({ id: id || undefined, file, error: "invalid item id" });
+        continue;
+      }
+      const data = files[file];
+      const item = parseItem(data, id);
+      if (!item) {
+        report.failed.push({ id: id || undefined, file, error: "missing or unreadable item" });
+        continue;
+      }
+      if (entry.sha256 && sha256(data) !== entry.sha256) {
+        report.failed.push({ id, file, error: "checksum mismatch" });
+        continue;
+      }
+
+      const existing = (await repo.get(id)) ?? legacy.get(id);
+      if (existing) {
+        if (fingerprint(existing) === fingerprint(item)) report.skipped.push({ id, title: item.title });
+        else report.conflicts.push({ id, title: item.title, reason: "id already used by a different item" });
+        continue;
+      }
+
+      const base = file.replace(/\.json$/, "");
+      const history = (Array.isArray(entry.history) ? entry.history : [])
+        .filter((v): v is number => Number.isInteger(v) && v >= 1 && v < currentVersion(item))
+        .map((v) => parseItem(files[`${base}/v${v}.json`], id))
+        .filter((v): v is ArchiveItem => !!v);
+      const keys = Array.from(new Set([item, ...history].flatMap((i) => imageKeys(i))));
+      for (const key of keys) await restoreImage(key);
+
+      if (!dryRun) {
+        await repo.put(relink(item, imageUrls), { history: history.map((v) => relink(v, imageUrls)) });
+      }
+      report.restored.push({ id, title: item.title, versions: history.length + 1 });
+    } catch (err: any) {
+      report.failed.push({ id: id || undefined, file, error: String(err?.message || err) });
+    }
+  }
+
+  // After the items, so their ids are archived when membership is checked.
+  for (const c of readCollections(files)) {
+    if (await collections.get(c.id)) {
+      report.collections.existing++;
+      continue;
+    }
+    if (!dryRun) await collections.put(c);
+    report.collections.restored++;
+  }
+  return report;
+}
@@ -0,0 +1,195 @@
+// app/lib/collections.ts
+import { getStorage, readJson, writeJson, type StorageDriver } from "@/lib/storage";
+import type { ListQuery } from "./archive-list";
+import { createQueue } from "./queue";
+import { ArchiveError, getArchive, type ArchiveSummary } from "./store";
+
+// Named, user-made groups of archive items ("Thanksgiving 2026",
+// "weeknight"). An item can be in any number of them. All collections live in
+// one document, since there are few and the archive page shows them all:
+// path: collections/index.json
+// JSON: { version: 1, collections: Collection[] }
+//
+// Membership is kept here rather than on the items, so adding to a collection
+// doesn't make a new version of the item. Deleting an item leaves its id
+// behind; members() and every write drop ids that are no longer archived.
+
+export const COLLECTIONS_PATH = "collections/index.json";
+const MAX_NAME = 80;
+const MAX_DESCRIPTION = 500;
+
+export type Collection = {
+  id: string;
+  name: string;
+  description?: string;
+  /** In the order they were added */
+  itemIds: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CollectionsDocument = { version: 1; collections: Collection[] };
+
+export type NewCollection = { name: string; description?: string; itemIds?: string[] };
+
+export type CollectionUpdate = {
+  name?: string;
+  description?: string;
+  /** Item ids to add; unknown ids are a 404 */
+  add?: string[];
+  remove?: string[];
+};
+
+export interface CollectionRepository {
+  /** Every collection, by name. */
+  list(): Promise<Collection[]>;
+  get(id: string): Promise<Collection | null>;
+  /** Throws ArchiveError 400 for a bad name, 409 when it's taken and 404 for unknown items. */
+  create(input: NewCollection): Promise<Collection>;
+  update(id: string, patch: CollectionUpdate): Promise<Collection>;
+  delete(id: string): Promise<void>;
+  /** Write a collection under its existing id (backup restore). */
+  put(collection: Collection): Promise<void>;
+}
+
+function isCollectionsDocument(v: any): v is CollectionsDocument {
+  return !!v && typeof v === "object" && v.version === 1 && Array.isArray(v.collections);
+}
+
+function byName(a: Collection, b: Collection) {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+}
+
+function cleanName(v: unknown): string {
+  const name = typeof v === "string" ? v.trim().replace(/\s+/g, " ") : "";
+  if (!name) throw new ArchiveError("name must not be empty", 400);
+  if (name.length > MAX_NAME) throw new ArchiveError(`name must be at most ${MAX_NAME} characters`, 400);
+  return name;
+}
+
+function cleanDescription(v: unknown): string | undefined {
+  if (v === undefined) return undefined;
+  if (typeof v !== "string") throw new ArchiveError("description must be a string", 400);
+  return v.trim().slice(0, MAX_DESCRIPTION) || undefined;
+}
+
+class StorageCollectionRepository implements CollectionRepository {
+  private enqueue = createQueue();
+
+  constructor(private store: StorageDriver) {}
+
+  async list(): Promise<Collection[]> {
+    return [...(await this.read())].sort(byName);
+  }
+
+  async get(id: string): Promise<Collection | null> {
+    return (await this.read()).find((c) => c.id === id) ?? null;
+  }
+
+  create(input: NewCollection): Promise<Collection> {
+    const name = cleanName(input.name);
+    const description = cleanDescription(input.description);
+    return this.edit(async (all, archived) => {
+      this.checkName(all, name);
+      const now = new Date().toISOString();
+      const collection: Collection = {
+        id: crypto.randomUUID(),
+        name,
+        description,
+        itemIds: this.checkItems(archived, Array.from(new Set(input.itemIds ?? []))),
+        createdAt: now,
+        updatedAt: now,
+      };
+      return [[...all, collection], collection];
+    });
+  }
+
+  update(id: string, patch: CollectionUpdate): Promise<Collection> {
+    const name = patch.name === undefined ? undefined : cleanName(patch.name);
+    const description = cleanDescription(patch.description);
+    return this.edit(async (all, archived) => {
+      const current = all.find((c) => c.id === id);
+      if (!current) throw new ArchiveError("Collection not found", 404);
+      if (name !== undefined) this.checkName(all, name, id);
+      const add = this.checkItems(archived, patch.add ?? []);
+      const remove = new Set(patch.remove ?? []);
+      const next: Collection = {
+        ...current,
+        name: name ?? current.name,
+        description: patch.description === undefined ? current.description : description,
+        itemIds: Array.from(new Set([...current.itemIds, ...add])).filter((i) => !remove.has(i)),
+        updatedAt: new Date().toISOString(),
+      };
+      return [all.map((c) => (c.id === id ? next : c)), next];
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.edit(async (all) => {
+      if (!all.some((c) => c.id === id)) throw new ArchiveError("Collection not found", 404);
+      return [all.filter((c) => c.id !== id), undefined];
+    });
+  }
+
+  async put(collection: Collection): Promise<void> {
+    await this.edit(async (all) => [[...all.filter((c) => c.id !== collection.id), collection], undefined]);
+  }
+
+  private async read(): Promise<Collection[]> {
+    const doc = await readJson(this.store, COLLECTIONS_PATH);
+    return isCollectionsDocument(doc) ? doc.collections : [];
+  }
+
+  private checkName(all: Collection[], name: string, except?: string) {
+    const taken = all.some((c) => c.id !== except && c.name.toLowerCase() === name.toLowerCase());
+    if (taken) throw new ArchiveError(`A collection named “${name}” already exists`, 409);
+  }
+
+  private checkItems(archived: Set<string>, ids: string[]): string[] {
+    const missing = ids.filter((i) => !archived.has(i));
+    if (missing.length) throw new ArchiveError(`Not found: ${missing.join(", ")}`, 404);
+    return ids;
+  }
+
+  /** Apply `change` to the stored collections, pruned of deleted items, and write them back. */
+  private edit<T>(change: (all: Collection[], archived: Set<string>) => Promise<[Collection[], T]>): Promise<T> {
+    return this.enqueue(async () => {
+      const archived = new Set((await getArchive(this.store).list()).map((e) => e.id));
+      const all = (await this.read()).map((c) => ({ ...c, itemIds: c.itemIds.filter((i) => archived.has(i)) }));
+      const [next, result] = await change(all, archived);
+      const doc: CollectionsDocument = { version: 1, collections: next };
+      await writeJson(this.store, COLLECTIONS_PATH, doc);
+      return result;
+    });
+  }
+}
+
+const repositories = new WeakMap<StorageDriver, CollectionRepository>();
+
+/** The collections of the archive in `store`; see getArchive(). */
+export function getCollections(store: StorageDriver = getStorage()): CollectionRepository {
+  let repo = repositories.get(store);
+  if (!repo) repositories.set(store, (repo = new StorageCollectionRepository(store)));
+  return repo;
+}
+
+/** The collection's items that are still archived, in the order they were added. */
+export function members(collection: Collection, entries: ArchiveSummary[]): ArchiveSummary[] {
+  const byId = new Map(entries.map((e) => [e.id, e]));
+  return collection.itemIds.map((id) => byId.get(id)).filter((e): e is ArchiveSummary => !!e);
+}
+
+/**
+ * The archive index for a list query: every item, or only the members of
+ * `query.collection`. Throws ArchiveError 404 for an unknown collection.
+ */
+export async function archiveEntries(
+  query: Pick<ListQuery, "collection">,
+  store: StorageDriver = getStorage()
+): Promise<ArchiveSummary[]> {
+  const entries = await getArchive(store).list();
+  if (!query.collection) return entries;
+  const collection = await getCollections(store).get(query.collection);
+  if (!collection) throw new ArchiveError("Collection not found", 404);
+  return members(collection, entries);
+}
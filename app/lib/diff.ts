@@ -0,0 +1,79 @@
+// app/lib/diff.ts
+import type { ArchiveItem } from "./store";
+import { htmlText } from "./search";
+
+// Line diff between two versions of an archive item, for the version history
+// on /r/[id]. Items are compared as readable text (title, description, then
+// each recipe's ingredients and steps) rather than as raw HTML, so a typo fix
+// shows up as one changed line instead of a reflowed document.
+
+export type DiffLine = { op: "same" | "add" | "del"; text: string };
+
+/** Past this many lines per side the LCS table gets too big; show a full replace instead. */
+const MAX_LINES = 3000;
+
+export function versionText(item: ArchiveItem): string[] {
+  const out = [`# ${item.title}`];
+  if (item.description) out.push("", ...item.description.split("\n"));
+  if (item.tags?.length) out.push("", `Tags: ${item.tags.join(", ")}`);
+  const recipes = item.recipes ?? [];
+  if (!recipes.length) {
+    out.push("", ...htmlText(item.html).split("\n"));
+    return out;
+  }
+  for (const r of recipes) {
+    out.push("", `## ${r.title}`);
+    if (r.author) out.push(`By ${r.author}`);
+    if (r.description) out.push("", ...r.description.split(/\n+/));
+    if (r.ingredients?.length) out.push("", "Ingredients:", ...r.ingredients.map((i) => `- ${i}`));
+    if (r.steps?.length) out.push("", "Steps:", ...r.steps.map((s, i) => `${i + 1}. ${s}`));
+    if (r.imageUrl) out.push("", `Image: ${r.imageUrl}`);
+  }
+  return out;
+}
+
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Common head and tail first; edits are usually small and local.
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const x = a.slice(head, a.length - tail);
+  const y = b.slice(head, b.length - tail);
+  const middle: DiffLine[] = [];
+  if (x.length > MAX_LINES || y.length > MAX_LINES) {
+    middle.push(...x.map((text) => ({ op: "del" as const, text })), ...y.map((text) => ({ op: "add" as const, text })));
+  } else {
+    // lcs[i][j] = length of the LCS of x[i..] and y[j..]
+    const w = y.length + 1;
+    const lcs = new Uint32Array((x.length + 1) * w);
+    for (let i = x.length - 1; i >= 0; i--) {
+      for (let j = y.length - 1; j >= 0; j--) {
+        lcs[i * w + j] = x[i] === y[j] ? lcs[(i + 1) * w + j + 1] + 1 : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < x.length || j < y.length) {
+      if (i < x.length && j < y.length && x[i] === y[j]) {
+        middle.push({ op: "same", text: x[i] });
+        i++;
+        j++;
+      } else if (i < x.length && (j === y.length || lcs[(i + 1) * w + j] >= lcs[i * w + j + 1])) {
+        middle.push({ op: "del", text: x[i++] });
+      } else {
+        middle.push({ op: "add", text: y[j++] });
+      }
+    }
+  }
+  return [
+    ...a.slice(0, head).map((text) => ({ op: "same" as const, text })),
+    ...middle,
+    ...a.slice(a.length - tail).map((text) => ({ op: "same" as const, text })),
+  ];
+}
+
+export function diffVersions(from: ArchiveItem, to: ArchiveItem): DiffLine[] {
+  return diffLines(versionText(from), versionText(to));
+}
@@ -0,0 +1,27 @@
+// app/lib/generate-cache.test.ts
+import { describe, expect, it } from "vitest";
+import { beginGeneration, pendingGeneration } from "./generate-cache";
+import type { GenerateResult } from "./generate";
+
+const RESULT: GenerateResult = { html: "<p>x</p>", recipes: [], mode: "html", attempts: 1, provider: "mock", model: "mock" };
+
+describe("beginGeneration", () => {
+  it("says when another request is waiting on it", async () => {
+    const flight = beginGeneration("joined");
+    expect(flight.joined()).toBe(false);
+    const waiting = pendingGeneration("joined");
+    expect(flight.joined()).toBe(true);
+    await flight.finish(RESULT);
+    await expect(waiting).resolves.toEqual(RESULT);
+    expect(pendingGeneration("joined")).toBeUndefined();
+  });
+
+  it("can't be joined once it has failed", () => {
+    const flight = beginGeneration("failed");
+    flight.fail(new Error("The client disconnected"));
+    expect(pendingGeneration("failed")).toBeUndefined();
+    // The upstream call then ending in its own error changes nothing.
+    flight.fail(new Error("aborted"));
+    expect(flight.joined()).toBe(false);
+  });
+});
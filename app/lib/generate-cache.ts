@@ -0,0 +1,180 @@
+// app/lib/generate-cache.ts
+import { createHash } from "crypto";
+import { getStorage, readJson, writeJson } from "@/lib/storage";
+import { logError } from "@/lib/log";
+import { generate, systemPrompt, type GenerateMode, type GenerateResult } from "./generate";
+import type { LLMProvider } from "./llm";
+import { RECIPES_JSON_SCHEMA } from "./recipe-schema";
+
+// Generated documents, reused for the same request instead of paying for it
+// again. The key is a hash of the normalized query, provider, model, mode
+// and the system prompt (and schema) that mode runs with, so editing a
+// prompt starts afresh. Entries live in storage for GENERATE_CACHE_TTL_SECONDS
+// (default one day; 0 turns the cache off):
+// path: cache/generate/{sha256}.json
+// JSON: CacheEntry
+//
+// Identical requests that arrive while one is still running wait for it
+// rather than making their own upstream call, cache or no cache. `force`
+// skips both and replaces the entry.
+
+const PREFIX = "cache/generate/";
+// Bump to drop every entry when the result format changes.
+const FORMAT = 1;
+
+/**
+ * hit: from storage; shared: waited on an identical request in flight;
+ * miss: generated now; bypass: generated now because of `force`.
+ */
+export type CacheStatus = "hit" | "shared" | "miss" | "bypass";
+
+export type CacheEntry = { version: 1; key: string; createdAt: string; expiresAt: string; result: GenerateResult };
+
+export function cacheTtlSeconds(): number {
+  const v = Number(process.env.GENERATE_CACHE_TTL_SECONDS);
+  return process.env.GENERATE_CACHE_TTL_SECONDS?.trim() && Number.isFinite(v) && v >= 0 ? v : 24 * 60 * 60;
+}
+
+/** Case, spacing and trailing punctuation don't make a different request. */
+export function normalizeQuery(query: string): string {
+  return query.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim().replace(/[.!?]+$/, "").trim();
+}
+
+export function generationKey(provider: Pick<LLMProvider, "name" | "model">, query: string, mode: GenerateMode): string {
+  const prompt = createHash("sha256")
+    .update(systemPrompt(mode))
+    .update(mode === "json" ? JSON.stringify(RECIPES_JSON_SCHEMA) : "")
+    .digest("hex");
+  return createHash("sha256")
+    .update(JSON.stringify([FORMAT, provider.name, provider.model, mode, prompt, normalizeQuery(query)]))
+    .digest("hex");
+}
+
+function isCacheEntry(v: any): v is CacheEntry {
+  return !!v && typeof v === "object" && v.version === 1 && typeof v.expiresAt === "string" && !!v.result;
+}
+
+/** The stored result for `key`, unless it has expired. */
+export async function readCachedGeneration(key: string): Promise<GenerateResult | null> {
+  if (!cacheTtlSeconds()) return null;
+  const store = getStorage();
+  const entry = await readJson(store, `${PREFIX}${key}.json`);
+  if (!isCacheEntry(entry)) return null;
+  if (Date.parse(entry.expiresAt) <= Date.now()) {
+    await store.delete(`${PREFIX}${key}.json`).catch(() => undefined);
+    return null;
+  }
+  return entry.result;
+}
+
+async function writeEntry(key: string, result: GenerateResult): Promise<void> {
+  const ttl = cacheTtlSeconds();
+  if (!ttl) return;
+  const now = Date.now();
+  const entry: CacheEntry = {
+    version: 1,
+    key,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttl * 1000).toISOString(),
+    result,
+  };
+  try {
+    await writeJson(getStorage(), `${PREFIX}${key}.json`, entry);
+  } catch (e) {
+    logError("generate-cache", "write failed", e);
+  }
+}
+
+const inflight = new Map<string, { promise: Promise<GenerateResult>; joined: boolean }>();
+
+/**
+ * The identical request running now, if any, to wait on; it then counts as
+ * joined (see beginGeneration). Synchronous, so checking it and
+ * beginGeneration() can't interleave.
+ */
+export function pendingGeneration(key: string): Promise<GenerateResult> | undefined {
+  const flight = inflight.get(key);
+  if (flight) flight.joined = true;
+  return flight?.promise;
+}
+
+/** A cached or in-flight result for `key`, if there is one; doesn't start anything. */
+export async function lookupGeneration(key: string): Promise<{ result: GenerateResult; cache: CacheStatus } | null> {
+  const pending = pendingGeneration(key);
+  if (pending) return { result: await pending, cache: "shared" };
+  const stored = await readCachedGeneration(key).catch(() => null);
+  if (stored) return { result: stored, cache: "hit" };
+  // One may have started while storage was read.
+  const started = pendingGeneration(key);
+  return started ? { result: await started, cache: "shared" } : null;
+}
+
+/**
+ * Register the upstream call for `key` so identical requests can wait on it.
+ * Call finish() with its result (which is also cached) or fail() with its
+ * error; only the first call counts. joined() says whether another request
+ * is waiting: if so, the call should run to the end even when the client
+ * that started it has gone.
+ */
+export function beginGeneration(key: string): {
+  finish(result: GenerateResult): Promise<void>;
+  fail(err: unknown): void;
+  joined(): boolean;
+} {
+  let resolve!: (r: GenerateResult) => void;
+  let reject!: (e: unknown) => void;
+  const promise = new Promise<GenerateResult>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Nobody may be waiting; a failure is the caller's to report, not an unhandled rejection.
+  promise.catch(() => undefined);
+  const flight = { promise, joined: false };
+  inflight.set(key, flight);
+  const done = () => {
+    if (inflight.get(key) === flight) inflight.delete(key);
+  };
+  return {
+    async finish(result) {
+      await writeEntry(key, result);
+      done();
+      resolve(result);
+    },
+    fail(err) {
+      done();
+      reject(err);
+    },
+    joined: () => flight.joined,
+  };
+}
+
+/**
+ * generate(), through the cache. `beforeUpstream` (quota checks) runs when
+ * neither the cache nor a running request has the answer; its errors
+ * propagate. A request that started meanwhile is still joined after it.
+ */
+export async function cachedGenerate(
+  provider: LLMProvider,
+  query: string,
+  mode: GenerateMode,
+  opts: { force?: boolean; beforeUpstream?: () => Promise<void> } = {}
+): Promise<{ result: GenerateResult; cache: CacheStatus }> {
+  const key = generationKey(provider, query, mode);
+  if (!opts.force) {
+    const found = await lookupGeneration(key);
+    if (found) return found;
+  }
+  await opts.beforeUpstream?.();
+  // An identical request may have started while the cache was read.
+  const pending = !opts.force && pendingGeneration(key);
+  if (pending) return { result: await pending, cache: "shared" };
+  const flight = beginGeneration(key);
+  try {
+    const result = await generate(provider, query, mode);
+    await flight.finish(result);
+    return { result, cache: opts.force ? "bypass" : "miss" };
+  } catch (err) {
+    flight.fail(err);
+    throw err;
+  }
+}
@@ -0,0 +1,176 @@
+// app/lib/generate.ts
+import FILE_SYSTEM_PROMPT from "../prompt/system-prompt.txt";
+import JSON_SYSTEM_PROMPT from "../prompt/system-prompt-json.txt";
+import { normalizeBlocks } from "./html-tools";
+import type { ChatMessage, LLMProvider, StreamChunk } from "./llm";
+import { parseRecipesFromHtml } from "./recipe-parse";
+import { recipeSections, renderRecipesDocument } from "./recipe-render";
+import { RECIPES_JSON_SCHEMA, validateRecipes } from "./recipe-schema";
+import type { Recipe } from "./types";
+
+// Two ways to get recipes out of the model:
+//   json — strict JSON schema, validated and rendered by our own template;
+//   html — the original "write the whole document" prompt, kept as a fallback.
+
+export type GenerateMode = "json" | "html";
+
+export type GenerateResult = {
+  html: string;
+  recipes: Recipe[];
+  mode: GenerateMode;
+  attempts: number;
+  provider: string;
+  model: string;
+  /** Set when json mode gave up and the html prompt produced the result */
+  fallbackReason?: string;
+};
+
+// Choose file prompt by default; allow hot override via env
+export const SYSTEM_PROMPT = (process.env.SYSTEM_PROMPT && process.env.SYSTEM_PROMPT.trim().length
+  ? process.env.SYSTEM_PROMPT
+  : FILE_SYSTEM_PROMPT
+).trim();
+
+export const DEFAULT_MODE: GenerateMode = process.env.GENERATE_MODE?.trim() === "html" ? "html" : "json";
+
+const JSON_ATTEMPTS = Math.max(1, Number(process.env.GENERATE_JSON_ATTEMPTS) || 3);
+
+/** The system prompt a mode runs with. */
+export function systemPrompt(mode: GenerateMode): string {
+  return mode === "html" ? SYSTEM_PROMPT : JSON_SYSTEM_PROMPT.trim();
+}
+
+export class GenerateError extends Error {
+  constructor(message: string, public preview?: string) {
+    super(message);
+  }
+}
+
+export function htmlUserMessage(query: string): string {
+  return (
+    `Input directives:\n` +
+    query +
+    `\n\nReturn ONLY the final complete HTML document as instructed in the system prompt.`
+  );
+}
+
+/**
+ * Pull the HTML document out of a reply that may be wrapped in fences or
+ * prose. Returns null when there is no <html> at all.
+ */
+export function extractHtmlDocument(raw: string): string | null {
+  const s = normalizeBlocks(raw);
+  const start = s.search(/<!DOCTYPE html|<html[\s>]/i);
+  if (start < 0) return null;
+  const end = s.toLowerCase().lastIndexOf("</html>");
+  return end > start ? s.slice(start, end + "</html>".length) : s.slice(start);
+}
+
+export function documentTitle(recipes: Recipe[]): string {
+  return recipes.length === 1 ? recipes[0].title : "Fresh Recipes";
+}
+
+function htmlMessages(query: string): ChatMessage[] {
+  return [
+    { role: "system", content: systemPrompt("html") },
+    { role: "user", content: htmlUserMessage(query) },
+  ];
+}
+
+/**
+ * Stream the html-mode completion token by token. Aborting `signal` cancels
+ * the upstream request as well.
+ */
+export function streamHtml(provider: LLMProvider, query: string, signal?: AbortSignal): AsyncIterable<StreamChunk> {
+  return provider.stream({ messages: htmlMessages(query), temperature: 0.3, signal });
+}
+
+async function generateHtml(provider: LLMProvider, query: string): Promise<Omit<GenerateResult, "fallbackReason">> {
+  const completion = await provider.complete({ messages: htmlMessages(query), temperature: 0.3 });
+  const raw = completion.text;
+  const html = extractHtmlDocument(raw);
+  if (!html) {
+    throw new GenerateError(
+      "Model did not return a complete HTML document. Check the SYSTEM_PROMPT and input.",
+      raw.slice(0, 5000)
+    );
+  }
+  return {
+    html,
+    recipes: parseRecipesFromHtml(html),
+    mode: "html",
+    attempts: 1,
+    provider: provider.name,
+    model: completion.model,
+  };
+}
+
+/**
+ * Ask for schema-conforming JSON; on a parse or validation failure, feed the
+ * errors back and ask again, up to GENERATE_JSON_ATTEMPTS times.
+ */
+async function generateJson(
+  provider: LLMProvider,
+  query: string
+): Promise<
+  { ok: true; recipes: Recipe[]; attempts: number; model: string } | { ok: false; errors: string[]; attempts: number }
+> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompt("json") },
+    { role: "user", content: `Input directives:\n${query}` },
+  ];
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= JSON_ATTEMPTS; attempt++) {
+    const completion = await provider.complete({
+      messages,
+      temperature: 0.3,
+      jsonSchema: RECIPES_JSON_SCHEMA,
+    });
+    const raw = completion.text;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(normalizeBlocks(raw));
+    } catch {
+      errors = ["Reply was not valid JSON"];
+    }
+    if (parsed !== undefined) {
+      const result = validateRecipes(parsed);
+      if (result.ok) return { ok: true, recipes: result.recipes, attempts: attempt, model: completion.model };
+      errors = result.errors;
+    }
+
+    messages.push(
+      { role: "assistant", content: raw },
+      {
+        role: "user",
+        content: `That reply did not match the schema:\n- ${errors.join("\n- ")}\nReturn the corrected JSON object only.`,
+      }
+    );
+  }
+  return { ok: false, errors, attempts: JSON_ATTEMPTS };
+}
+
+export async function generate(provider: LLMProvider, query: string, mode: GenerateMode): Promise<GenerateResult> {
+  if (mode === "html") return generateHtml(provider, query);
+
+  const json = await generateJson(provider, query);
+  if (json.ok) {
+    const recipes = json.recipes.map((r) => ({ ...r, sections: recipeSections(r) }));
+    return {
+      html: renderRecipesDocument(recipes, documentTitle(recipes)),
+      recipes,
+      mode: "json",
+      attempts: json.attempts,
+      provider: provider.name,
+      model: json.model,
+    };
+  }
+
+  const html = await generateHtml(provider, query);
+  return {
+    ...html,
+    attempts: json.attempts + html.attempts,
+    fallbackReason: json.errors.join("; "),
+  };
+}
@@ -0,0 +1,108 @@
+// app/lib/image-proxy.test.ts
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { getStorage, readJson, writeJson } from "@/lib/storage";
+import type { SafeFetchError } from "@/lib/safe-fetch";
+import { cacheKey, etagMatches, proxyImage, type CacheMeta } from "./image-proxy";
+
+// The proxy against a local stand-in for the image host (see lib/safe-fetch.test.ts).
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(24)]);
+const UPSTREAM_ETAG = `"v1"`;
+const fetchOptions = { allowPrivate: ["127.0.0.1"] };
+
+let server: http.Server;
+let base: string;
+let hits: Record<string, number> = {};
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const path = req.url ?? "/";
+    hits[path] = (hits[path] ?? 0) + 1;
+    if (path === "/photo.png") {
+      if (req.headers["if-none-match"] === UPSTREAM_ETAG) return res.writeHead(304).end();
+      return res.writeHead(200, { "content-type": "image/png", etag: UPSTREAM_ETAG }).end(PNG);
+    }
+    if (path === "/sniffed") return res.writeHead(200, { "content-type": "application/octet-stream" }).end(PNG);
+    if (path === "/page.html") return res.writeHead(200, { "content-type": "text/html" }).end("<html></html>");
+    if (path === "/huge.png") return res.writeHead(200, { "content-type": "image/png" }).end(Buffer.alloc(4096));
+    if (path === "/redirect") return res.writeHead(302, { location: "http://10.0.0.1/photo.png" }).end();
+    res.writeHead(404).end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  hits = {};
+});
+
+async function status(p: Promise<unknown>): Promise<number> {
+  return p.then(
+    () => 0,
+    (e: SafeFetchError) => e.status
+  );
+}
+
+describe("proxyImage", () => {
+  it("serves from the cache and answers 304 to a matching ETag", async () => {
+    const url = `${base}/photo.png`;
+    const first = await proxyImage(url, { fetchOptions });
+    expect(first).toMatchObject({ status: 200, cache: "miss", meta: { contentType: "image/png", upstreamEtag: UPSTREAM_ETAG } });
+    expect(first.status === 200 && first.body.equals(PNG)).toBe(true);
+
+    const again = await proxyImage(url, { fetchOptions });
+    expect(again).toMatchObject({ status: 200, cache: "hit" });
+    const conditional = await proxyImage(url, { fetchOptions, ifNoneMatch: `W/${first.meta.etag}` });
+    expect(conditional).toMatchObject({ status: 304, cache: "hit" });
+    expect(hits["/photo.png"]).toBe(1);
+  });
+
+  it("revalidates a stale entry with the origin's ETag", async () => {
+    const url = `${base}/photo.png`;
+    const store = getStorage();
+    const key = cacheKey(url);
+    await proxyImage(url, { fetchOptions });
+    const meta = (await readJson<CacheMeta>(store, `${key}.json`))!;
+    await writeJson(store, `${key}.json`, { ...meta, fetchedAt: new Date(0).toISOString() });
+
+    const res = await proxyImage(url, { fetchOptions, ifNoneMatch: meta.etag });
+    expect(res).toMatchObject({ status: 304, cache: "revalidated" });
+    expect(Date.parse((await readJson<CacheMeta>(store, `${key}.json`))!.fetchedAt)).toBeGreaterThan(0);
+  });
+
+  it("sniffs images sent as octet-stream", async () => {
+    const res = await proxyImage(`${base}/sniffed`, { fetchOptions });
+    expect(res.meta.contentType).toBe("image/png");
+  });
+
+  it("rejects what isn't an image", async () => {
+    expect(await status(proxyImage(`${base}/page.html`, { fetchOptions }))).toBe(415);
+    expect(await getStorage().head(cacheKey(`${base}/page.html`))).toBeNull();
+  });
+
+  it("rejects images over the size cap", async () => {
+    expect(await status(proxyImage(`${base}/huge.png`, { fetchOptions: { ...fetchOptions, maxBytes: 1024 } }))).toBe(413);
+  });
+
+  it("refuses private addresses, directly and through redirects", async () => {
+    expect(await status(proxyImage(`${base}/photo.png?direct`))).toBe(403);
+    expect(await status(proxyImage(`${base}/redirect`, { fetchOptions }))).toBe(403);
+  });
+
+  it("answers upstream errors with 502", async () => {
+    expect(await status(proxyImage(`${base}/missing.png`, { fetchOptions }))).toBe(502);
+  });
+});
+
+describe("etagMatches", () => {
+  it("accepts weak, listed and wildcard tags", () => {
+    expect(etagMatches(`W/"a"`, `"a"`)).toBe(true);
+    expect(etagMatches(`"b", "a"`, `"a"`)).toBe(true);
+    expect(etagMatches("*", `"a"`)).toBe(true);
+    expect(etagMatches(`"b"`, `"a"`)).toBe(false);
+    expect(etagMatches(null, `"a"`)).toBe(false);
+  });
+});
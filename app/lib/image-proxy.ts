@@ -0,0 +1,143 @@
+// app/lib/image-proxy.ts
+import { createHash } from "crypto";
+import { getStorage, readJson, writeJson, type StorageDriver } from "@/lib/storage";
+import { safeFetch, SafeFetchError, type SafeFetchOptions } from "@/lib/safe-fetch";
+
+// The one image proxy (/api/img). Remote images are fetched through
+// lib/safe-fetch.ts and kept in storage under cache/img/{sha256(url)}:
+//   cache/img/{hash}       the image bytes
+//   cache/img/{hash}.json  CacheMeta
+// Fresh entries are served without touching the origin; stale ones are
+// revalidated with the origin's ETag/Last-Modified. Clients get our own
+// ETag (a hash of the bytes) and a 304 when they already have them.
+
+export type CacheMeta = {
+  url: string;
+  contentType: string;
+  size: number;
+  /** Our ETag, quoted */
+  etag: string;
+  fetchedAt: string;
+  upstreamEtag?: string;
+  upstreamLastModified?: string;
+};
+
+export type ProxyResult =
+  | { status: 304; meta: CacheMeta; cache: CacheState }
+  | { status: 200; meta: CacheMeta; body: Buffer; cache: CacheState };
+
+export type CacheState = "hit" | "miss" | "revalidated";
+
+export const MAX_IMAGE_BYTES = Number(process.env.IMG_PROXY_MAX_BYTES) || 8 * 1024 * 1024;
+const TTL_MS = (Number(process.env.IMG_CACHE_TTL_SECONDS) || 7 * 24 * 3600) * 1000;
+const PREFIX = "cache/img/";
+
+/** Magic numbers, for origins that send images as octet-stream. */
+const SIGNATURES: [string, (b: Buffer) => boolean][] = [
+  ["image/png", (b) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))],
+  ["image/jpeg", (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff],
+  ["image/gif", (b) => /^GIF8[79]a/.test(b.subarray(0, 6).toString("latin1"))],
+  ["image/webp", (b) => b.subarray(0, 4).toString("latin1") === "RIFF" && b.subarray(8, 12).toString("latin1") === "WEBP"],
+  ["image/avif", (b) => b.subarray(4, 12).toString("latin1") === "ftypavif"],
+];
+
+export function sniffImageType(body: Buffer): string | null {
+  return SIGNATURES.find(([, test]) => test(body))?.[0] ?? null;
+}
+
+export function imageType(header: string | undefined, body: Buffer): string | null {
+  const declared = (header || "").split(";")[0].trim().toLowerCase();
+  if (/^image\/[a-z0-9.+-]+$/.test(declared)) return declared;
+  return sniffImageType(body);
+}
+
+export function cacheKey(url: string): string {
+  return `${PREFIX}${createHash("sha256").update(url).digest("hex")}`;
+}
+
+/** Does an If-None-Match header list this ETag (or *)? */
+export function etagMatches(ifNoneMatch: string | null | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(",").some((t) => {
+    const tag = t.trim().replace(/^W\//, "");
+    return tag === "*" || tag === etag;
+  });
+}
+
+async function readCache(store: StorageDriver, key: string) {
+  try {
+    return await readJson<CacheMeta>(store, `${key}.json`);
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(store: StorageDriver, key: string, meta: CacheMeta, body?: Buffer) {
+  // A cache that can't be written is a slower proxy, not a broken one.
+  try {
+    if (body) await store.put(key, body, meta.contentType);
+    await writeJson(store, `${key}.json`, meta);
+  } catch {}
+}
+
+function respond(meta: CacheMeta, body: Buffer, cache: CacheState, ifNoneMatch?: string | null): ProxyResult {
+  return etagMatches(ifNoneMatch, meta.etag) ? { status: 304, meta, cache } : { status: 200, meta, body, cache };
+}
+
+/**
+ * Fetch (or serve from cache) an image. Throws SafeFetchError carrying the
+ * status to answer with: 400 bad URL, 403 private address, 413 too large,
+ * 415 not an image, 502/504 upstream trouble.
+ */
+export async function proxyImage(
+  url: string,
+  opts: { ifNoneMatch?: string | null; fetchOptions?: SafeFetchOptions } = {}
+): Promise<ProxyResult> {
+  const store = getStorage();
+  const key = cacheKey(url);
+  const meta = await readCache(store, key);
+  const fresh = meta && Date.now() - Date.parse(meta.fetchedAt) < TTL_MS;
+
+  if (meta && fresh) {
+    if (etagMatches(opts.ifNoneMatch, meta.etag)) return { status: 304, meta, cache: "hit" };
+    const body = await store.get(key).catch(() => null);
+    if (body) return { status: 200, meta, body, cache: "hit" };
+  }
+
+  const conditional: Record<string, string> = {};
+  if (meta?.upstreamEtag) conditional["if-none-match"] = meta.upstreamEtag;
+  if (meta?.upstreamLastModified) conditional["if-modified-since"] = meta.upstreamLastModified;
+  const res = await safeFetch(url, {
+    maxBytes: MAX_IMAGE_BYTES,
+    ...opts.fetchOptions,
+    headers: { accept: "image/avif,image/webp,image/*;q=0.9", ...conditional, ...opts.fetchOptions?.headers },
+  });
+
+  if (res.status === 304 && meta) {
+    const body = await store.get(key).catch(() => null);
+    if (body) {
+      const next = { ...meta, fetchedAt: new Date().toISOString() };
+      await writeCache(store, key, next);
+      return respond(next, body, "revalidated", opts.ifNoneMatch);
+    }
+    // Cached bytes vanished: forget the entry so the retry fetches unconditionally.
+    await store.delete(`${key}.json`).catch(() => undefined);
+    return proxyImage(url, opts);
+  }
+  if (res.status !== 200) throw new SafeFetchError(`Upstream ${res.status}`, 502);
+
+  const contentType = imageType(res.headers["content-type"], res.body);
+  if (!contentType) throw new SafeFetchError("Not an image", 415);
+
+  const next: CacheMeta = {
+    url,
+    contentType,
+    size: res.body.byteLength,
+    etag: `"${createHash("sha256").update(res.body).digest("base64url").slice(0, 27)}"`,
+    fetchedAt: new Date().toISOString(),
+    upstreamEtag: typeof res.headers.etag === "string" ? res.headers.etag : undefined,
+    upstreamLastModified: typeof res.headers["last-modified"] === "string" ? res.headers["last-modified"] : undefined,
+  };
+  await writeCache(store, key, next, res.body);
+  return respond(next, res.body, meta ? "revalidated" : "miss", opts.ifNoneMatch);
+}
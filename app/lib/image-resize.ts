@@ -0,0 +1,98 @@
+// app/lib/image-resize.ts
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { getStorage } from "@/lib/storage";
+import { SafeFetchError } from "@/lib/safe-fetch";
+import { cacheKey, etagMatches, proxyImage, sniffImageType } from "./image-proxy";
+import { IMAGE_WIDTHS } from "./img-cdn";
+
+// The resizer behind /api/img/resize, img-cdn.ts's "local" adapter. Sources
+// are remote URLs, fetched through proxyImage (SSRF checks, its cache), or
+// images we stored ourselves (/api/files/[users/{uid}/]images/…, read from storage).
+// Variants are WebP when the browser takes it, otherwise JPEG, or PNG for
+// images with transparency; never wider than the original. They are cached
+// under cache/img/{hash}-w{width}.{webp|std}, keyed by the source's ETag so a
+// changed original gets new variants.
+
+export type ResizeResult =
+  | { status: 304; etag: string; cache: "hit" | "miss" }
+  | { status: 200; etag: string; cache: "hit" | "miss"; contentType: string; body: Buffer };
+
+// Animated GIFs would lose their frames, SVGs their point.
+const PASSTHROUGH = new Set(["image/gif", "image/svg+xml"]);
+
+const STORED = /^\/api\/files\/((?:users\/[^/]+\/)?images\/[0-9a-f]{64}\.(?:jpg|png|gif|webp|avif))$/;
+
+/** The smallest offered width at least `w` wide, or the largest. */
+export function snapWidth(w: number): number {
+  return IMAGE_WIDTHS.find((x) => x >= w) ?? IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+}
+
+function etagOf(body: Buffer) {
+  return `"${createHash("sha256").update(body).digest("base64url").slice(0, 27)}"`;
+}
+
+async function source(src: string): Promise<{ body: Buffer; contentType: string; version: string }> {
+  const stored = STORED.exec(src);
+  if (stored) {
+    const body = await getStorage().get(stored[1]);
+    if (!body) throw new SafeFetchError("Not found", 404);
+    // Stored images are named by their content hash; the name is the version.
+    return { body, contentType: sniffImageType(body) ?? "application/octet-stream", version: stored[1] };
+  }
+  if (src.startsWith("/")) throw new SafeFetchError("Bad URL", 400);
+  const r = await proxyImage(src);
+  if (r.status !== 200) throw new SafeFetchError("Upstream error", 502);
+  return { body: r.body, contentType: r.meta.contentType, version: r.meta.etag };
+}
+
+/**
+ * A `width`-wide variant of `src`. Throws SafeFetchError with the status to
+ * answer with, like proxyImage, plus 415 for bytes sharp can't decode.
+ */
+export async function resizeImage(
+  src: string,
+  width: number,
+  opts: { accept?: string | null; ifNoneMatch?: string | null } = {}
+): Promise<ResizeResult> {
+  const w = snapWidth(width);
+  const webp = /image\/webp/i.test(opts.accept || "");
+  const original = await source(src);
+  if (PASSTHROUGH.has(original.contentType)) {
+    const etag = etagOf(original.body);
+    if (etagMatches(opts.ifNoneMatch, etag)) return { status: 304, etag, cache: "hit" };
+    return { status: 200, etag, cache: "hit", contentType: original.contentType, body: original.body };
+  }
+
+  const store = getStorage();
+  const key = `${cacheKey(original.version)}-w${w}.${webp ? "webp" : "std"}`;
+  const cached = await store.get(key).catch(() => null);
+  if (cached) {
+    const etag = etagOf(cached);
+    if (etagMatches(opts.ifNoneMatch, etag)) return { status: 304, etag, cache: "hit" };
+    return { status: 200, etag, cache: "hit", contentType: sniffImageType(cached) ?? "image/jpeg", body: cached };
+  }
+
+  let body: Buffer;
+  let contentType: string;
+  try {
+    const img = sharp(original.body).rotate().resize({ width: w, withoutEnlargement: true });
+    if (webp) {
+      body = await img.webp({ quality: 80 }).toBuffer();
+      contentType = "image/webp";
+    } else if ((await sharp(original.body).metadata()).hasAlpha) {
+      body = await img.png().toBuffer();
+      contentType = "image/png";
+    } else {
+      body = await img.jpeg({ quality: 80, progressive: true }).toBuffer();
+      contentType = "image/jpeg";
+    }
+  } catch {
+    throw new SafeFetchError("Unsupported image", 415);
+  }
+  // A cache that can't be written only costs another resize.
+  await store.put(key, body, contentType).catch(() => undefined);
+  const etag = etagOf(body);
+  if (etagMatches(opts.ifNoneMatch, etag)) return { status: 304, etag, cache: "miss" };
+  return { status: 200, etag, cache: "miss", contentType, body };
+}
@@ -0,0 +1,180 @@
+// app/lib/image-store.ts
+import { createHash } from "crypto";
+import { parseDocument, DomUtils } from "htmlparser2";
+import { isTag, type AnyNode } from "domhandler";
+import { listAll, readJson, writeJson, type StorageDriver } from "@/lib/storage";
+import { safeFetch } from "@/lib/safe-fetch";
+import { MAX_IMAGE_BYTES, imageType } from "./image-proxy";
+import type { Recipe } from "./types";
+
+// Saved items keep their own copies of their images, since third-party URLs
+// rot or start refusing hotlinks. On save every remote image is downloaded
+// (through lib/safe-fetch.ts) and stored by content hash, so a photo used by
+// ten recipes is stored once:
+//   images/{sha256}.{ext}  the bytes (public, via /api/files)
+//   refs/images.json       ImageRefs: which items reference each image
+// References are per item id across all of its versions, so history and
+// restore keep working; an image is deleted when its last item is.
+//
+// Images that can't be fetched keep their original URL. SVG is never stored:
+// served from our origin it could run script.
+
+export const IMAGE_PREFIX = "images/";
+/** Stored image keys, in the shared archive or a user's: the only objects anyone may fetch without an account. */
+export const IMAGE_KEY = /^(?:users\/[0-9a-f]+\/)?images\//;
+export const REFS_PATH = "refs/images.json";
+
+export type ImageRefs = {
+  version: 1;
+  /** Image key → ids of the items that reference it */
+  refs: Record<string, string[]>;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+};
+
+// Matches /api/files/images/…, and the blob URLs stored before those.
+const STORED_IMAGE = /images\/[0-9a-f]{64}\.(?:jpg|png|gif|webp|avif)\b/g;
+
+/** The stored image keys an item's html and recipes point at. */
+export function imageKeys(item: { html: string; recipes?: Recipe[] }): string[] {
+  const text = [item.html, ...(item.recipes ?? []).map((r) => r.imageUrl ?? "")].join("\n");
+  return Array.from(new Set(text.match(STORED_IMAGE) ?? []));
+}
+
+function isStored(url: string) {
+  STORED_IMAGE.lastIndex = 0;
+  return STORED_IMAGE.test(url);
+}
+
+/** Download one image into storage; the stored copy's URL, or null to keep the original. */
+async function storeImage(store: StorageDriver, url: string): Promise<string | null> {
+  try {
+    const res = await safeFetch(url, {
+      maxBytes: MAX_IMAGE_BYTES,
+      headers: { accept: "image/avif,image/webp,image/*;q=0.9" },
+    });
+    if (res.status !== 200) return null;
+    const type = imageType(res.headers["content-type"], res.body);
+    const ext = type ? EXTENSIONS[type] : undefined;
+    if (!type || !ext) return null;
+    const key = `${IMAGE_PREFIX}${createHash("sha256").update(res.body).digest("hex")}.${ext}`;
+    const existing = await store.head(key);
+    if (existing) return existing.url;
+    return (await store.put(key, res.body, type)).url;
+  } catch {
+    return null;
+  }
+}
+
+function rewrite(html: string, stored: Map<string, string>): string {
+  const nodes: AnyNode[] = parseDocument(html).children;
+  const imgs = DomUtils.findAll((el) => el.name === "img" && stored.has((el.attribs.src || "").trim()), nodes);
+  if (!imgs.length) return html;
+  for (const img of imgs) {
+    img.attribs.src = stored.get(img.attribs.src.trim())!;
+    // The other candidates are still remote; one stored copy beats a mix.
+    delete img.attribs.srcset;
+    delete img.attribs.sizes;
+    const picture = img.parent && isTag(img.parent) && img.parent.name === "picture" ? img.parent : null;
+    if (picture) DomUtils.findAll((el) => el.name === "source", picture.children).forEach((el) => DomUtils.removeElement(el));
+  }
+  return DomUtils.getOuterHTML(nodes, { decodeEntities: true, encodeEntities: "utf8" });
+}
+
+/**
+ * Copy every remote image in `html` and `recipes` into storage and point
+ * them at the copies.
+ */
+export async function persistImages(
+  store: StorageDriver,
+  html: string,
+  recipes: Recipe[]
+): Promise<{ html: string; recipes: Recipe[] }> {
+  const srcs = [html, ...recipes.flatMap((r) => r.sections.map((s) => s.html))].flatMap((h) =>
+    DomUtils.findAll((el) => el.name === "img", parseDocument(h).children).map((i) => (i.attribs.src || "").trim())
+  );
+  srcs.push(...recipes.map((r) => r.imageUrl ?? ""));
+  const remote = Array.from(new Set(srcs.filter((s) => /^https?:\/\//i.test(s) && !isStored(s))));
+  if (!remote.length) return { html, recipes };
+
+  const stored = new Map<string, string>();
+  await Promise.all(
+    remote.map(async (url) => {
+      const to = await storeImage(store, url);
+      if (to) stored.set(url, to);
+    })
+  );
+  if (!stored.size) return { html, recipes };
+
+  return {
+    html: rewrite(html, stored),
+    recipes: recipes.map((r) => ({
+      ...r,
+      imageUrl: (r.imageUrl && stored.get(r.imageUrl)) ?? r.imageUrl,
+      sections: r.sections.map((s) => ({ ...s, html: rewrite(s.html, stored) })),
+    })),
+  };
+}
+
+function isImageRefs(v: any): v is ImageRefs {
+  return !!v && typeof v === "object" && v.version === 1 && !!v.refs && typeof v.refs === "object";
+}
+
+export async function readImageRefs(store: StorageDriver): Promise<ImageRefs | null> {
+  const j = await readJson(store, REFS_PATH);
+  return isImageRefs(j) ? j : null;
+}
+
+/** Build refs from scratch; `items` is every stored item and version. */
+export function buildImageRefs(items: { id: string; html: string; recipes?: Recipe[] }[]): ImageRefs {
+  const refs: Record<string, string[]> = {};
+  for (const item of items) {
+    for (const key of imageKeys(item)) {
+      if (!(refs[key] ??= []).includes(item.id)) refs[key].push(item.id);
+    }
+  }
+  return { version: 1, refs };
+}
+
+export async function writeImageRefs(store: StorageDriver, refs: ImageRefs) {
+  await writeJson(store, REFS_PATH, refs);
+}
+
+/** Record that item `id` references `keys`. Callers serialize refs updates. */
+export async function addImageRefs(store: StorageDriver, refs: ImageRefs, id: string, keys: string[]) {
+  const missing = keys.filter((k) => !refs.refs[k]?.includes(id));
+  if (!missing.length) return;
+  for (const k of missing) (refs.refs[k] ??= []).push(id);
+  await writeJson(store, REFS_PATH, refs);
+}
+
+/**
+ * Drop item `id` from `refs` and delete the images nothing references any
+ * more. With `sweep`, stored images missing from `refs` altogether (left by a
+ * failed write, or saved before refs existed) go as well.
+ */
+export async function releaseImages(store: StorageDriver, refs: ImageRefs, id: string, opts: { sweep?: boolean } = {}) {
+  const orphans: string[] = [];
+  for (const [key, ids] of Object.entries(refs.refs)) {
+    const rest = ids.filter((x) => x !== id);
+    if (rest.length) refs.refs[key] = rest;
+    else {
+      delete refs.refs[key];
+      orphans.push(key);
+    }
+  }
+  if (opts.sweep) {
+    const objects = await listAll(store, IMAGE_PREFIX);
+    orphans.push(...objects.map((o) => o.key).filter((k) => !refs.refs[k] && !orphans.includes(k)));
+  }
+  // Refs first: a failed delete leaves a stray file, never a dangling reference.
+  await writeJson(store, REFS_PATH, refs);
+  if (orphans.length) await store.delete(orphans);
+  return orphans;
+}
@@ -0,0 +1,197 @@
+// app/lib/image-verify.ts
+import { parseDocument, DomUtils } from "htmlparser2";
+import { isTag, type AnyNode, type Element } from "domhandler";
+import { fetchRealImagesFromSource, headIsImage, serpImageFallback } from "@/lib/images";
+import type { Recipe } from "./types";
+
+// Post-processing for generated documents: models invent or misremember
+// image URLs, so every <img> is checked (lib/images.ts headIsImage) and a
+// dead one is either swapped for an image scraped from the recipe's source
+// page (schema.org Recipe image, og:image, …), or from a SerpAPI search when
+// SERPAPI_KEY is set, or removed along with the figure/section that only
+// existed to hold it.
+
+export type ImageReport = {
+  checked: number;
+  swapped: { from: string; to: string; recipe?: string }[];
+  dropped: { src: string; recipe?: string }[];
+  /** Still unchecked when the time budget ran out; left as they were */
+  skipped: string[];
+};
+
+/** Whether /api/generate verifies images when the request doesn't say. */
+export const VERIFY_IMAGES_DEFAULT = process.env.VERIFY_IMAGES?.trim() !== "0";
+
+const BUDGET_MS = Number(process.env.VERIFY_IMAGES_BUDGET_MS) || 15_000;
+const CONCURRENCY = 4;
+
+/** Wrappers that only exist to hold an image; emptied ones go too. */
+const HOLDERS = new Set(["figure", "picture", "a", "p", "div", "span"]);
+const IMAGE_HEADING = /^(?:image|photo|picture|photograph)s?\b/i;
+
+function headingLevel(el: Element): number {
+  const m = /^h([1-6])$/.exec(el.name);
+  return m ? Number(m[1]) : 0;
+}
+
+/** Run `fn` over `items` with at most `limit` in flight. */
+async function pool<T>(items: T[], limit: number, fn: (item: T) => Promise<void>) {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) await fn(items[next++]);
+  });
+  await Promise.all(workers);
+}
+
+function isEmptyHolder(el: Element): boolean {
+  return (
+    !DomUtils.textContent(el).trim() &&
+    !DomUtils.existsOne((x) => ["img", "iframe", "video", "table"].includes(x.name), el.children)
+  );
+}
+
+/** Remove an <img> and any wrappers and "Image" heading it leaves empty. */
+function dropImage(img: Element) {
+  let node: Element = img;
+  let parent = node.parent;
+  DomUtils.removeElement(node);
+  while (parent && isTag(parent) && HOLDERS.has(parent.name) && isEmptyHolder(parent)) {
+    node = parent;
+    parent = node.parent;
+    DomUtils.removeElement(node);
+  }
+  if (!parent) return;
+  // An "Image" heading whose section is now empty goes as well.
+  for (const h of DomUtils.findAll((el) => headingLevel(el) > 0 && IMAGE_HEADING.test(DomUtils.textContent(el).trim()), [parent as AnyNode])) {
+    let sib = h.next;
+    let empty = true;
+    while (sib) {
+      if (isTag(sib) && headingLevel(sib) > 0) break;
+      if (isTag(sib) ? !isEmptyHolder(sib) || sib.name === "img" : !!DomUtils.textContent(sib).trim()) {
+        empty = false;
+        break;
+      }
+      sib = sib.next;
+    }
+    if (empty) DomUtils.removeElement(h);
+  }
+}
+
+/** The recipe an image belongs to: the one whose imageUrl it is, or whose title precedes it. */
+function recipeFor(img: Element, src: string, recipes: Recipe[], doc: AnyNode[]): Recipe | undefined {
+  const byUrl = recipes.find((r) => r.imageUrl === src);
+  if (byUrl) return byUrl;
+  const headings = DomUtils.findAll((el) => headingLevel(el) > 0, doc);
+  const all = DomUtils.findAll(() => true, doc);
+  const at = all.indexOf(img);
+  let found: Recipe | undefined;
+  for (const h of headings) {
+    if (all.indexOf(h) > at) break;
+    const t = DomUtils.textContent(h).trim().toLowerCase();
+    found = recipes.find((r) => r.title.toLowerCase() === t) ?? found;
+  }
+  return found;
+}
+
+/** A link to the recipe's source in its own sections, for HTML-mode output without sourceUrl. */
+function sourceLink(recipe: Recipe): string | undefined {
+  if (recipe.sourceUrl) return recipe.sourceUrl;
+  for (const s of recipe.sections) {
+    const a = DomUtils.findOne(
+      (el) => el.name === "a" && /^https?:\/\//i.test(el.attribs.href || "") && /source|original|recipe|read more/i.test(DomUtils.textContent(el) + " " + s.heading),
+      parseDocument(s.html).children
+    );
+    if (a) return a.attribs.href;
+  }
+  return undefined;
+}
+
+export async function verifyImages(
+  html: string,
+  recipes: Recipe[],
+  opts: { signal?: AbortSignal; budgetMs?: number } = {}
+): Promise<{ html: string; recipes: Recipe[]; report: ImageReport }> {
+  const report: ImageReport = { checked: 0, swapped: [], dropped: [], skipped: [] };
+  const doc = parseDocument(html);
+  const imgs = DomUtils.findAll((el) => el.name === "img", doc.children);
+  const srcs = Array.from(new Set(imgs.map((i) => (i.attribs.src || "").trim()).filter((s) => /^https?:\/\//i.test(s))));
+  if (!srcs.length) return { html, recipes, report };
+
+  const budget = new AbortController();
+  const timer = setTimeout(() => budget.abort(), opts.budgetMs ?? BUDGET_MS);
+  const onAbort = () => budget.abort();
+  opts.signal?.addEventListener("abort", onAbort);
+
+  // Candidates are looked up once per recipe and handed out in order.
+  const candidates = new Map<string, Promise<string[]>>();
+  const used = new Set(srcs);
+  const candidatesFor = (recipe: Recipe | undefined) => {
+    const key = String(recipe?.id ?? "");
+    if (!candidates.has(key)) {
+      candidates.set(
+        key,
+        (async () => {
+          const source = recipe && sourceLink(recipe);
+          let found = source ? await fetchRealImagesFromSource(source, 4, budget.signal) : [];
+          if (!found.length && recipe) found = await serpImageFallback(`${recipe.title} ${recipe.author ?? ""}`.trim(), budget.signal);
+          return found.map((c) => c.url);
+        })()
+      );
+    }
+    return candidates.get(key)!;
+  };
+
+  const replacement = new Map<string, string | null>();
+  try {
+    await pool(srcs, CONCURRENCY, async (src) => {
+      if (budget.signal.aborted) {
+        report.skipped.push(src);
+        return;
+      }
+      report.checked++;
+      if (await headIsImage(src, budget.signal)) return;
+      if (budget.signal.aborted) {
+        // The check was cut short, not failed; leave the image alone.
+        report.checked--;
+        report.skipped.push(src);
+        return;
+      }
+      const img = imgs.find((i) => (i.attribs.src || "").trim() === src)!;
+      const recipe = recipeFor(img, src, recipes, doc.children);
+      const to = (await candidatesFor(recipe)).find((c) => !used.has(c)) ?? null;
+      if (to) used.add(to);
+      replacement.set(src, to);
+      if (to) report.swapped.push({ from: src, to, recipe: recipe?.title });
+      else report.dropped.push({ src, recipe: recipe?.title });
+    });
+  } finally {
+    clearTimeout(timer);
+    opts.signal?.removeEventListener("abort", onAbort);
+  }
+
+  if (!replacement.size) return { html, recipes, report };
+
+  const next = recipes.map((r) => ({
+    ...r,
+    imageUrl: r.imageUrl && replacement.has(r.imageUrl) ? replacement.get(r.imageUrl) ?? null : r.imageUrl,
+    sections: r.sections.map((s) => ({ ...s, html: rewrite(s.html, replacement) })),
+  }));
+  return { html: rewrite(html, replacement, doc.children), recipes: next, report };
+}
+
+/** Apply swaps and drops to a document (or an already-parsed copy of it). */
+function rewrite(html: string, replacement: Map<string, string | null>, parsed?: AnyNode[]): string {
+  const nodes = parsed ?? parseDocument(html).children;
+  const imgs = DomUtils.findAll((el) => el.name === "img" && replacement.has((el.attribs.src || "").trim()), nodes);
+  if (!imgs.length) return html;
+  for (const img of imgs) {
+    const to = replacement.get((img.attribs.src || "").trim());
+    if (to) {
+      img.attribs.src = to;
+      delete img.attribs.srcset;
+    } else {
+      dropImage(img);
+    }
+  }
+  return DomUtils.getOuterHTML(nodes, { decodeEntities: true, encodeEntities: "utf8" });
+}
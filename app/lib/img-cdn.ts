@@ -1,27 +1,127 @@
 // app/lib/img-cdn.ts
+import { parseDocument, DomUtils } from "htmlparser2";
+
+// Image URLs in rendered recipe HTML go through one of these adapters, which
+// turn a source URL and a width into a URL that serves that width:
+//   cloudinary  Cloudinary "fetch" (NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME)
+//   local       /api/img/resize, our own sharp resizer (see image-resize.ts)
+//   proxy       /api/img, same origin but full size only, so no srcset
+//   none        URLs left alone
+// NEXT_PUBLIC_IMAGE_CDN picks one; the default is cloudinary when a cloud
+// name is set and none otherwise. Both server and client components call
+// this, hence the NEXT_PUBLIC_ variables.
+//
+// Whatever the adapter, every <img> gets loading="lazy" and
+// decoding="async" unless it already says otherwise.
+
+export type ImageCdnName = "cloudinary" | "local" | "proxy" | "none";
+
+export type ImageCdn = {
+  name: ImageCdnName;
+  /** Can url() honour `width`? Without it there's nothing to put in srcset. */
+  resizes: boolean;
+  /** The URL to fetch `src` through, or null when this adapter can't serve it */
+  url(src: string, width?: number): string | null;
+};
+
+/** Widths offered in srcset; the resizer only produces these. */
+export const IMAGE_WIDTHS = [320, 480, 640, 960, 1280, 1600];
+
+/** Recipe content is at most about 768px wide (max-w-3xl). */
+export const DEFAULT_SIZES = "(max-width: 768px) 100vw, 768px";
+
 const CLOUD = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME || "";
 
-// Turn a remote URL into a Cloudinary “fetch” URL.
-// No auth needed; Cloudinary pulls the image server-side and serves it from their CDN.
-export function cldFetchUrl(remote: string) {
-  if (!CLOUD) return remote; // fallback if env missing
-  // Basic hygiene: only rewrite absolute http(s) images
-  if (!/^https?:\/\//i.test(remote)) return remote;
+const isRemote = (src: string) => /^https?:\/\//i.test(src);
+const isStoredImage = (src: string) => /^\/api\/files\/(?:users\/[^/]+\/)?images\//.test(src);
+
+const ADAPTERS: Record<ImageCdnName, ImageCdn> = {
+  cloudinary: {
+    name: "cloudinary",
+    resizes: true,
+    // Cloudinary fetches the image itself, so it needs an absolute URL.
+    url: (src, width) =>
+      isRemote(src) && CLOUD
+        ? `https://res.cloudinary.com/${CLOUD}/image/fetch/f_auto,q_auto${width ? `,c_limit,w_${width}` : ""}/${encodeURIComponent(src)}`
+        : null,
+  },
+  local: {
+    name: "local",
+    resizes: true,
+    url: (src, width) =>
+      isRemote(src) || isStoredImage(src)
+        ? `/api/img/resize?u=${encodeURIComponent(src)}&w=${width ?? IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1]}`
+        : null,
+  },
+  proxy: {
+    name: "proxy",
+    resizes: false,
+    url: (src) => (isRemote(src) ? `/api/img?u=${encodeURIComponent(src)}` : null),
+  },
+  none: { name: "none", resizes: false, url: () => null },
+};
+
+export function imageCdn(name?: string): ImageCdn {
+  const wanted = (name ?? process.env.NEXT_PUBLIC_IMAGE_CDN ?? "").trim().toLowerCase();
+  if (wanted in ADAPTERS) return ADAPTERS[wanted as ImageCdnName];
+  return CLOUD ? ADAPTERS.cloudinary : ADAPTERS.none;
+}
+
+/** The original URL behind one of our own proxy URLs, so they aren't wrapped twice. */
+function unwrap(src: string): string {
+  const m = /^\/api\/img(?:\/resize)?\?(.*)$/.exec(src);
+  if (!m) return src;
+  const params = new URLSearchParams(m[1]);
+  return params.get("u") || params.get("url") || src;
+}
+
+export type ResponsiveImage = { src: string; srcSet?: string; sizes?: string };
+
+/**
+ * src/srcset/sizes for one image. `maxWidth` (the image's own width
+ * attribute, say) caps the variants at twice that, for 2x screens.
+ */
+export function responsiveImage(
+  src: string,
+  opts: { cdn?: ImageCdn; sizes?: string; maxWidth?: number } = {}
+): ResponsiveImage {
+  const cdn = opts.cdn ?? imageCdn();
+  const original = unwrap(src.trim());
+  if (!cdn.url(original)) return { src };
+  if (!cdn.resizes) return { src: cdn.url(original)! };
 
-  const base = `https://res.cloudinary.com/${CLOUD}/image/fetch/f_auto,q_auto`;
-  // Preserve https by double-encoding dangerous chars
-  return `${base}/${encodeURIComponent(remote)}`;
+  const cap = opts.maxWidth ? opts.maxWidth * 2 : Infinity;
+  const widths = IMAGE_WIDTHS.filter((w) => w <= cap);
+  if (!widths.length) widths.push(IMAGE_WIDTHS[0]);
+  return {
+    // The middle variant for browsers that ignore srcset.
+    src: cdn.url(original, widths[Math.floor((widths.length - 1) / 2)])!,
+    srcSet: widths.map((w) => `${cdn.url(original, w)} ${w}w`).join(", "),
+    sizes: opts.sizes ?? DEFAULT_SIZES,
+  };
 }
 
-// Rewrite every <img src="..."> in a block of HTML to go through Cloudinary fetch.
-export function rewriteImagesWithCloudinary(html: string) {
-  if (!html) return html;
-  return html.replace(/<img\b[^>]*\bsrc\s*=\s*("([^"]+)"|'([^']+)'|([^\s>]+))/gi, (tag, _m, d1, d2, d3) => {
-    const src = (d1 || d2 || d3 || "").trim();
-    if (!src) return tag;
-    const newSrc = cldFetchUrl(src);
-
-    // replace only the src value inside this tag
-    return tag.replace(src, newSrc);
-  });
+/** Rewrite every <img> in a block of HTML through the CDN adapter, with srcset, sizes and lazy loading. */
+export function responsiveImages(html: string, opts: { cdn?: ImageCdn; sizes?: string } = {}): string {
+  if (!html || !/<img\b/i.test(html)) return html;
+  const cdn = opts.cdn ?? imageCdn();
+  const nodes = parseDocument(html).children;
+  for (const img of DomUtils.findAll((el) => el.name === "img", nodes)) {
+    const a = img.attribs;
+    if (!a.loading) a.loading = "lazy";
+    if (!a.decoding) a.decoding = "async";
+    if (!a.src || a.src.startsWith("data:")) continue;
+    const width = Number(a.width);
+    const r = responsiveImage(a.src, { cdn, sizes: a.sizes || opts.sizes, maxWidth: width > 0 ? width : undefined });
+    if (r.src === a.src) continue;
+    a.src = r.src;
+    // Candidates written for the original host would bypass the adapter.
+    delete a.srcset;
+    delete a.sizes;
+    if (r.srcSet) {
+      a.srcset = r.srcSet;
+      a.sizes = r.sizes!;
+    }
+  }
+  return DomUtils.getOuterHTML(nodes, { decodeEntities: true, encodeEntities: "utf8" });
 }
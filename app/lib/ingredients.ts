@@ -0,0 +1,297 @@
+// app/lib/ingredients.ts
+
+// Ingredient lines ("1 ½ cups flour, sifted") parsed into quantity, unit,
+// item and note, then scaled and converted between metric and US units.
+// No server imports: /r/[id] runs this in the browser as the servings and
+// unit controls change.
+//
+// Teaspoons and tablespoons are left alone by conversion since both systems
+// use them. Cups of dry goods convert by weight through DENSITIES, so
+// "1 cup flour" becomes 125 g rather than 237 ml.
+
+export type UnitSystem = "original" | "metric" | "us";
+
+export type Ingredient = {
+  /** The line as written */
+  raw: string;
+  quantity?: number;
+  /** Upper end of a range: "2–3 cloves" */
+  quantityMax?: number;
+  /** A key of UNITS */
+  unit?: string;
+  /** Package size before the unit: the "14 oz" in "1 (14 oz) can tomatoes" */
+  size?: string;
+  item: string;
+  /** What follows the first comma: "finely chopped" */
+  note?: string;
+};
+
+type UnitDef = {
+  kind: "volume" | "mass" | "other";
+  system?: "metric" | "us";
+  /** ml for volume, g for mass */
+  base?: number;
+  label: string;
+  plural?: string;
+  names: string[];
+};
+
+export const UNITS: Record<string, UnitDef> = {
+  tsp: { kind: "volume", base: 4.92892, label: "tsp", names: ["teaspoons", "teaspoon", "tsps", "tsp", "t"] },
+  tbsp: { kind: "volume", base: 14.7868, label: "tbsp", names: ["tablespoons", "tablespoon", "tbsps", "tbsp", "tbs", "tbl", "T"] },
+  floz: { kind: "volume", system: "us", base: 29.5735, label: "fl oz", names: ["fluid ounces", "fluid ounce", "fl. oz", "fl oz"] },
+  cup: { kind: "volume", system: "us", base: 236.588, label: "cup", plural: "cups", names: ["cups", "cup", "c"] },
+  pint: { kind: "volume", system: "us", base: 473.176, label: "pint", plural: "pints", names: ["pints", "pint", "pt"] },
+  quart: { kind: "volume", system: "us", base: 946.353, label: "quart", plural: "quarts", names: ["quarts", "quart", "qt"] },
+  gallon: { kind: "volume", system: "us", base: 3785.41, label: "gallon", plural: "gallons", names: ["gallons", "gallon", "gal"] },
+  ml: { kind: "volume", system: "metric", base: 1, label: "ml", names: ["milliliters", "milliliter", "millilitres", "millilitre", "ml"] },
+  cl: { kind: "volume", system: "metric", base: 10, label: "cl", names: ["centiliters", "centilitres", "cl"] },
+  dl: { kind: "volume", system: "metric", base: 100, label: "dl", names: ["deciliters", "decilitres", "dl"] },
+  l: { kind: "volume", system: "metric", base: 1000, label: "l", names: ["liters", "liter", "litres", "litre", "l"] },
+  oz: { kind: "mass", system: "us", base: 28.3495, label: "oz", names: ["ounces", "ounce", "oz"] },
+  lb: { kind: "mass", system: "us", base: 453.592, label: "lb", names: ["pounds", "pound", "lbs", "lb"] },
+  mg: { kind: "mass", system: "metric", base: 0.001, label: "mg", names: ["milligrams", "milligram", "milligrammes", "mg"] },
+  g: { kind: "mass", system: "metric", base: 1, label: "g", names: ["grams", "gram", "grammes", "gramme", "gr", "g"] },
+  kg: { kind: "mass", system: "metric", base: 1000, label: "kg", names: ["kilograms", "kilogram", "kilos", "kilo", "kg"] },
+  clove: { kind: "other", label: "clove", plural: "cloves", names: ["cloves", "clove"] },
+  can: { kind: "other", label: "can", plural: "cans", names: ["cans", "can", "tins", "tin"] },
+  pinch: { kind: "other", label: "pinch", plural: "pinches", names: ["pinches", "pinch"] },
+  dash: { kind: "other", label: "dash", plural: "dashes", names: ["dashes", "dash"] },
+  slice: { kind: "other", label: "slice", plural: "slices", names: ["slices", "slice"] },
+  stick: { kind: "other", label: "stick", plural: "sticks", names: ["sticks", "stick"] },
+  sprig: { kind: "other", label: "sprig", plural: "sprigs", names: ["sprigs", "sprig"] },
+  bunch: { kind: "other", label: "bunch", plural: "bunches", names: ["bunches", "bunch"] },
+  handful: { kind: "other", label: "handful", plural: "handfuls", names: ["handfuls", "handful"] },
+  package: { kind: "other", label: "package", plural: "packages", names: ["packages", "package", "pkg", "packets", "packet"] },
+};
+
+/** Grams per US cup, matched against the item by the longest name that fits. */
+export const DENSITIES: Record<string, number> = {
+  "all-purpose flour": 125,
+  "bread flour": 130,
+  "whole wheat flour": 120,
+  "almond flour": 96,
+  "cake flour": 115,
+  flour: 125,
+  "brown sugar": 220,
+  "powdered sugar": 120,
+  "icing sugar": 120,
+  "confectioners' sugar": 120,
+  sugar: 200,
+  butter: 227,
+  "cocoa powder": 85,
+  cornstarch: 128,
+  cornmeal: 150,
+  "rolled oats": 90,
+  oats: 90,
+  rice: 185,
+  quinoa: 170,
+  breadcrumbs: 108,
+  panko: 60,
+  "chocolate chips": 170,
+  "grated parmesan": 100,
+  parmesan: 100,
+  "shredded cheese": 113,
+  almonds: 140,
+  walnuts: 120,
+  pecans: 110,
+  raisins: 150,
+  honey: 340,
+  "maple syrup": 315,
+  salt: 288,
+};
+
+const DENSITY_NAMES = Object.keys(DENSITIES).sort((a, b) => b.length - a.length);
+
+const FRACTIONS: Record<string, number> = {
+  "½": 1 / 2, "⅓": 1 / 3, "⅔": 2 / 3, "¼": 1 / 4, "¾": 3 / 4, "⅕": 1 / 5, "⅖": 2 / 5, "⅗": 3 / 5,
+  "⅘": 4 / 5, "⅙": 1 / 6, "⅚": 5 / 6, "⅛": 1 / 8, "⅜": 3 / 8, "⅝": 5 / 8, "⅞": 7 / 8,
+};
+const GLYPHS = Object.keys(FRACTIONS).join("");
+const NUMBER = new RegExp(
+  `^(?:(\\d+)\\s*[/⁄]\\s*(\\d+)|(\\d+(?:\\.\\d+)?)(?:\\s*([${GLYPHS}])|\\s+(\\d+)\\s*[/⁄]\\s*(\\d+))?|([${GLYPHS}]))`
+);
+const RANGE = /^\s*(?:-|–|—|to|or)\s*/i;
+
+// Longest first, so "fl oz" wins over "oz" and "tbsp" over "t".
+const UNIT_NAMES = Object.entries(UNITS)
+  .flatMap(([id, u]) => u.names.map((name) => ({ id, name })))
+  .sort((a, b) => b.name.length - a.name.length);
+
+/** A leading number in any of the forms recipes use; null when `s` doesn't start with one. */
+function readNumber(s: string): [number, string] | null {
+  const m = NUMBER.exec(s);
+  if (!m) return null;
+  let n: number;
+  if (m[1]) n = Number(m[1]) / Number(m[2]);
+  else if (m[7]) n = FRACTIONS[m[7]];
+  else n = Number(m[3]) + (m[4] ? FRACTIONS[m[4]] : m[5] ? Number(m[5]) / Number(m[6]) : 0);
+  return Number.isFinite(n) ? [n, s.slice(m[0].length)] : null;
+}
+
+function readUnit(s: string): [string, string] | null {
+  for (const { id, name } of UNIT_NAMES) {
+    // "T" and "t" are tablespoon and teaspoon; every other name ignores case.
+    const head = s.slice(0, name.length);
+    const matches = name.length === 1 && /[tT]/.test(name) ? head === name : head.toLowerCase() === name.toLowerCase();
+    if (!matches) continue;
+    const rest = s.slice(name.length).replace(/^\./, "");
+    if (/^[a-z]/i.test(rest)) continue;
+    return [id, rest];
+  }
+  return null;
+}
+
+/** Split off a note after the first comma that isn't inside parentheses. */
+function splitNote(s: string): [string, string | undefined] {
+  let depth = 0;
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === "(") depth++;
+    else if (s[i] === ")") depth = Math.max(0, depth - 1);
+    else if (s[i] === "," && !depth) return [s.slice(0, i).trim(), s.slice(i + 1).trim() || undefined];
+  }
+  return [s.trim(), undefined];
+}
+
+export function parseIngredient(line: string): Ingredient {
+  const raw = line.replace(/\s+/g, " ").trim();
+  let rest = raw.replace(/^[-•*]\s*/, "");
+  const out: Ingredient = { raw, item: rest };
+
+  const first = readNumber(rest);
+  if (!first) return out;
+  [out.quantity, rest] = first;
+  const range = RANGE.exec(rest);
+  const second = range ? readNumber(rest.slice(range[0].length)) : null;
+  if (second && second[0] > out.quantity) [out.quantityMax, rest] = second;
+
+  rest = rest.trimStart();
+  const size = /^\(([^)]*)\)\s*/.exec(rest);
+  if (size) {
+    out.size = size[1].trim();
+    rest = rest.slice(size[0].length);
+  }
+  const unit = readUnit(rest);
+  if (unit) [out.unit, rest] = unit;
+  else if (size) {
+    // "2 (about 1 lb)" with no unit after it: the parenthetical belongs to the item.
+    rest = `${size[0]}${rest}`;
+    out.size = undefined;
+  }
+  rest = rest.trimStart().replace(/^of\s+/i, "");
+  [out.item, out.note] = splitNote(rest);
+  return out;
+}
+
+/** The first number in a yield ("Serves 4–6", "12 cookies"); null without one. */
+export function parseServings(text?: string): number | null {
+  const m = text ? /\d+(?:\.\d+)?/.exec(text) : null;
+  const n = m ? Number(m[0]) : NaN;
+  return n > 0 ? n : null;
+}
+
+function density(item: string): number | undefined {
+  const name = item.toLowerCase();
+  const key = DENSITY_NAMES.find((d) => name.includes(d));
+  return key ? DENSITIES[key] : undefined;
+}
+
+/** The unit that reads best for `amount` of ml or g in `system`. */
+function bestUnit(kind: "volume" | "mass", amount: number, system: "metric" | "us"): string {
+  if (system === "metric") {
+    if (kind === "mass") return amount >= 1000 ? "kg" : "g";
+    return amount >= 1000 ? "l" : "ml";
+  }
+  if (kind === "mass") return amount >= UNITS.lb.base! ? "lb" : "oz";
+  if (amount < UNITS.tbsp.base!) return "tsp";
+  if (amount < UNITS.cup.base! / 4) return "tbsp";
+  return "cup";
+}
+
+function convertAmount(ing: Ingredient, system: "metric" | "us"): { unit: string; factor: number } | null {
+  const u = ing.unit ? UNITS[ing.unit] : undefined;
+  if (!u || u.kind === "other" || !u.base || !ing.quantity) return null;
+  // Spoons belong to both systems.
+  if (!u.system || u.system === system) return null;
+
+  const d = density(ing.item);
+  const amount = ing.quantity * u.base;
+  if (u.kind === "volume" && system === "metric" && d) {
+    const grams = (amount / UNITS.cup.base!) * d;
+    const unit = bestUnit("mass", grams, system);
+    return { unit, factor: (u.base / UNITS.cup.base!) * d / UNITS[unit].base! };
+  }
+  if (u.kind === "mass" && system === "us" && d) {
+    const ml = (amount / d) * UNITS.cup.base!;
+    const unit = bestUnit("volume", ml, system);
+    return { unit, factor: (u.base / d) * UNITS.cup.base! / UNITS[unit].base! };
+  }
+  const unit = bestUnit(u.kind, amount, system);
+  return { unit, factor: u.base / UNITS[unit].base! };
+}
+
+/** Multiply the quantities by `factor` and express them in `system`. */
+export function scaleIngredient(ing: Ingredient, factor: number, system: UnitSystem = "original"): Ingredient {
+  if (ing.quantity == null) return ing;
+  const scaled: Ingredient = {
+    ...ing,
+    quantity: ing.quantity * factor,
+    quantityMax: ing.quantityMax == null ? undefined : ing.quantityMax * factor,
+  };
+  const to = system === "original" ? null : convertAmount(scaled, system);
+  if (!to) return scaled;
+  return {
+    ...scaled,
+    unit: to.unit,
+    quantity: scaled.quantity! * to.factor,
+    quantityMax: scaled.quantityMax == null ? undefined : scaled.quantityMax * to.factor,
+  };
+}
+
+const NICE_FRACTIONS: [number, string][] = [
+  [0, ""], [1 / 8, "⅛"], [1 / 4, "¼"], [1 / 3, "⅓"], [3 / 8, "⅜"], [1 / 2, "½"],
+  [5 / 8, "⅝"], [2 / 3, "⅔"], [3 / 4, "¾"], [7 / 8, "⅞"], [1, ""],
+];
+
+/** 1.5 → "1 ½"; falls back to decimals below ⅛. */
+function fractionText(n: number): string {
+  if (n > 0 && n < 1 / 8) return String(Number(n.toFixed(2)));
+  let whole = Math.floor(n);
+  const [value, glyph] = NICE_FRACTIONS.reduce((best, f) => (Math.abs(n - whole - f[0]) < Math.abs(n - whole - best[0]) ? f : best));
+  if (value === 1) whole++;
+  return [whole || (glyph ? "" : "0"), glyph].filter(Boolean).join(" ");
+}
+
+/** Grams and millilitres read best rounded; bigger units keep a couple of decimals. */
+function decimalText(n: number, unit: string): string {
+  const base = UNITS[unit]?.base ?? 1;
+  if (base >= 100) return String(Number(n.toFixed(2)));
+  if (n >= 100) return String(Math.round(n / 5) * 5);
+  if (n >= 10) return String(Math.round(n));
+  return String(Number(n.toFixed(1)));
+}
+
+export function formatQuantity(n: number, unit?: string): string {
+  return unit && UNITS[unit]?.system === "metric" ? decimalText(n, unit) : fractionText(n);
+}
+
+export function formatIngredient(ing: Ingredient): string {
+  if (ing.quantity == null) return ing.raw;
+  const amount = ing.quantityMax == null
+    ? formatQuantity(ing.quantity, ing.unit)
+    : `${formatQuantity(ing.quantity, ing.unit)}–${formatQuantity(ing.quantityMax, ing.unit)}`;
+  const u = ing.unit ? UNITS[ing.unit] : undefined;
+  // By what's shown: 1.04 cups reads as "1 cup".
+  const unit = u ? ((ing.quantityMax ?? ing.quantity) > 1 && amount !== "1" && u.plural) || u.label : "";
+  const size = ing.size ? `(${ing.size})` : "";
+  const text = [amount, size, unit, ing.item].filter(Boolean).join(" ");
+  return ing.note ? `${text}, ${ing.note}` : text;
+}
+
+/** The line scaled and converted; untouched when there's nothing to change. */
+export function adjustIngredient(line: string, factor: number, system: UnitSystem = "original"): string {
+  if (factor === 1 && system === "original") return line;
+  const ing = parseIngredient(line);
+  if (ing.quantity == null) return line;
+  return formatIngredient(scaleIngredient(ing, factor, system));
+}
@@ -0,0 +1,157 @@
+// app/lib/llm-fixtures.ts
+import type { CompletionRequest, Usage } from "./llm";
+import { recipeSections, renderRecipesDocument } from "./recipe-render";
+import type { Recipe } from "./types";
+
+// Canned recipes for the "mock" provider. The same query always yields the
+// same reply, so the generate → save → archive flow can be exercised offline.
+
+const FIXTURES: Omit<Recipe, "id" | "sections">[] = [
+  {
+    title: "French Onion Soup",
+    author: "Julia Child",
+    authorBio:
+      "Julia Child brought French cooking to American home kitchens with Mastering the Art of French Cooking and her television series The French Chef.",
+    description:
+      "Soupe à l'oignon gratinée was the late-night meal of the market porters at Les Halles in Paris.\n\n" +
+      "Child's version relies on patience: the onions cook slowly for the better part of an hour until they are deeply browned, which gives the broth its sweetness and colour.\n\n" +
+      "A crouton of toasted bread and a lid of melted Gruyère turn the bowl into a meal for a cold evening.",
+    ingredients: [
+      "1 ½ lb yellow onions, thinly sliced",
+      "3 tbsp butter",
+      "1 tbsp oil",
+      "1 tsp salt",
+      "¼ tsp sugar",
+      "3 tbsp flour",
+      "2 quarts beef stock, hot",
+      "½ cup dry white wine",
+      "6 slices toasted French bread",
+      "2 cups grated Gruyère",
+    ],
+    steps: [
+      "Cook the onions slowly with the butter and oil in a covered heavy saucepan for 15 minutes.",
+      "Uncover, raise the heat to moderate, stir in the salt and sugar, and cook for 30 to 40 minutes, stirring frequently, until the onions have turned an even, deep golden brown.",
+      "Sprinkle in the flour and stir for 3 minutes.",
+      "Off heat, blend in the boiling stock. Add the wine and season to taste. Simmer partially covered for 30 to 40 minutes.",
+      "Ladle into ovenproof bowls, top with the bread and cheese, and bake until the cheese is bubbling and browned.",
+    ],
+    imageUrl: null,
+  },
+  {
+    title: "Cacio e Pepe",
+    author: "Flavio De Maio",
+    authorBio: "Flavio De Maio runs Flavio al Velavevodetto in Rome's Testaccio, a neighbourhood known for its cucina romana.",
+    description:
+      "Cacio e pepe is one of the four classic Roman pastas, made with nothing more than pecorino, black pepper and pasta water.\n\n" +
+      "The trick is the emulsion: starchy water and finely grated cheese, worked off the heat, form a glossy sauce rather than clumps.\n\n" +
+      "Toasting the pepper first wakes up its aroma and seasons the whole dish.",
+    ingredients: [
+      "200 g tonnarelli or spaghetti",
+      "150 g Pecorino Romano, finely grated",
+      "2 tsp black peppercorns, freshly cracked",
+      "Salt for the pasta water",
+    ],
+    steps: [
+      "Boil the pasta in lightly salted water, using less water than usual so it becomes starchy.",
+      "Toast the cracked pepper in a wide pan, then add a ladle of pasta water.",
+      "Mix the pecorino with a little warm pasta water to a thick cream.",
+      "Transfer the pasta to the pan two minutes before it is done and finish cooking it in the peppery water.",
+      "Off the heat, stir in the pecorino cream, adding pasta water until the sauce is glossy, and serve at once.",
+    ],
+    imageUrl: null,
+  },
+  {
+    title: "Braised Short Ribs",
+    author: "Suzanne Goin",
+    authorBio: "Suzanne Goin is the chef behind Lucques in Los Angeles; her short ribs are the restaurant's best-known dish.",
+    description:
+      "Goin's short ribs are seasoned a day ahead, seared hard and braised slowly in port, wine and stock.\n\n" +
+      "The long braise renders the fat and turns the meat spoon-tender, while the reduced liquid becomes the sauce.\n\n" +
+      "It is a make-ahead dish that only improves overnight, which makes it ideal for a winter dinner party.",
+    ingredients: [
+      "6 beef short ribs, about 4 lb",
+      "1 tbsp thyme leaves",
+      "2 tbsp olive oil",
+      "1 onion, diced",
+      "1 carrot, diced",
+      "2 stalks celery, diced",
+      "1 ½ cups port",
+      "2 ½ cups red wine",
+      "6 cups beef stock",
+      "Salt and black pepper",
+    ],
+    steps: [
+      "Season the ribs with thyme, salt and pepper and refrigerate overnight.",
+      "Sear the ribs in hot oil on all sides until deeply browned, then set aside.",
+      "Soften the onion, carrot and celery in the same pan.",
+      "Add the port and wine and reduce by half.",
+      "Return the ribs, add the stock, cover and braise at 325°F for about 3 hours, until tender.",
+      "Strain and reduce the braising liquid and spoon it over the ribs to serve.",
+    ],
+    imageUrl: null,
+  },
+  {
+    title: "Shakshuka",
+    author: "Yotam Ottolenghi",
+    authorBio: "Yotam Ottolenghi is a chef and food writer in London whose books popularised Middle Eastern home cooking.",
+    description:
+      "Shakshuka, eggs poached in a spiced pepper and tomato sauce, is breakfast across North Africa and Israel.\n\n" +
+      "Ottolenghi cooks the peppers down until sweet before the tomatoes go in, and seasons with cumin, harissa and saffron.\n\n" +
+      "It comes to the table in the pan, with bread for mopping.",
+    ingredients: [
+      "½ tsp cumin seeds",
+      "180 ml olive oil",
+      "2 onions, sliced",
+      "2 red peppers, sliced",
+      "2 tsp harissa",
+      "8 ripe tomatoes, chopped",
+      "4 eggs",
+      "Salt and pepper",
+    ],
+    steps: [
+      "Toast the cumin in a large dry pan, then add the oil and onions and fry for 5 minutes.",
+      "Add the peppers and harissa and cook over high heat for 10 minutes.",
+      "Add the tomatoes and simmer for 15 minutes until thick. Season.",
+      "Make four wells in the sauce, break an egg into each, cover and cook gently until the whites are set.",
+    ],
+    imageUrl: null,
+  },
+];
+
+function hash(s: string): number {
+  let h = 0;
+  for (let i = 0; i < s.length; i++) h = (h * 31 + s.charCodeAt(i)) | 0;
+  return Math.abs(h);
+}
+
+function estimateTokens(s: string): number {
+  return Math.ceil(s.length / 4);
+}
+
+/** The user's query, as embedded by the generate prompts ("Input directives:\n…"). */
+function queryOf(req: CompletionRequest): string {
+  const first = req.messages.find((m) => m.role === "user")?.content || "";
+  return first.replace(/^Input directives:\s*/i, "").split(/\n\nReturn ONLY/)[0].trim();
+}
+
+export function mockRecipes(query: string): Recipe[] {
+  const n = Math.min(Math.max(Number(/\b([1-9])\b/.exec(query)?.[1]) || 3, 1), FIXTURES.length);
+  const offset = hash(query.toLowerCase()) % FIXTURES.length;
+  return Array.from({ length: n }, (_, i) => {
+    const r = FIXTURES[(offset + i) % FIXTURES.length];
+    const recipe: Recipe = { ...r, id: r.title.toLowerCase().replace(/[^a-z0-9]+/g, "-"), sections: [] };
+    return { ...recipe, sections: recipeSections(recipe) };
+  });
+}
+
+export function mockCompletion(req: CompletionRequest): { text: string; usage: Usage } {
+  const recipes = mockRecipes(queryOf(req));
+  const text = req.jsonSchema
+    ? JSON.stringify({
+        recipes: recipes.map(({ id: _id, sections: _s, ...r }) => ({ ...r, sourceUrl: null })),
+      })
+    : renderRecipesDocument(recipes, recipes.length === 1 ? recipes[0].title : "Fresh Recipes");
+  const promptTokens = estimateTokens(req.messages.map((m) => m.content).join("\n"));
+  const completionTokens = estimateTokens(text);
+  return { text, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } };
+}
@@ -0,0 +1,183 @@
+// app/lib/llm.ts
+import OpenAI from "openai";
+import { mockCompletion } from "./llm-fixtures";
+
+// Chat-completion providers behind one small interface so the generate routes
+// don't care whether they talk to OpenAI, a local OpenAI-compatible server
+// (Ollama, LM Studio, vLLM…) or the offline fixture provider.
+//
+// Selection: request body `provider`, else LLM_PROVIDER, else "openai".
+//   openai      OPENAI_API_KEY, OPENAI_MODEL
+//   compatible  LLM_BASE_URL (e.g. http://localhost:11434/v1), LLM_API_KEY, LLM_MODEL, LLM_JSON_MODE
+//   mock        no configuration; deterministic fixtures
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type JsonSchemaFormat = { name: string; strict?: boolean; schema: Record<string, unknown> };
+
+export type CompletionRequest = {
+  messages: ChatMessage[];
+  temperature?: number;
+  /** Ask for JSON matching this schema (support varies by provider) */
+  jsonSchema?: JsonSchemaFormat;
+  signal?: AbortSignal;
+};
+
+export type Usage = { promptTokens: number; completionTokens: number; totalTokens: number };
+
+export type Completion = { text: string; model: string; usage?: Usage };
+
+/** Streamed pieces: text deltas, then usage once at the end if the provider reports it. */
+export type StreamChunk = { delta: string } | { usage: Usage };
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  complete(req: CompletionRequest): Promise<Completion>;
+  stream(req: CompletionRequest): AsyncIterable<StreamChunk>;
+}
+
+export type ProviderName = "openai" | "compatible" | "mock";
+
+export const PROVIDER_NAMES: ProviderName[] = ["openai", "compatible", "mock"];
+
+export class ProviderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+function env(key: string): string | undefined {
+  const v = process.env[key]?.trim();
+  return v ? v : undefined;
+}
+
+function toUsage(u?: OpenAI.CompletionUsage | null): Usage | undefined {
+  if (!u) return undefined;
+  return { promptTokens: u.prompt_tokens, completionTokens: u.completion_tokens, totalTokens: u.total_tokens };
+}
+
+/**
+ * How structured output is requested: "schema" (json_schema, OpenAI and recent
+ * Ollama), "object" (plain json_object mode) or "none" (prompt only).
+ */
+type JsonMode = "schema" | "object" | "none";
+
+class OpenAIProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly name: ProviderName,
+    readonly model: string,
+    opts: { apiKey: string; baseURL?: string },
+    private jsonMode: JsonMode = "schema"
+  ) {
+    this.client = new OpenAI({ apiKey: opts.apiKey, baseURL: opts.baseURL });
+  }
+
+  private responseFormat(req: CompletionRequest) {
+    if (!req.jsonSchema || this.jsonMode === "none") return undefined;
+    if (this.jsonMode === "object") return { type: "json_object" as const };
+    return { type: "json_schema" as const, json_schema: req.jsonSchema };
+  }
+
+  async complete(req: CompletionRequest): Promise<Completion> {
+    const completion = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        temperature: req.temperature ?? 0.3,
+        messages: req.messages,
+        response_format: this.responseFormat(req),
+      },
+      { signal: req.signal }
+    );
+    return {
+      text: completion.choices?.[0]?.message?.content?.trim() || "",
+      model: completion.model || this.model,
+      usage: toUsage(completion.usage),
+    };
+  }
+
+  async *stream(req: CompletionRequest): AsyncIterable<StreamChunk> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        temperature: req.temperature ?? 0.3,
+        messages: req.messages,
+        response_format: this.responseFormat(req),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: req.signal }
+    );
+    for await (const chunk of stream) {
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) yield { delta };
+      const usage = toUsage(chunk.usage);
+      if (usage) yield { usage };
+    }
+  }
+}
+
+/** Deterministic offline provider; see llm-fixtures.ts. */
+class MockProvider implements LLMProvider {
+  readonly name = "mock" as const;
+  readonly model = "mock-fixtures";
+
+  async complete(req: CompletionRequest): Promise<Completion> {
+    if (req.signal?.aborted) throw new Error("Request was aborted.");
+    return { ...mockCompletion(req), model: this.model };
+  }
+
+  async *stream(req: CompletionRequest): AsyncIterable<StreamChunk> {
+    const { text, usage } = mockCompletion(req);
+    // Fixed-size chunks with a short pause, so the progressive preview has something to show.
+    for (let i = 0; i < text.length; i += 120) {
+      if (req.signal?.aborted) throw new Error("Request was aborted.");
+      await new Promise((r) => setTimeout(r, 15));
+      yield { delta: text.slice(i, i + 120) };
+    }
+    if (usage) yield { usage };
+  }
+}
+
+export function defaultProviderName(): ProviderName {
+  const name = env("LLM_PROVIDER");
+  return name && (PROVIDER_NAMES as string[]).includes(name) ? (name as ProviderName) : "openai";
+}
+
+/** Whether a provider has what it needs to run, for the health payload. */
+export function providerStatus(): Record<ProviderName, boolean> {
+  return { openai: !!env("OPENAI_API_KEY"), compatible: !!env("LLM_BASE_URL"), mock: true };
+}
+
+/**
+ * Build the provider named by the request (or the env default).
+ * Throws ProviderError: 400 for an unknown name, 500 when it isn't configured.
+ */
+export function getProvider(requested?: unknown): LLMProvider {
+  const name = requested === undefined || requested === null || requested === "" ? defaultProviderName() : requested;
+  switch (name) {
+    case "openai": {
+      const apiKey = env("OPENAI_API_KEY");
+      if (!apiKey) throw new ProviderError("OPENAI_API_KEY is not set", 500);
+      return new OpenAIProvider("openai", env("OPENAI_MODEL") || "gpt-4o-mini", { apiKey });
+    }
+    case "compatible": {
+      const baseURL = env("LLM_BASE_URL");
+      if (!baseURL) throw new ProviderError("LLM_BASE_URL is not set", 500);
+      const jsonMode = env("LLM_JSON_MODE");
+      return new OpenAIProvider(
+        "compatible",
+        env("LLM_MODEL") || "llama3.1",
+        // Local servers usually ignore the key, but the client refuses an empty one.
+        { apiKey: env("LLM_API_KEY") || "not-needed", baseURL },
+        jsonMode === "object" || jsonMode === "none" ? jsonMode : "schema"
+      );
+    }
+    case "mock":
+      return new MockProvider();
+    default:
+      throw new ProviderError(`Unknown provider "${String(name)}". Use one of: ${PROVIDER_NAMES.join(", ")}`, 400);
+  }
+}
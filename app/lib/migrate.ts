@@ -0,0 +1,199 @@
+// app/lib/migrate.ts
+import { getStorage, listAll, type StorageDriver, type StoredObject } from "@/lib/storage";
+import { parseRecipesFromHtml, recipeSummary } from "./recipe-parse";
+import { sanitizeDocument } from "./sanitize";
+import {
+  getArchive,
+  isArchiveItem,
+  itemPath,
+  type ArchiveItem,
+  type LegacyLayout,
+} from "./store";
+
+// Reads every layout the archive has been written in and rewrites it into the
+// canonical recipes/{id}.json (see store.ts):
+//   archive-dir       archive/{slug}/index.html + meta.json   (old /api/save)
+//   recipes-html      recipes/{slug}.html + recipes/{slug}.json sidecar (what /api/recipes listed)
+//   recipes-suffixed  recipes/{id}-{random}.json               (store.ts before addRandomSuffix: false)
+// Legacy slugs become item ids, so /archive/{slug} keeps resolving.
+// HTML is sanitized on the way in, like everything store.ts saves.
+// Legacy blobs are only deleted after the canonical copy reads back intact.
+
+export type LegacyRecord = {
+  source: LegacyLayout;
+  /** The legacy location, for reporting */
+  path: string;
+  /** Storage keys that make up the legacy copy */
+  keys: string[];
+  item: ArchiveItem;
+};
+
+export type MigrationReport = {
+  dryRun: boolean;
+  migrated: { id: string; source: LegacyLayout; path: string }[];
+  skipped: { id: string; path: string; reason: string }[];
+  failed: { path: string; error: string }[];
+};
+
+async function fetchText(store: StorageDriver, key: string): Promise<string | null> {
+  try {
+    return (await store.get(key))?.toString("utf8") ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchJson(store: StorageDriver, key: string): Promise<any> {
+  const t = await fetchText(store, key);
+  if (t == null) return null;
+  try {
+    return JSON.parse(t);
+  } catch {
+    return null;
+  }
+}
+
+function titleFromSlug(slug: string): string {
+  return decodeURIComponent(slug)
+    .replace(/-[a-z0-9]{6,10}$/, "") // /api/save appended Date.now().toString(36)
+    .replace(/[-_]+/g, " ")
+    .trim()
+    .replace(/\b\w/g, (m) => m.toUpperCase()) || slug;
+}
+
+function isoDate(v: unknown, fallback: Date): string {
+  const t = typeof v === "string" || typeof v === "number" ? new Date(v).getTime() : NaN;
+  return new Date(Number.isFinite(t) ? t : fallback.getTime()).toISOString();
+}
+
+async function readArchiveDirs(store: StorageDriver, blobs: StoredObject[]): Promise<LegacyRecord[]> {
+  const out: LegacyRecord[] = [];
+  for (const page of blobs.filter((b) => /^archive\/[^/]+\/index\.html$/.test(b.key))) {
+    const dir = page.key.replace(/\/index\.html$/, "");
+    const slug = dir.slice("archive/".length);
+    const metaBlob = blobs.find((b) => b.key === `${dir}/meta.json`);
+    const raw = await fetchText(store, page.key);
+    if (raw == null) continue;
+    const html = sanitizeDocument(raw);
+    const meta = metaBlob ? await fetchJson(store, metaBlob.key) : null;
+    const recipes = parseRecipesFromHtml(html);
+    out.push({
+      source: "archive-dir",
+      path: dir,
+      keys: [page.key, ...(metaBlob ? [metaBlob.key] : [])],
+      item: {
+        id: slug,
+        kind: "full",
+        title: (typeof meta?.title === "string" && meta.title.trim()) || titleFromSlug(slug),
+        description: recipeSummary(recipes),
+        html,
+        createdAt: isoDate(meta?.addedAt, new Date(page.uploadedAt)),
+        recipes,
+        legacy: { layout: "archive-dir", path: dir },
+      },
+    });
+  }
+  return out;
+}
+
+async function readRecipeFiles(store: StorageDriver, blobs: StoredObject[]): Promise<LegacyRecord[]> {
+  const out: LegacyRecord[] = [];
+  for (const page of blobs.filter((b) => /^recipes\/[^/]+\.html$/.test(b.key))) {
+    const slug = page.key.slice("recipes/".length, -".html".length);
+    const sidecarBlob = blobs.find((b) => b.key === `recipes/${slug}.json`);
+    const raw = await fetchText(store, page.key);
+    if (raw == null) continue;
+    const html = sanitizeDocument(raw);
+    const sidecar = sidecarBlob ? await fetchJson(store, sidecarBlob.key) : null;
+    // A canonical item at the sidecar path means this was migrated already.
+    const migrated = isArchiveItem(sidecar);
+    const recipes = parseRecipesFromHtml(html);
+    out.push({
+      source: "recipes-html",
+      path: page.key,
+      keys: [page.key],
+      item: migrated
+        ? sidecar
+        : {
+            id: slug,
+            kind: "full",
+            title: (typeof sidecar?.title === "string" && sidecar.title.trim()) || titleFromSlug(slug),
+            description: (typeof sidecar?.description === "string" && sidecar.description) || recipeSummary(recipes),
+            html,
+            createdAt: new Date(page.uploadedAt).toISOString(),
+            query: typeof sidecar?.query === "string" ? sidecar.query : undefined,
+            recipes,
+            legacy: { layout: "recipes-html", path: page.key },
+          },
+    });
+  }
+  return out;
+}
+
+async function readSuffixedItems(store: StorageDriver, blobs: StoredObject[]): Promise<LegacyRecord[]> {
+  const out: LegacyRecord[] = [];
+  for (const b of blobs.filter((b) => /^recipes\/[^/]+\.json$/.test(b.key))) {
+    const j = await fetchJson(store, b.key);
+    if (!isArchiveItem(j) || b.key === itemPath(j.id)) continue;
+    out.push({
+      source: "recipes-suffixed",
+      path: b.key,
+      keys: [b.key],
+      item: {
+        ...j,
+        html: sanitizeDocument(j.html),
+        recipes: j.recipes ?? parseRecipesFromHtml(j.html),
+        legacy: { layout: "recipes-suffixed", path: b.key },
+      },
+    });
+  }
+  return out;
+}
+
+/** Every item still stored in a legacy layout. */
+export async function readLegacy(store: StorageDriver = getStorage()): Promise<LegacyRecord[]> {
+  const [archiveBlobs, recipeBlobs] = await Promise.all([listAll(store, "archive/"), listAll(store, "recipes/")]);
+  return [
+    ...(await readArchiveDirs(store, archiveBlobs)),
+    ...(await readRecipeFiles(store, recipeBlobs)),
+    ...(await readSuffixedItems(store, recipeBlobs)),
+  ];
+}
+
+export async function migrateLegacy(opts: { dryRun?: boolean; keepLegacy?: boolean } = {}): Promise<MigrationReport> {
+  const dryRun = !!opts.dryRun;
+  const repo = getArchive();
+  const report: MigrationReport = { dryRun, migrated: [], skipped: [], failed: [] };
+
+  for (const rec of await readLegacy()) {
+    const { item } = rec;
+    try {
+      // get() also resolves suffixed paths, so a suffixed record finds itself
+      // here; it only counts as migrated once the copy carries the legacy marker.
+      const existing = await repo.get(item.id);
+      const alreadyMigrated = existing?.legacy?.path === rec.path;
+      if (existing && !alreadyMigrated && rec.source !== "recipes-suffixed") {
+        report.skipped.push({ id: item.id, path: rec.path, reason: "id already used by another item" });
+        continue;
+      }
+      if (dryRun) {
+        report.migrated.push({ id: item.id, source: rec.source, path: rec.path });
+        continue;
+      }
+      if (!alreadyMigrated) {
+        await repo.put(item);
+        const check = await repo.get(item.id);
+        if (!check || check.legacy?.path !== rec.path || check.html !== item.html) {
+          throw new Error("canonical copy did not read back");
+        }
+      }
+      if (!opts.keepLegacy) {
+        await getStorage().delete(rec.keys);
+      }
+      report.migrated.push({ id: item.id, source: rec.source, path: rec.path });
+    } catch (err: any) {
+      report.failed.push({ path: rec.path, error: String(err?.message || err) });
+    }
+  }
+  return report;
+}
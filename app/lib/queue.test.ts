@@ -0,0 +1,27 @@
+// app/lib/queue.test.ts
+import { describe, expect, it } from "vitest";
+import { createQueue } from "./queue";
+
+describe("createQueue", () => {
+  it("runs read-modify-write tasks one after another", async () => {
+    const enqueue = createQueue();
+    let doc = 0;
+    const bump = () =>
+      enqueue(async () => {
+        const read = doc;
+        await new Promise((r) => setTimeout(r, 1));
+        doc = read + 1;
+      });
+    await Promise.all(Array.from({ length: 10 }, bump));
+    expect(doc).toBe(10);
+  });
+
+  it("keeps going after a task fails", async () => {
+    const enqueue = createQueue();
+    const failed = enqueue(async () => {
+      throw new Error("boom");
+    });
+    await expect(failed).rejects.toThrow("boom");
+    await expect(enqueue(async () => "next")).resolves.toBe("next");
+  });
+});
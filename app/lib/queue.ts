@@ -0,0 +1,20 @@
+// app/lib/queue.ts
+
+// Storage has no compare-and-swap, so documents that many requests update
+// (the archive and search indexes, collections, share views, usage, users)
+// are read, changed and written back whole. A queue per document runs those
+// edits one after another, so concurrent requests in this process don't
+// overwrite each other's changes. Other server instances have queues of
+// their own; edits racing across instances can still lose one another.
+
+export type Queue = <T>(task: () => Promise<T>) => Promise<T>;
+
+/** Run tasks one at a time, in order; a task that fails doesn't stop the ones behind it. */
+export function createQueue(): Queue {
+  let tail: Promise<unknown> = Promise.resolve();
+  return (task) => {
+    const next = tail.then(task, task);
+    tail = next.catch(() => undefined);
+    return next;
+  };
+}
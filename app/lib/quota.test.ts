@@ -0,0 +1,57 @@
+// app/lib/quota.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LLMProvider } from "./llm";
+import { QuotaError, callerKey, metered } from "./quota";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function request(headers: Record<string, string>) {
+  return new Request("http://localhost/api/generate", { method: "POST", headers });
+}
+
+describe("callerKey", () => {
+  it("takes the address our proxy appended, not what the client sent", () => {
+    const req = request({ "x-forwarded-for": "1.1.1.1, 203.0.113.7" });
+    expect(callerKey(req)).toBe("ip:203.0.113.7");
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+    expect(callerKey(req)).toBe("ip:1.1.1.1");
+  });
+
+  it("doesn't believe a header no proxy of ours wrote", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+    expect(callerKey(request({ "x-forwarded-for": "198.51.100.1" }))).toBe("ip:unknown");
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "0");
+    expect(callerKey(request({ "x-forwarded-for": "198.51.100.1" }))).toBe("ip:unknown");
+    expect(callerKey(request({ "x-real-ip": "198.51.100.2" }))).toBe("ip:unknown");
+  });
+
+  it("uses the platform's address on Vercel", () => {
+    vi.stubEnv("VERCEL", "1");
+    const req = request({ "x-vercel-forwarded-for": "192.0.2.9", "x-forwarded-for": "1.1.1.1" });
+    expect(callerKey(req)).toBe("ip:192.0.2.9");
+    expect(callerKey(req, "abc")).toBe("user:abc");
+  });
+});
+
+describe("metered", () => {
+  it("checks the budget before every call, so retries can't overshoot it", async () => {
+    vi.stubEnv("GENERATE_DAILY_BUDGET_USD", "0.000001");
+    vi.stubEnv("LLM_PRICE_PER_MTOK", "1,1");
+    let calls = 0;
+    const upstream: LLMProvider = {
+      name: "mock",
+      model: "mock",
+      async complete() {
+        calls++;
+        return { text: "{}", model: "mock", usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 } };
+      },
+      async *stream() {},
+    };
+    const provider = metered(upstream);
+    await provider.complete({ messages: [] });
+    await expect(provider.complete({ messages: [] })).rejects.toBeInstanceOf(QuotaError);
+    expect(calls).toBe(1);
+  });
+});
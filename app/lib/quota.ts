@@ -0,0 +1,266 @@
+// app/lib/quota.ts
+import { getStorage, readJson, writeJson } from "@/lib/storage";
+import { logError } from "@/lib/log";
+import type { CompletionRequest, LLMProvider, StreamChunk, Usage } from "./llm";
+import { createQueue } from "./queue";
+
+// Limits on the generate routes, where every call spends real money.
+//
+//   rate    A token bucket per caller: the signed-in user, else the client IP
+//           (see clientIp: X-Forwarded-For is only believed as far as our
+//           own proxies wrote it).
+//           GENERATE_RATE_PER_MINUTE requests a minute (default 5; 0 turns it
+//           off), in bursts of up to GENERATE_RATE_BURST (default 5). Buckets
+//           are in memory, so each server instance counts on its own.
+//   budget  GENERATE_DAILY_BUDGET_USD of model spend per UTC day (unset: no
+//           limit), priced from the token usage each completion reports. It
+//           is checked before every model call, json retries included, so
+//           only calls already running when it runs out can overshoot it.
+//           Kept in storage, to hold across instances:
+//           path: usage/{YYYY-MM-DD}.json
+//           JSON: UsageDay
+//
+// Both answer QuotaError 429 with the seconds until a retry can succeed.
+
+const USAGE_PREFIX = "usage/";
+const MAX_BUCKETS = 10_000;
+
+export class QuotaError extends Error {
+  constructor(message: string, public status: number, public retryAfter: number) {
+    super(message);
+  }
+}
+
+export type ModelUsage = { completions: number; promptTokens: number; completionTokens: number; costUsd: number };
+
+export type UsageDay = {
+  version: 1;
+  /** UTC, YYYY-MM-DD */
+  date: string;
+  completions: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Keyed "provider/model" */
+  models: Record<string, ModelUsage>;
+};
+
+export type UsageSummary = UsageDay & { budgetUsd: number | null; remainingUsd: number | null };
+
+function numberEnv(key: string): number | undefined {
+  const v = process.env[key]?.trim();
+  const n = v ? Number(v) : NaN;
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+export function limits() {
+  const ratePerMinute = numberEnv("GENERATE_RATE_PER_MINUTE") ?? 5;
+  return {
+    ratePerMinute,
+    burst: Math.max(1, numberEnv("GENERATE_RATE_BURST") ?? 5),
+    dailyBudgetUsd: numberEnv("GENERATE_DAILY_BUDGET_USD") ?? null,
+  };
+}
+
+// ---------------------------------------------------------------- rate
+
+type Bucket = { tokens: number; at: number };
+const buckets = new Map<string, Bucket>();
+
+/**
+ * The client's address as our own infrastructure saw it. On Vercel that's
+ * x-vercel-forwarded-for, which the platform sets. Elsewhere each proxy
+ * appends the address it was connected from to X-Forwarded-For, so the entry
+ * TRUSTED_PROXY_HOPS (default 1) from the right is the last one a proxy of
+ * ours wrote; anything to its left came from the client. With 0 (no proxy in
+ * front) the header is ignored and every anonymous caller shares one bucket.
+ */
+export function clientIp(req: Request): string | null {
+  if (process.env.VERCEL) {
+    const ip = req.headers.get("x-vercel-forwarded-for")?.split(",")[0]?.trim();
+    if (ip) return ip;
+  }
+  const hops = Math.floor(numberEnv("TRUSTED_PROXY_HOPS") ?? 1);
+  if (!hops) return null;
+  const chain = (req.headers.get("x-forwarded-for") ?? "").split(",").map((v) => v.trim()).filter(Boolean);
+  return chain.length >= hops ? chain[chain.length - hops] : null;
+}
+
+/** Who a request counts against: `user:{uid}` when signed in, else `ip:{address}`. */
+export function callerKey(req: Request, uid?: string): string {
+  if (uid) return `user:${uid}`;
+  return `ip:${clientIp(req) ?? "unknown"}`;
+}
+
+/** Take one request from the caller's bucket; QuotaError 429 when it's empty. */
+export function takeRateToken(key: string, now = Date.now()): void {
+  const { ratePerMinute, burst } = limits();
+  if (!ratePerMinute) return;
+  const perMs = ratePerMinute / 60_000;
+  const refill = (b: Bucket) => Math.min(burst, b.tokens + (now - b.at) * perMs);
+
+  if (buckets.size > MAX_BUCKETS) {
+    for (const [k, b] of buckets) if (refill(b) >= burst) buckets.delete(k);
+  }
+  const tokens = refill(buckets.get(key) ?? { tokens: burst, at: now });
+  if (tokens < 1) {
+    buckets.set(key, { tokens, at: now });
+    const retryAfter = Math.ceil((1 - tokens) / perMs / 1000);
+    throw new QuotaError(`Too many requests: the limit is ${ratePerMinute} a minute. Try again in ${retryAfter}s.`, 429, retryAfter);
+  }
+  buckets.set(key, { tokens: tokens - 1, at: now });
+}
+
+// ---------------------------------------------------------------- budget
+
+/** USD per million tokens, input then output; the longest matching model prefix wins. */
+const OPENAI_PRICES: [string, number, number][] = [
+  ["gpt-4o-mini", 0.15, 0.6],
+  ["gpt-4o", 2.5, 10],
+  ["gpt-4.1-nano", 0.1, 0.4],
+  ["gpt-4.1-mini", 0.4, 1.6],
+  ["gpt-4.1", 2, 8],
+  ["gpt-4-turbo", 10, 30],
+  ["gpt-3.5-turbo", 0.5, 1.5],
+];
+// Unknown OpenAI models are priced high rather than free, so the budget still bites.
+const OPENAI_FALLBACK: [number, number] = [10, 30];
+
+/**
+ * What `usage` cost. LLM_PRICE_PER_MTOK ("input,output" in USD per million
+ * tokens) overrides the table; local servers (compatible) and the mock are
+ * free unless it's set.
+ */
+export function costOf(provider: string, model: string, usage: Usage): number {
+  const override = process.env.LLM_PRICE_PER_MTOK?.split(",").map((v) => Number(v.trim()));
+  let price: [number, number] = [0, 0];
+  if (override?.length === 2 && override.every((n) => Number.isFinite(n) && n >= 0)) {
+    price = [override[0], override[1]];
+  } else if (provider === "openai") {
+    const match = [...OPENAI_PRICES].sort((a, b) => b[0].length - a[0].length).find(([p]) => model.startsWith(p));
+    price = match ? [match[1], match[2]] : OPENAI_FALLBACK;
+  }
+  return (usage.promptTokens * price[0] + usage.completionTokens * price[1]) / 1_000_000;
+}
+
+function today(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function secondsToMidnightUtc(now = new Date()): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((midnight - now.getTime()) / 1000));
+}
+
+function emptyDay(date: string): UsageDay {
+  return { version: 1, date, completions: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, models: {} };
+}
+
+function isUsageDay(v: any): v is UsageDay {
+  return !!v && typeof v === "object" && v.version === 1 && typeof v.costUsd === "number" && !!v.models;
+}
+
+async function readDay(date: string): Promise<UsageDay> {
+  const doc = await readJson(getStorage(), `${USAGE_PREFIX}${date}.json`);
+  return isUsageDay(doc) ? doc : emptyDay(date);
+}
+
+const enqueue = createQueue();
+
+/** Add one completion's usage to today's totals. */
+export function recordUsage(provider: string, model: string, usage: Usage): Promise<void> {
+  return enqueue(async () => {
+    const day = await readDay(today());
+    const cost = costOf(provider, model, usage);
+    const key = `${provider}/${model}`;
+    const m = day.models[key] ?? { completions: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+    const next: UsageDay = {
+      ...day,
+      completions: day.completions + 1,
+      promptTokens: day.promptTokens + usage.promptTokens,
+      completionTokens: day.completionTokens + usage.completionTokens,
+      totalTokens: day.totalTokens + usage.totalTokens,
+      costUsd: day.costUsd + cost,
+      models: {
+        ...day.models,
+        [key]: {
+          completions: m.completions + 1,
+          promptTokens: m.promptTokens + usage.promptTokens,
+          completionTokens: m.completionTokens + usage.completionTokens,
+          costUsd: m.costUsd + cost,
+        },
+      },
+    };
+    await writeJson(getStorage(), `${USAGE_PREFIX}${day.date}.json`, next);
+  });
+}
+
+/** Today's totals and what's left of the budget, for the health payload. */
+export async function usageSummary(): Promise<UsageSummary> {
+  const day = await readDay(today());
+  const budgetUsd = limits().dailyBudgetUsd;
+  return { ...day, budgetUsd, remainingUsd: budgetUsd === null ? null : Math.max(0, budgetUsd - day.costUsd) };
+}
+
+/** QuotaError 429 once today's spend has reached GENERATE_DAILY_BUDGET_USD. */
+export async function checkBudget(): Promise<void> {
+  const { dailyBudgetUsd } = limits();
+  if (dailyBudgetUsd === null) return;
+  const day = await readDay(today());
+  if (day.costUsd >= dailyBudgetUsd) {
+    throw new QuotaError(
+      `Today's generation budget ($${dailyBudgetUsd.toFixed(2)}) is spent. It resets at midnight UTC.`,
+      429,
+      secondsToMidnightUtc()
+    );
+  }
+}
+
+/** Rate limit, then budget: everything a generate route checks before calling a model. */
+export async function enforceQuota(key: string): Promise<void> {
+  takeRateToken(key);
+  await checkBudget();
+}
+
+async function record(provider: LLMProvider, model: string, usage: Usage | undefined) {
+  if (!usage) return;
+  try {
+    await recordUsage(provider.name, model, usage);
+  } catch (e) {
+    logError("quota", "recording usage failed", e);
+  }
+}
+
+/**
+ * `provider`, checking the budget before every call and adding each
+ * completion's reported usage to today's totals: retries and failed attempts
+ * spend money too.
+ */
+export function metered(provider: LLMProvider): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(req: CompletionRequest) {
+      await checkBudget();
+      const completion = await provider.complete(req);
+      await record(provider, completion.model, completion.usage);
+      return completion;
+    },
+    async *stream(req: CompletionRequest): AsyncIterable<StreamChunk> {
+      await checkBudget();
+      for await (const chunk of provider.stream(req)) {
+        if ("usage" in chunk) await record(provider, provider.model, chunk.usage);
+        yield chunk;
+      }
+    },
+  };
+}
+
+/** The 429 for a QuotaError, with Retry-After. */
+export function quotaResponse(err: QuotaError): Response {
+  return Response.json(
+    { error: err.message, retryAfter: err.retryAfter },
+    { status: err.status, headers: { "Retry-After": String(err.retryAfter) } }
+  );
+}
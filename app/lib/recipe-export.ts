@@ -0,0 +1,170 @@
+// app/lib/recipe-export.ts
+import type { ArchiveItem } from "./store";
+import type { Recipe } from "./types";
+
+// Downloads for saved items, built from item.recipes (the structured data
+// parsed or produced at save time), never from the stored HTML:
+//   jsonld  schema.org Recipe, one object or an @graph of several
+//   md      Markdown for notes
+//   txt     plain text, short enough to paste into a message
+
+export type ExportFormat = "jsonld" | "md" | "txt";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; ext: string }> = {
+  jsonld: { contentType: "application/ld+json; charset=utf-8", ext: "jsonld" },
+  md: { contentType: "text/markdown; charset=utf-8", ext: "md" },
+  txt: { contentType: "text/plain; charset=utf-8", ext: "txt" },
+};
+
+export function isExportFormat(v: unknown): v is ExportFormat {
+  return typeof v === "string" && v in EXPORT_FORMATS;
+}
+
+/** A filesystem-friendly name for downloads of the item, without extension. */
+export function itemSlug(item: ArchiveItem): string {
+  const slug = item.title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || "recipe";
+}
+
+export function exportFilename(item: ArchiveItem, format: ExportFormat): string {
+  return `${itemSlug(item)}.${EXPORT_FORMATS[format].ext}`;
+}
+
+function recipesOf(item: ArchiveItem): Recipe[] {
+  return item.recipes ?? [];
+}
+
+/** "1 hr 5 min" (see recipe-import.ts) → "PT1H5M"; undefined when it isn't one. */
+export function isoDuration(text?: string): string | undefined {
+  if (!text) return undefined;
+  const m = /^\s*(?:(\d+)\s*(?:h|hr|hrs|hours?))?\s*(?:(\d+)\s*(?:m|min|mins|minutes?))?\s*$/i.exec(text);
+  if (!m || (!m[1] && !m[2])) return undefined;
+  return `PT${m[1] ? `${Number(m[1])}H` : ""}${m[2] ? `${Number(m[2])}M` : ""}`;
+}
+
+/** "Saturated fat" → "saturatedFatContent"; the reverse of the import's labels. */
+function nutritionKey(label: string): string {
+  const words = label.trim().toLowerCase().split(/\s+/);
+  const key = words.map((w, i) => (i ? w.charAt(0).toUpperCase() + w.slice(1) : w)).join("");
+  return key === "calories" || key === "servingSize" ? key : `${key}Content`;
+}
+
+/** Absolute image URL; our stored copies (/api/files/…) resolve against the page. */
+function imageUrl(src: string | null | undefined, pageUrl?: string): string | undefined {
+  if (!src) return undefined;
+  if (/^https?:\/\//i.test(src)) return src;
+  return src.startsWith("/") && pageUrl ? new URL(src, pageUrl).toString() : undefined;
+}
+
+function jsonLdRecipe(r: Recipe, item: ArchiveItem, pageUrl?: string) {
+  const out: Record<string, unknown> = {
+    "@type": "Recipe",
+    name: r.title,
+    author: r.author ? { "@type": "Person", name: r.author } : undefined,
+    description: r.description,
+    image: imageUrl(r.imageUrl, pageUrl),
+    recipeYield: r.yield,
+    prepTime: isoDuration(r.times?.prep),
+    cookTime: isoDuration(r.times?.cook),
+    totalTime: isoDuration(r.times?.total),
+    recipeIngredient: r.ingredients?.length ? r.ingredients : undefined,
+    recipeInstructions: r.steps?.length ? r.steps.map((text) => ({ "@type": "HowToStep", text })) : undefined,
+    nutrition: r.nutrition
+      ? {
+          "@type": "NutritionInformation",
+          ...Object.fromEntries(Object.entries(r.nutrition).map(([k, v]) => [nutritionKey(k), v])),
+        }
+      : undefined,
+    keywords: item.tags?.length ? item.tags.join(", ") : undefined,
+    datePublished: item.createdAt,
+    dateModified: item.updatedAt,
+    isBasedOn: r.sourceUrl,
+    url: pageUrl,
+  };
+  return Object.fromEntries(Object.entries(out).filter(([, v]) => v !== undefined));
+}
+
+/** `pageUrl` is where the item lives on this site, for the Recipe's `url`. */
+export function toJsonLd(item: ArchiveItem, pageUrl?: string): string {
+  const recipes = recipesOf(item).map((r) => jsonLdRecipe(r, item, pageUrl));
+  const doc =
+    recipes.length === 1
+      ? { "@context": "https://schema.org", ...recipes[0] }
+      : { "@context": "https://schema.org", "@graph": recipes };
+  return `${JSON.stringify(doc, null, 2)}\n`;
+}
+
+/** Escape what Markdown would otherwise read as inline formatting. */
+function md(s: string): string {
+  return s.replace(/([\\`*_[\]<>])/g, "\\$1");
+}
+
+/** A paragraph of its own: also keep a leading "#", "-" or "1." from starting a block. */
+function mdParagraph(s: string): string {
+  return md(s)
+    .replace(/^([#>+-])/, "\\$1")
+    .replace(/^(\d+)\.(\s)/, "$1\\.$2");
+}
+
+function details(r: Recipe): [string, string][] {
+  return [
+    ["Yield", r.yield],
+    ["Prep", r.times?.prep],
+    ["Cook", r.times?.cook],
+    ["Total", r.times?.total],
+  ].filter((d): d is [string, string] => !!d[1]);
+}
+
+export function toMarkdown(item: ArchiveItem): string {
+  const recipes = recipesOf(item);
+  const single = recipes.length === 1;
+  const h = single ? "#" : "##";
+  const out: string[] = [];
+  if (!single) {
+    out.push(`# ${md(item.title)}`, "");
+    if (item.description) out.push(mdParagraph(item.description), "");
+  }
+  for (const r of recipes) {
+    out.push(`${h} ${md(r.title)}`, "");
+    if (r.author) out.push(`*By ${md(r.author)}*`, "");
+    if (r.imageUrl && /^https?:\/\//i.test(r.imageUrl)) out.push(`![${md(r.title)}](<${r.imageUrl}>)`, "");
+    if (r.description) out.push(...r.description.split(/\n{2,}/).flatMap((p) => [mdParagraph(p.trim()), ""]));
+    const facts = details(r);
+    if (facts.length) out.push(facts.map(([k, v]) => `**${k}:** ${md(v)}`).join(" · "), "");
+    if (r.ingredients?.length) out.push(`${h}# Ingredients`, "", ...r.ingredients.map((i) => `- ${md(i)}`), "");
+    if (r.steps?.length) out.push(`${h}# Steps`, "", ...r.steps.map((s, i) => `${i + 1}. ${md(s)}`), "");
+    const nutrition = Object.entries(r.nutrition ?? {});
+    if (nutrition.length) out.push(`${h}# Nutrition`, "", ...nutrition.map(([k, v]) => `- ${md(k)}: ${md(v)}`), "");
+    if (r.sourceUrl) out.push(`[Original recipe](<${r.sourceUrl}>)`, "");
+  }
+  if (item.tags?.length) out.push(item.tags.map((t) => `#${t.replace(/\s+/g, "-")}`).join(" "), "");
+  return `${out.join("\n").trim()}\n`;
+}
+
+export function toPlainText(item: ArchiveItem): string {
+  const recipes = recipesOf(item);
+  const blocks = recipes.map((r) => {
+    const out = [r.title.toUpperCase()];
+    if (r.author) out.push(`by ${r.author}`);
+    const facts = details(r);
+    if (facts.length) out.push(facts.map(([k, v]) => `${k}: ${v}`).join(" | "));
+    if (r.ingredients?.length) out.push("", "Ingredients:", ...r.ingredients.map((i) => `- ${i}`));
+    if (r.steps?.length) out.push("", "Steps:", ...r.steps.map((s, i) => `${i + 1}. ${s}`));
+    if (r.sourceUrl) out.push("", r.sourceUrl);
+    return out.join("\n");
+  });
+  if (!blocks.length) blocks.push([item.title.toUpperCase(), item.description].filter(Boolean).join("\n"));
+  return `${blocks.join("\n\n---\n\n")}\n`;
+}
+
+export function exportItem(item: ArchiveItem, format: ExportFormat, pageUrl?: string): string {
+  if (format === "jsonld") return toJsonLd(item, pageUrl);
+  if (format === "md") return toMarkdown(item);
+  return toPlainText(item);
+}
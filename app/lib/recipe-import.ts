@@ -0,0 +1,237 @@
+// app/lib/recipe-import.ts
+import { parseDocument, DomUtils } from "htmlparser2";
+import { safeFetch, SafeFetchError } from "@/lib/safe-fetch";
+import { esc, recipeSections, renderRecipesDocument } from "./recipe-render";
+import type { Recipe } from "./types";
+
+// Import a recipe from its page's schema.org/Recipe JSON-LD, no model
+// involved. The page is fetched through lib/safe-fetch.ts, like the image
+// proxy. Sites nest the Recipe in all sorts of ways (arrays, @graph,
+// mainEntity, WebPage wrappers), and fill its fields with strings, objects
+// or arrays of either; everything here is defensive about both.
+
+export class ImportError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export type ImportedRecipe = {
+  recipe: Recipe;
+  /** Rendered with recipe-render.ts, ready to save */
+  html: string;
+  /** The page that answered, after redirects */
+  url: string;
+};
+
+type StepGroup = { name?: string; steps: string[] };
+
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+function isRecipe(node: any): boolean {
+  const t = node?.["@type"];
+  return t === "Recipe" || (Array.isArray(t) && t.includes("Recipe"));
+}
+
+/** Some CMSs leave raw newlines and tabs inside JSON strings; escape them there. */
+function escapeControlChars(json: string): string {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < json.length; i++) {
+    const c = json[i];
+    if (inString && c === "\\") {
+      out += c + (json[++i] ?? "");
+      continue;
+    }
+    if (c === '"') inString = !inString;
+    out += inString && c < " " ? `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}` : c;
+  }
+  return out;
+}
+
+/** Every schema.org Recipe in a page's JSON-LD blocks, in document order. */
+export function findJsonLdRecipes(html: string): any[] {
+  const scripts = DomUtils.findAll(
+    (el) => el.name === "script" && /^application\/ld\+json$/i.test((el.attribs.type || "").trim()),
+    parseDocument(html).children
+  );
+  const found: any[] = [];
+  const seen = new Set<any>();
+  const visit = (node: any, depth: number) => {
+    if (!node || typeof node !== "object" || depth > 6 || seen.has(node)) return;
+    seen.add(node);
+    if (Array.isArray(node)) return node.forEach((n) => visit(n, depth + 1));
+    if (isRecipe(node)) found.push(node);
+    for (const key of ["@graph", "mainEntity", "mainEntityOfPage", "itemListElement", "item"]) visit(node[key], depth + 1);
+  };
+  for (const s of scripts) {
+    const raw = DomUtils.textContent(s).trim();
+    try {
+      visit(JSON.parse(raw), 0);
+    } catch {
+      try {
+        visit(JSON.parse(escapeControlChars(raw)), 0);
+      } catch {}
+    }
+  }
+  return found;
+}
+
+/** Plain text from a JSON-LD string, which may carry markup and entities. */
+function text(v: unknown): string {
+  if (typeof v === "number") return String(v);
+  if (typeof v !== "string") return "";
+  const t = /[<&]/.test(v) ? DomUtils.textContent(parseDocument(v)) : v;
+  return t.replace(/\s+/g, " ").trim();
+}
+
+function first(v: unknown): unknown {
+  return Array.isArray(v) ? v[0] : v;
+}
+
+function names(v: unknown): string[] {
+  const list = Array.isArray(v) ? v : v == null ? [] : [v];
+  return list.map((x: any) => text(typeof x === "object" ? x?.name : x)).filter(Boolean);
+}
+
+function imageUrl(v: unknown, base: string): string | null {
+  const x: any = first(v);
+  const raw = typeof x === "string" ? x : typeof x?.url === "string" ? x.url : typeof x?.contentUrl === "string" ? x.contentUrl : "";
+  if (!raw) return null;
+  try {
+    const u = new URL(raw, base);
+    return u.protocol === "http:" || u.protocol === "https:" ? u.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** "PT1H30M" → "1 hr 30 min"; anything else is passed through as text. */
+export function formatDuration(v: unknown): string | undefined {
+  const s = text(v);
+  const m = /^P(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+)S)?)?$/i.exec(s);
+  if (!m) return s || undefined;
+  const minutes = Number(m[1] ?? 0) * 1440 + Number(m[2] ?? 0) * 60 + Number(m[3] ?? 0) + Math.round(Number(m[4] ?? 0) / 60);
+  if (!minutes) return undefined;
+  const h = Math.floor(minutes / 60);
+  const min = Math.round(minutes % 60);
+  return [h ? `${h} hr` : "", min ? `${min} min` : ""].filter(Boolean).join(" ");
+}
+
+function recipeYield(v: unknown): string | undefined {
+  const list = (Array.isArray(v) ? v : [v]).map(text).filter(Boolean);
+  // ["4", "4 servings"]: the one with a unit says more.
+  const best = list.find((y) => /\D/.test(y)) ?? list[0];
+  if (!best) return undefined;
+  return /^\d+$/.test(best) ? `${best} servings` : best;
+}
+
+/** "saturatedFatContent" → "Saturated fat" */
+function nutritionLabel(key: string): string {
+  const words = key.replace(/Content$/, "").replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function nutrition(v: unknown): Record<string, string> | undefined {
+  const n: any = first(v);
+  if (!n || typeof n !== "object") return undefined;
+  const out: Record<string, string> = {};
+  for (const [k, val] of Object.entries(n)) {
+    if (k.startsWith("@")) continue;
+    const t = text(val);
+    if (t) out[nutritionLabel(k)] = t;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+/** recipeInstructions in any of its shapes, grouped by HowToSection. */
+function instructions(v: unknown): StepGroup[] {
+  const groups: StepGroup[] = [{ steps: [] }];
+  const add = (node: any, depth: number) => {
+    if (node == null || depth > 5) return;
+    if (typeof node === "string") {
+      // One string: either a single step or several separated by newlines or <p>/<li>.
+      const doc = parseDocument(node);
+      const items = DomUtils.findAll((el) => el.name === "li" || el.name === "p", doc.children).map((el) => text(DomUtils.textContent(el)));
+      const parts = items.length ? items : node.split(/\n+|\r+/).map(text);
+      groups[groups.length - 1].steps.push(...parts.filter(Boolean));
+      return;
+    }
+    if (Array.isArray(node)) return node.forEach((n) => add(n, depth + 1));
+    const type = Array.isArray(node["@type"]) ? node["@type"] : [node["@type"]];
+    if (type.includes("HowToSection")) {
+      groups.push({ name: text(node.name) || undefined, steps: [] });
+      add(node.itemListElement, depth + 1);
+      groups.push({ steps: [] });
+      return;
+    }
+    if (type.includes("ItemList")) return add(node.itemListElement, depth + 1);
+    const step = text(node.text) || text(node.name) || text(node.description);
+    if (step) groups[groups.length - 1].steps.push(step);
+  };
+  add(v, 0);
+  return groups.filter((g) => g.steps.length);
+}
+
+function stepsHtml(groups: StepGroup[]): string {
+  return groups
+    .map((g) => {
+      const list = `<ol>\n${g.steps.map((s) => `<li>${esc(s)}</li>`).join("\n")}\n</ol>`;
+      return g.name ? `<h4>${esc(g.name)}</h4>\n${list}` : list;
+    })
+    .join("\n");
+}
+
+/** Map one JSON-LD Recipe onto our Recipe; `base` resolves relative URLs. */
+export function recipeFromJsonLd(node: any, base: string): Recipe {
+  const groups = instructions(node.recipeInstructions);
+  const times = {
+    prep: formatDuration(node.prepTime),
+    cook: formatDuration(node.cookTime),
+    total: formatDuration(node.totalTime),
+  };
+  const recipe: Recipe = {
+    id: 1,
+    title: text(node.name) || text(node.headline) || "Imported recipe",
+    author: names(node.author).join(", ") || undefined,
+    description: text(node.description) || undefined,
+    ingredients: (Array.isArray(node.recipeIngredient) ? node.recipeIngredient : [node.recipeIngredient ?? node.ingredients])
+      .flat()
+      .map(text)
+      .filter(Boolean),
+    steps: groups.flatMap((g) => g.steps),
+    imageUrl: imageUrl(node.image ?? node.thumbnailUrl, base),
+    sourceUrl: base,
+    yield: recipeYield(node.recipeYield ?? node.yield),
+    times: times.prep || times.cook || times.total ? times : undefined,
+    nutrition: nutrition(node.nutrition),
+    sections: [],
+  };
+  recipe.sections = recipeSections(recipe).map((s) =>
+    // Keep HowToSection headings ("For the sauce") that a flat list loses.
+    s.heading === "Steps" && groups.some((g) => g.name) ? { ...s, html: stepsHtml(groups) } : s
+  );
+  return recipe;
+}
+
+/**
+ * Fetch `url` and import the first Recipe in its JSON-LD. Throws
+ * SafeFetchError for fetch trouble and ImportError 422 when the page has no
+ * usable Recipe.
+ */
+export async function importRecipe(url: string, opts: { signal?: AbortSignal } = {}): Promise<ImportedRecipe> {
+  const res = await safeFetch(url, {
+    maxBytes: MAX_PAGE_BYTES,
+    signal: opts.signal,
+    headers: { accept: "text/html,application/xhtml+xml" },
+  });
+  if (res.status < 200 || res.status >= 300) throw new SafeFetchError(`Upstream ${res.status}`, 502);
+
+  const node = findJsonLdRecipes(res.body.toString("utf8"))[0];
+  if (!node) throw new ImportError("No schema.org Recipe found on that page", 422);
+  const recipe = recipeFromJsonLd(node, res.url);
+  if (!recipe.ingredients?.length && !recipe.steps?.length) {
+    throw new ImportError("The page's Recipe has no ingredients or instructions", 422);
+  }
+  return { recipe, html: renderRecipesDocument([recipe], recipe.title), url: res.url };
+}
@@ -0,0 +1,91 @@
+// app/lib/recipe-parse.test.ts
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { parseRecipesFromHtml, recipeSummary } from "./recipe-parse";
+
+// Fixtures follow the section layout app/prompt/system-prompt.txt asks for
+// (Title, Chef & Background, Description, Ingredients, Steps, Image), in the
+// shapes models actually write it.
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, "__fixtures__/recipe-parse", name), "utf8");
+}
+
+describe("parseRecipesFromHtml", () => {
+  it("reads one recipe per <article> with every prompt section", () => {
+    const [cacio, shakshuka, ...rest] = parseRecipesFromHtml(fixture("articles.html"));
+    expect(rest).toEqual([]);
+
+    expect(cacio).toMatchObject({
+      id: "cacio-e-pepe",
+      title: "Cacio e Pepe",
+      author: "Marcella Hazan",
+      authorBio: "Marcella Hazan was an Italian cookbook writer who taught generations of Americans to cook.",
+      description: "A Roman pasta of pecorino and black pepper.\n\nThe sauce is nothing but cheese, pepper and starchy water.",
+      ingredients: ["200 g spaghetti", "100 g Pecorino Romano, finely grated", "2 tsp black pepper, coarsely ground"],
+      steps: [
+        "Boil the spaghetti in lightly salted water.",
+        "Toast the pepper in a dry pan.",
+        "Toss the pasta with the cheese and a splash of pasta water until creamy.",
+      ],
+      imageUrl: "https://images.example.com/cacio.jpg",
+    });
+    expect(cacio.sections.map((s) => s.heading)).toEqual(["Chef & Background", "Description", "Ingredients", "Steps", "Image"]);
+    expect(cacio.sections[2].html).toContain("<li>200 g spaghetti</li>");
+
+    // No Image section: the prompt allows leaving it out.
+    expect(shakshuka).toMatchObject({
+      id: "shakshuka",
+      author: "Yotam Ottolenghi",
+      steps: ["Simmer the sauce for 10 minutes.", "Crack in the eggs and cover until set."],
+      imageUrl: null,
+    });
+  });
+
+  it("splits a container-less body on title headings", () => {
+    const [minestrone, ribollita, ...rest] = parseRecipesFromHtml(fixture("headings.html"));
+    expect(rest).toEqual([]);
+
+    expect(minestrone).toMatchObject({
+      id: "minestrone",
+      title: "Minestrone",
+      author: "Chef Anna Rossi",
+      description: "A thrifty vegetable soup that changes with the season.",
+      ingredients: ["1 onion", "2 carrots", "1 litre stock"],
+      steps: ["Sweat the onion and carrots.", "Add the stock and simmer for 20 minutes."],
+      imageUrl: null,
+    });
+    // "Notes" at title level stays with the recipe above it.
+    expect(minestrone.sections.map((s) => s.heading)).toEqual(["Ingredients", "Method", "Notes"]);
+
+    // Same title twice gets a distinct id; only absolute image URLs count.
+    expect(ribollita).toMatchObject({
+      id: "minestrone-2",
+      ingredients: ["Leftover minestrone", "Stale bread"],
+      steps: ["Layer the bread and soup.", "Bake until crisp on top."],
+      imageUrl: "http://images.example.com/ribollita.jpg",
+    });
+  });
+
+  it("finds schema.org Recipe containers and varied section wording", () => {
+    const [dal] = parseRecipesFromHtml(fixture("microdata.html"));
+    expect(dal).toMatchObject({
+      id: "dal",
+      author: "Meera Sodha",
+      ingredients: ["200 g red lentils", "1 tsp turmeric"],
+      steps: ["Rinse the lentils.", "Simmer with the turmeric until soft."],
+    });
+  });
+
+  it("returns [] for nothing recipe-shaped", () => {
+    expect(parseRecipesFromHtml("")).toEqual([]);
+    expect(parseRecipesFromHtml("<p>Sorry, I couldn't find that recipe.</p>")).toEqual([]);
+  });
+});
+
+describe("recipeSummary", () => {
+  it("is the first recipe's lead paragraph", () => {
+    expect(recipeSummary(parseRecipesFromHtml(fixture("articles.html")))).toBe("A Roman pasta of pecorino and black pepper.");
+    expect(recipeSummary([])).toBe("");
+  });
+});
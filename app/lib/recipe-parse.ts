@@ -0,0 +1,284 @@
+// app/lib/recipe-parse.ts
+import { parseDocument, DomUtils } from "htmlparser2";
+import { isTag, isText, type AnyNode, type Element } from "domhandler";
+import type { Recipe, Section } from "./types";
+
+// Turns the HTML document the model writes (see app/prompt/system-prompt.txt)
+// into structured recipes. The prompt asks for one block per recipe with the
+// sections Title, Chef & Background, Description, Ingredients, Steps, Image,
+// but models vary the markup a lot, so everything here is heuristic:
+//   1. find one container per recipe (<article>, .recipe, itemtype=Recipe),
+//      or fall back to splitting the whole body on title headings;
+//   2. flatten each container into block "units" (headings, lists, paragraphs, figures);
+//   3. the first heading is the title, later headings open sections that are
+//      classified by their wording.
+
+type SectionKind = "chef" | "description" | "ingredients" | "steps" | "image" | "other";
+
+type Unit = { node: AnyNode; heading?: { level: number; text: string } };
+
+type Chunk = { title: string; preamble: Unit[]; sections: { heading: string; kind: SectionKind; units: Unit[] }[] };
+
+// Elements kept whole when flattening; everything else is descended into.
+const BLOCKS = new Set([
+  "p", "ul", "ol", "dl", "figure", "img", "picture", "table", "blockquote", "pre",
+]);
+const SKIP = new Set(["head", "style", "script", "noscript", "template", "svg", "nav"]);
+const RECIPE_CLASSES = new Set(["recipe", "recipe-card", "recipe-item", "recipe-block", "recipe-article"]);
+
+function clean(s: string): string {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+function text(node: AnyNode | AnyNode[]): string {
+  return clean(DomUtils.textContent(node));
+}
+
+function headingLevel(el: Element): number {
+  const m = /^h([1-6])$/.exec(el.name);
+  return m ? Number(m[1]) : 0;
+}
+
+function classify(heading: string): SectionKind {
+  const h = heading.toLowerCase();
+  if (/ingredient/.test(h)) return "ingredients";
+  if (/step|instruction|method|direction|preparation/.test(h)) return "steps";
+  if (/chef|background|author|\bcook\b/.test(h)) return "chef";
+  if (/description|about|history|story|overview|introduction/.test(h)) return "description";
+  if (/image|photo|picture/.test(h)) return "image";
+  return "other";
+}
+
+function flatten(nodes: AnyNode[], out: Unit[] = []): Unit[] {
+  for (const node of nodes) {
+    if (isText(node)) {
+      if (clean(node.data)) out.push({ node });
+      continue;
+    }
+    if (!isTag(node) || SKIP.has(node.name)) continue;
+    const level = headingLevel(node);
+    if (level) {
+      const t = text(node);
+      if (t) out.push({ node, heading: { level, text: t } });
+    } else if (BLOCKS.has(node.name)) {
+      out.push({ node });
+    } else {
+      flatten(node.children, out);
+    }
+  }
+  return out;
+}
+
+function isRecipeContainer(el: Element): boolean {
+  if (el.name === "article") return true;
+  if (/schema\.org\/Recipe/i.test(el.attribs.itemtype || "")) return true;
+  return (el.attribs.class || "").split(/\s+/).some((c) => RECIPE_CLASSES.has(c.toLowerCase()));
+}
+
+/** Innermost recipe containers that carry at least one heading. */
+function findContainers(root: AnyNode[]): Element[] {
+  const all = DomUtils.findAll(isRecipeContainer, root);
+  return all.filter(
+    (el) =>
+      !DomUtils.existsOne((inner) => inner !== el && isRecipeContainer(inner), el.children) &&
+      DomUtils.existsOne((h) => headingLevel(h) > 0, el.children)
+  );
+}
+
+function toChunk(units: Unit[]): Chunk | null {
+  const start = units.findIndex((u) => u.heading);
+  if (start < 0) return null;
+  const chunk: Chunk = { title: units[start].heading!.text, preamble: [], sections: [] };
+  for (const u of units.slice(start + 1)) {
+    if (u.heading) {
+      chunk.sections.push({ heading: u.heading.text, kind: classify(u.heading.text), units: [] });
+    } else if (chunk.sections.length) {
+      chunk.sections[chunk.sections.length - 1].units.push(u);
+    } else {
+      chunk.preamble.push(u);
+    }
+  }
+  return chunk;
+}
+
+/**
+ * No recipe containers: split the body on the shallowest heading level that
+ * isn't a known section name. A lone <h1> above deeper titles is the page title.
+ */
+function splitByHeadings(units: Unit[]): Chunk[] {
+  const titles = (level: number) =>
+    units.filter((u) => u.heading?.level === level && classify(u.heading.text) === "other");
+  let level = 0;
+  for (let l = 1; l <= 6; l++) {
+    const found = titles(l);
+    if (!found.length) continue;
+    const deeper = [l + 1, l + 2, l + 3].some((d) => titles(d).length > 0);
+    if (l === 1 && found.length === 1 && deeper) continue;
+    level = l;
+    break;
+  }
+  if (!level) return [];
+
+  const chunks: Chunk[] = [];
+  let current: Unit[] | null = null;
+  const flush = () => {
+    const c = current && toChunk(current);
+    if (!c) return;
+    const substantive = c.sections.some((s) => s.kind === "ingredients" || s.kind === "steps");
+    const prev = chunks[chunks.length - 1];
+    // A stray heading like "Notes" at title level belongs to the recipe above it.
+    if (!substantive && prev) {
+      prev.sections.push({ heading: c.title, kind: "other", units: c.preamble });
+      prev.sections.push(...c.sections);
+    } else {
+      chunks.push(c);
+    }
+  };
+  for (const u of units) {
+    if (u.heading?.level === level && classify(u.heading.text) === "other") {
+      flush();
+      current = [u];
+    } else if (current) {
+      current.push(u);
+    }
+  }
+  flush();
+  return chunks;
+}
+
+function listItems(units: Unit[]): string[] {
+  const out: string[] = [];
+  for (const u of units) {
+    if (!isTag(u.node)) continue;
+    for (const li of DomUtils.findAll((el) => el.name === "li", [u.node])) {
+      // Skip wrappers of nested lists; their children are collected on their own.
+      if (DomUtils.existsOne((el) => el.name === "li", li.children)) continue;
+      const t = text(li);
+      if (t) out.push(t);
+    }
+  }
+  return out;
+}
+
+/** Lines of a list-less section: one per paragraph, split on <br>. */
+function lines(units: Unit[]): string[] {
+  const out: string[] = [];
+  for (const u of units) {
+    if (isTag(u.node) && (u.node.name === "figure" || u.node.name === "img" || u.node.name === "picture")) continue;
+    const html = isTag(u.node) ? DomUtils.getInnerHTML(u.node) : DomUtils.getOuterHTML(u.node);
+    for (const part of html.split(/<br\s*\/?>/i)) {
+      const t = text(parseDocument(part).children);
+      if (t) out.push(t);
+    }
+  }
+  return out;
+}
+
+function paragraphs(units: Unit[]): string {
+  return units
+    .filter((u) => !isTag(u.node) || !["figure", "img", "picture"].includes(u.node.name))
+    .map((u) => text(u.node))
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function stripStepNumber(s: string): string {
+  return s.replace(/^(?:step\s*)?\d+\s*[.):\-–—]\s*/i, "").trim();
+}
+
+function firstImage(units: Unit[]): string | null {
+  for (const u of units) {
+    if (!isTag(u.node)) continue;
+    const imgs = u.node.name === "img" ? [u.node] : DomUtils.findAll((el) => el.name === "img", [u.node]);
+    for (const img of imgs) {
+      const src = (img.attribs.src || "").trim();
+      if (/^https?:\/\//i.test(src)) return src;
+    }
+  }
+  return null;
+}
+
+/** Pull a chef name out of a byline ("By Chef Jane Doe") or a bio's lead-in. */
+function chefName(units: Unit[]): string | undefined {
+  for (const u of units) {
+    if (!isTag(u.node)) continue;
+    const strong = DomUtils.findOne((el) => ["strong", "b", "cite"].includes(el.name), [u.node]);
+    if (strong && text(strong)) return text(strong).replace(/[:,.]$/, "");
+  }
+  const first = units.map((u) => text(u.node)).find(Boolean);
+  if (!first) return undefined;
+  const lead = first.replace(/^(?:by|chef)\s*:?\s+/i, "").split(/\s[—–-]\s|[,.;:(]/)[0].trim();
+  return lead && lead.length <= 60 ? lead : undefined;
+}
+
+function byline(units: Unit[]): string | undefined {
+  for (const u of units) {
+    const t = text(u.node);
+    const m = /^(?:by|recipe by|chef)\s*:?\s+(.{2,60}?)(?:[,.;]|$)/i.exec(t);
+    if (m) return m[1].trim();
+  }
+  return undefined;
+}
+
+function slugify(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+function toRecipe(chunk: Chunk, id: string): Recipe {
+  const of = (kind: SectionKind) => chunk.sections.filter((s) => s.kind === kind).flatMap((s) => s.units);
+  const chef = of("chef");
+  const ingredientUnits = of("ingredients");
+  const stepUnits = of("steps");
+
+  const ingredients = listItems(ingredientUnits);
+  const steps = listItems(stepUnits);
+  const description = paragraphs(of("description")) || paragraphs(chunk.preamble.filter((u) => !byline([u])));
+
+  const sections: Section[] = chunk.sections.map((s) => ({
+    heading: s.heading,
+    html: s.units.map((u) => DomUtils.getOuterHTML(u.node)).join("\n"),
+  }));
+
+  const recipe: Recipe = {
+    id,
+    title: chunk.title,
+    author: byline(chunk.preamble) ?? chefName(chef),
+    authorBio: paragraphs(chef) || undefined,
+    description: description || undefined,
+    ingredients: ingredients.length ? ingredients : lines(ingredientUnits),
+    steps: (steps.length ? steps : lines(stepUnits)).map(stripStepNumber).filter(Boolean),
+    imageUrl: firstImage(of("image")) ?? firstImage(chunk.preamble) ?? firstImage(chunk.sections.flatMap((s) => s.units)),
+    sections,
+  };
+  return recipe;
+}
+
+/**
+ * Parse a generated HTML document into recipes.
+ * Returns [] when nothing recipe-shaped is found; never throws.
+ */
+export function parseRecipesFromHtml(html: string): Recipe[] {
+  if (!html || !html.trim()) return [];
+  const doc = parseDocument(html);
+  const body = DomUtils.findOne((el) => el.name === "body", doc.children);
+  const root = body ? body.children : doc.children;
+
+  const containers = findContainers(root);
+  const chunks = containers.length
+    ? containers.map((c) => toChunk(flatten(c.children))).filter((c): c is Chunk => !!c)
+    : splitByHeadings(flatten(root));
+
+  const seen = new Map<string, number>();
+  return chunks.map((chunk, i) => {
+    const base = slugify(chunk.title) || String(i + 1);
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    return toRecipe(chunk, n > 1 ? `${base}-${n}` : base);
+  });
+}
+
+/** One-paragraph blurb for archive listings: the first recipe's lead paragraph. */
+export function recipeSummary(recipes: Recipe[]): string {
+  const first = recipes[0]?.description?.split(/\n{2,}/)[0] ?? "";
+  return first.length > 200 ? `${first.slice(0, 197)}…` : first;
+}
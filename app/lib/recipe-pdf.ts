@@ -0,0 +1,347 @@
+// app/lib/recipe-pdf.ts
+import PDFDocument from "pdfkit";
+import sharp from "sharp";
+import { getStorage } from "@/lib/storage";
+import { proxyImage } from "./image-proxy";
+import { htmlText } from "./search";
+import type { ArchiveItem } from "./store";
+import type { Recipe } from "./types";
+
+// PDFs of saved items, laid out here with pdfkit rather than by printing a
+// page, so there's no browser involved and no app chrome to hide. Like the
+// text exports (recipe-export.ts) they are built from item.recipes.
+//
+// One item: its recipes, each starting on a new page. Several: a cookbook
+// with a cover, a table of contents (linked, and mirrored in the PDF
+// outline), then every item's recipes. Pages are numbered in the footer.
+//
+// The built-in PDF fonts only cover Latin-1 and a little more. PDF_FONT and
+// PDF_FONT_BOLD (paths to TTF/OTF files) swap in fonts that cover whatever
+// the recipes are written in; without them, characters outside that set are
+// approximated or replaced.
+
+export type PdfOptions = {
+  /** Cookbook title; a single item uses its own */
+  title?: string;
+  size?: "A4" | "LETTER";
+  /** Embed recipe photos (default true) */
+  images?: boolean;
+};
+
+/** Items per cookbook; the route enforces it. */
+export const MAX_PDF_ITEMS = 100;
+
+const MARGIN = 56;
+const INK = "#1f2328";
+const MUTED = "#6b6f76";
+const ACCENT = "#b5532c";
+const RULE = "#e7e3dc";
+const TOC_LINE = 20;
+const IMAGE_HEIGHT = 230;
+const MAX_IMAGES = 100;
+
+type Fonts = { heading: string; body: string; bold: string; italic: string; unicode: boolean };
+type TocEntry = { title: string; dest: string; page: number; level: 0 | 1 };
+
+// Characters the standard fonts lack, spelled with ones they have.
+const FALLBACKS: Record<string, string> = {
+  "⅓": "1/3", "⅔": "2/3", "⅕": "1/5", "⅙": "1/6", "⅛": "1/8", "⅜": "3/8", "⅝": "5/8", "⅞": "7/8",
+  "⁄": "/", "−": "-", "→": "->", "←": "<-", "≈": "~", "≤": "<=", "≥": ">=",
+  "\u2009": " ", "\u200a": " ", "\u202f": " ",
+};
+// Latin-1 plus the WinAnsi extras (curly quotes, dashes, bullet, ellipsis, €, ™, …).
+const WIN_ANSI = /[^\n\x20-\x7e\xa0-\xffŒœŠšŸŽžƒˆ˜–—‘-‚“-„†-•…‰‹›€™]/g;
+
+function registerFonts(doc: PDFKit.PDFDocument): Fonts {
+  const regular = process.env.PDF_FONT?.trim();
+  if (regular) {
+    doc.registerFont("custom", regular);
+    doc.registerFont("custom-bold", process.env.PDF_FONT_BOLD?.trim() || regular);
+    return { heading: "custom-bold", body: "custom", bold: "custom-bold", italic: "custom", unicode: true };
+  }
+  return { heading: "Times-Bold", body: "Helvetica", bold: "Helvetica-Bold", italic: "Helvetica-Oblique", unicode: false };
+}
+
+function makeText(fonts: Fonts) {
+  return (s: string) => {
+    const t = s.normalize("NFC");
+    if (fonts.unicode) return t;
+    return t.replace(/[⅓⅔⅕⅙⅛⅜⅝⅞⁄−→←≈≤≥\u2009\u200a\u202f]/g, (c) => FALLBACKS[c]).replace(WIN_ANSI, "?");
+  };
+}
+
+/** Recipe photos as JPEG, keyed by their URL; ones that can't be had are left out. */
+async function loadImages(items: ArchiveItem[]): Promise<Map<string, Buffer>> {
+  const urls = Array.from(
+    new Set(items.flatMap((i) => (i.recipes ?? []).map((r) => r.imageUrl ?? "")).filter(Boolean))
+  ).slice(0, MAX_IMAGES);
+  const out = new Map<string, Buffer>();
+  await Promise.all(
+    urls.map(async (url) => {
+      try {
+        // Our stored copies (image-store.ts) work offline; anything else goes through the proxy's cache.
+        const stored = /^\/api\/files\/((?:users\/[^/]+\/)?images\/[^?#]+)$/.exec(url);
+        const bytes = stored
+          ? await getStorage().get(stored[1])
+          : /^https?:\/\//i.test(url)
+            ? await proxyImage(url, { fetchOptions: { timeoutMs: 5000 } }).then((r) => (r.status === 200 ? r.body : null))
+            : null;
+        if (!bytes) return;
+        // pdfkit only embeds JPEG and PNG; one format keeps it simple.
+        out.set(url, await sharp(bytes).rotate().resize({ width: 1200, withoutEnlargement: true }).flatten({ background: "#ffffff" }).jpeg({ quality: 80 }).toBuffer());
+      } catch {}
+    })
+  );
+  return out;
+}
+
+class Layout {
+  readonly t: (s: string) => string;
+
+  constructor(readonly doc: PDFKit.PDFDocument, readonly fonts: Fonts) {
+    this.t = makeText(fonts);
+  }
+
+  get contentWidth() {
+    return this.doc.page.width - 2 * MARGIN;
+  }
+
+  /** Start a new page unless `needed` points still fit on this one. */
+  ensure(needed: number) {
+    if (this.doc.y + needed > this.doc.page.height - MARGIN) this.doc.addPage();
+  }
+
+  label(s: string) {
+    this.ensure(60);
+    this.doc.moveDown(0.8);
+    this.doc.font(this.fonts.bold).fontSize(9).fillColor(ACCENT).text(this.t(s.toUpperCase()), { characterSpacing: 1.4 });
+    this.doc.moveDown(0.3).fillColor(INK);
+  }
+
+  para(s: string, opts: { size?: number; font?: string; color?: string; align?: "left" | "center" } = {}) {
+    this.doc
+      .font(opts.font ?? this.fonts.body)
+      .fontSize(opts.size ?? 11)
+      .fillColor(opts.color ?? INK)
+      .text(this.t(s), { width: this.contentWidth, lineGap: 2, paragraphGap: 6, align: opts.align });
+  }
+
+  list(items: string[], numbered: boolean) {
+    this.doc.font(this.fonts.body).fontSize(11).fillColor(INK);
+    this.doc.list(items.map(this.t), {
+      listType: numbered ? "numbered" : "bullet",
+      bulletRadius: 2,
+      textIndent: numbered ? 18 : 12,
+      lineGap: 2,
+      paragraphGap: numbered ? 5 : 2,
+      width: this.contentWidth,
+    });
+  }
+
+  rule() {
+    const y = this.doc.y + 4;
+    this.doc.moveTo(MARGIN, y).lineTo(MARGIN + this.contentWidth, y).lineWidth(0.5).strokeColor(RULE).stroke();
+    this.doc.y = y + 8;
+  }
+}
+
+function details(r: Recipe): string {
+  return [
+    r.yield ? `Yield ${r.yield}` : "",
+    r.times?.prep ? `Prep ${r.times.prep}` : "",
+    r.times?.cook ? `Cook ${r.times.cook}` : "",
+    r.times?.total ? `Total ${r.times.total}` : "",
+  ]
+    .filter(Boolean)
+    .join("   ·   ");
+}
+
+function renderRecipe(l: Layout, r: Recipe, images: Map<string, Buffer>, from?: string) {
+  const { doc, fonts } = l;
+  if (from) l.para(from, { size: 9, color: MUTED });
+  doc.font(fonts.heading).fontSize(26).fillColor(INK).text(l.t(r.title), { width: l.contentWidth });
+  if (r.author) l.para(`By ${r.author}`, { font: fonts.italic, color: MUTED });
+
+  const photo = r.imageUrl ? images.get(r.imageUrl) : undefined;
+  if (photo) {
+    doc.moveDown(0.5);
+    doc.image(photo, MARGIN, doc.y, { fit: [l.contentWidth, IMAGE_HEIGHT], align: "center" });
+    doc.y += IMAGE_HEIGHT + 8;
+  }
+  const facts = details(r);
+  if (facts) {
+    doc.moveDown(0.4);
+    l.para(facts, { size: 10, color: MUTED });
+  }
+  l.rule();
+  for (const p of (r.description ?? "").split(/\n{2,}/).map((s) => s.trim()).filter(Boolean)) l.para(p);
+
+  const structured = !!(r.ingredients?.length || r.steps?.length);
+  if (r.ingredients?.length) {
+    l.label("Ingredients");
+    l.list(r.ingredients, false);
+  }
+  if (r.steps?.length) {
+    l.label("Steps");
+    l.list(r.steps, true);
+  }
+  if (!structured) {
+    // Free-form recipes: their sections as text.
+    for (const s of r.sections) {
+      const text = htmlText(s.html);
+      if (!text) continue;
+      l.label(s.heading);
+      for (const p of text.split(/\n+/)) l.para(p);
+    }
+  }
+  const nutrition = Object.entries(r.nutrition ?? {});
+  if (nutrition.length) {
+    l.label("Nutrition (per serving)");
+    l.para(nutrition.map(([k, v]) => `${k} ${v}`).join("   ·   "), { size: 10 });
+  }
+  if (r.sourceUrl && /^https?:\/\//i.test(r.sourceUrl)) {
+    doc.moveDown(0.6);
+    doc.font(fonts.body).fontSize(9).fillColor(ACCENT).text(l.t(`Original recipe: ${r.sourceUrl}`), { link: r.sourceUrl, width: l.contentWidth });
+  }
+}
+
+function renderItem(l: Layout, item: ArchiveItem, index: number, toc: TocEntry[], images: Map<string, Buffer>) {
+  const { doc } = l;
+  const recipes = item.recipes ?? [];
+  const page = () => doc.bufferedPageRange().start + doc.bufferedPageRange().count - 1;
+
+  if (!recipes.length) {
+    doc.addPage();
+    const dest = `item-${index}`;
+    doc.addNamedDestination(dest);
+    toc.push({ title: item.title, dest, page: page(), level: 0 });
+    doc.outline.addItem(l.t(item.title));
+    doc.font(l.fonts.heading).fontSize(26).fillColor(INK).text(l.t(item.title), { width: l.contentWidth });
+    if (item.description) l.para(item.description, { color: MUTED });
+    l.rule();
+    for (const p of htmlText(item.html).split(/\n+/).filter(Boolean)) l.para(p);
+    return;
+  }
+
+  const several = recipes.length > 1;
+  const parent = several ? doc.outline.addItem(l.t(item.title)) : null;
+  recipes.forEach((r, j) => {
+    doc.addPage();
+    const dest = `item-${index}-${j}`;
+    doc.addNamedDestination(dest);
+    if (several && j === 0) toc.push({ title: item.title, dest, page: page(), level: 0 });
+    toc.push({ title: r.title, dest, page: page(), level: several ? 1 : 0 });
+    (parent ?? doc.outline).addItem(l.t(r.title));
+    renderRecipe(l, r, images, several && j === 0 ? item.title : undefined);
+  });
+}
+
+function tocCapacity(doc: PDFKit.PDFDocument, first: boolean) {
+  return Math.floor((doc.page.height - 2 * MARGIN - (first ? 60 : 0)) / TOC_LINE);
+}
+
+function countTocEntries(items: ArchiveItem[]) {
+  return items.reduce((n, i) => n + Math.max(1, i.recipes?.length ?? 0) + ((i.recipes?.length ?? 0) > 1 ? 1 : 0), 0);
+}
+
+function writeToc(l: Layout, toc: TocEntry[], firstPage: number) {
+  const { doc, fonts } = l;
+  let pageIndex = firstPage;
+  let left = 0;
+  for (const e of [{ title: "", dest: "", page: -1, level: 0 as const }, ...toc]) {
+    if (e.page < 0) {
+      doc.switchToPage(pageIndex);
+      doc.y = MARGIN;
+      doc.font(fonts.heading).fontSize(22).fillColor(INK).text("Contents", MARGIN, MARGIN);
+      doc.y = MARGIN + 60;
+      left = tocCapacity(doc, true);
+      continue;
+    }
+    if (left === 0) {
+      doc.switchToPage(++pageIndex);
+      doc.y = MARGIN;
+      left = tocCapacity(doc, false);
+    }
+    const y = doc.y;
+    const indent = e.level ? 16 : 0;
+    doc
+      .font(e.level ? fonts.body : fonts.bold)
+      .fontSize(e.level ? 10.5 : 11.5)
+      .fillColor(INK)
+      .text(l.t(e.title), MARGIN + indent, y, { width: l.contentWidth - indent - 44, ellipsis: true, lineBreak: false, goTo: e.dest, height: TOC_LINE });
+    doc.fillColor(MUTED).text(String(e.page + 1), MARGIN + l.contentWidth - 40, y, { width: 40, align: "right", lineBreak: false, goTo: e.dest });
+    doc.y = y + TOC_LINE;
+    left--;
+  }
+}
+
+function footers(l: Layout, title: string, skipFirst: boolean) {
+  const { doc } = l;
+  const range = doc.bufferedPageRange();
+  for (let i = range.start + (skipFirst ? 1 : 0); i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise start a new page.
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font(l.fonts.body)
+      .fontSize(8)
+      .fillColor(MUTED)
+      .text(`${l.t(title)}   ·   ${i + 1}`, MARGIN, doc.page.height - MARGIN / 2 - 4, {
+        width: l.contentWidth,
+        align: "center",
+        lineBreak: false,
+      });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+/** A PDF of one item, or a cookbook of several. */
+export async function renderPdf(items: ArchiveItem[], opts: PdfOptions = {}): Promise<Buffer> {
+  const cookbook = items.length > 1;
+  const title = cookbook ? opts.title?.trim() || "Cookbook" : items[0]?.title || "Recipe";
+  const doc = new PDFDocument({
+    size: opts.size ?? "A4",
+    margin: MARGIN,
+    bufferPages: true,
+    autoFirstPage: false,
+    info: { Title: title, Creator: "FreshRecipes" },
+    displayTitle: true,
+  });
+  const chunks: Buffer[] = [];
+  doc.on("data", (c: Buffer) => chunks.push(c));
+  const done = new Promise<void>((resolve, reject) => {
+    doc.on("end", () => resolve());
+    doc.on("error", reject);
+  });
+
+  const fonts = registerFonts(doc);
+  const images = opts.images === false ? new Map<string, Buffer>() : await loadImages(items);
+  const l = new Layout(doc, fonts);
+
+  let tocStart = -1;
+  if (cookbook) {
+    doc.addPage();
+    doc.font(fonts.heading).fontSize(40).fillColor(INK).text(l.t(title), MARGIN, doc.page.height / 3, { width: l.contentWidth, align: "center" });
+    doc.moveDown(0.5);
+    l.para(`${items.length} saved recipes · ${new Date().toLocaleDateString("en", { dateStyle: "long" })}`, { color: MUTED, align: "center" });
+    // Reserve the contents pages now; they're filled in once page numbers are known.
+    doc.addPage();
+    tocStart = doc.bufferedPageRange().count - 1;
+    let entries = countTocEntries(items) - tocCapacity(doc, true);
+    while (entries > 0) {
+      doc.addPage();
+      entries -= tocCapacity(doc, false);
+    }
+  }
+
+  const toc: TocEntry[] = [];
+  items.forEach((item, i) => renderItem(l, item, i, toc, images));
+  if (!items.length) doc.addPage();
+  if (cookbook) writeToc(l, toc, tocStart);
+  footers(l, title, cookbook);
+
+  doc.end();
+  await done;
+  return Buffer.concat(chunks);
+}
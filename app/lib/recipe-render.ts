@@ -0,0 +1,126 @@
+// app/lib/recipe-render.ts
+import type { Recipe, Section } from "./types";
+
+// Server-side HTML template for structured recipes. Every model-provided
+// string goes through esc(); only http(s) URLs make it into attributes.
+
+export function esc(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function safeUrl(u?: string | null): string | null {
+  return u && /^https?:\/\//i.test(u) ? u : null;
+}
+
+function paras(s?: string): string {
+  if (!s) return "";
+  return s
+    .split(/\n{2,}/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => `<p>${esc(p)}</p>`)
+    .join("\n");
+}
+
+function definitionList(rows: string[][]): string {
+  return `<dl class="facts">\n${rows.map(([k, v]) => `<dt>${esc(k)}</dt><dd>${esc(v)}</dd>`).join("\n")}\n</dl>`;
+}
+
+/** Sections in the order the system prompt lists them. */
+export function recipeSections(r: Recipe): Section[] {
+  const out: Section[] = [];
+  if (r.author || r.authorBio) {
+    out.push({
+      heading: "Chef & Background",
+      html: [r.author ? `<p><strong>${esc(r.author)}</strong></p>` : "", paras(r.authorBio)].join("\n").trim(),
+    });
+  }
+  if (r.description) out.push({ heading: "Description", html: paras(r.description) });
+  const details = [
+    r.yield ? ["Yield", r.yield] : null,
+    r.times?.prep ? ["Prep", r.times.prep] : null,
+    r.times?.cook ? ["Cook", r.times.cook] : null,
+    r.times?.total ? ["Total", r.times.total] : null,
+  ].filter((d): d is string[] => !!d);
+  if (details.length) out.push({ heading: "Details", html: definitionList(details) });
+  if (r.ingredients?.length) {
+    out.push({ heading: "Ingredients", html: `<ul>\n${r.ingredients.map((i) => `<li>${esc(i)}</li>`).join("\n")}\n</ul>` });
+  }
+  if (r.steps?.length) {
+    out.push({ heading: "Steps", html: `<ol>\n${r.steps.map((s) => `<li>${esc(s)}</li>`).join("\n")}\n</ol>` });
+  }
+  const nutrition = Object.entries(r.nutrition ?? {});
+  if (nutrition.length) out.push({ heading: "Nutrition", html: definitionList(nutrition) });
+  return out;
+}
+
+function renderRecipe(r: Recipe): string {
+  const img = safeUrl(r.imageUrl);
+  const source = safeUrl(r.sourceUrl);
+  const sections = (r.sections.length ? r.sections : recipeSections(r))
+    .map(
+      (s) => `    <section class="recipe-section">
+      <h3>${esc(s.heading)}</h3>
+      ${s.html}
+    </section>`
+    )
+    .join("\n");
+  return `  <article class="recipe" id="${esc(String(r.id))}">
+    <header>
+      <h2>${esc(r.title)}</h2>
+      ${r.author ? `<p class="byline">By ${esc(r.author)}</p>` : ""}
+    </header>
+    ${img ? `<figure class="hero"><img src="${esc(img)}" alt="${esc(r.title)}" loading="lazy" /></figure>` : ""}
+${sections}
+    ${source ? `<p class="source"><a href="${esc(source)}" rel="noopener noreferrer">Original recipe</a></p>` : ""}
+  </article>`;
+}
+
+const STYLE = `
+  :root { --ink: #1f2328; --muted: #6b6f76; --rule: #e7e3dc; --accent: #b5532c; --paper: #fffdf9; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: var(--paper); color: var(--ink); font: 17px/1.65 Inter, ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 20px 64px; }
+  h1, h2 { font-family: "Playfair Display", Georgia, "Times New Roman", serif; line-height: 1.15; }
+  h1 { font-size: 2.4rem; margin: 0 0 24px; }
+  h2 { font-size: 2rem; margin: 0 0 4px; }
+  h3 { font-size: .8rem; letter-spacing: .12em; text-transform: uppercase; color: var(--accent); margin: 28px 0 8px; }
+  .recipe { padding: 28px 0 36px; border-top: 1px solid var(--rule); }
+  .byline { color: var(--muted); margin: 0; }
+  .hero { margin: 20px 0 0; }
+  .hero img { width: 100%; max-height: 520px; object-fit: cover; border-radius: 12px; transition: transform .3s ease; }
+  .hero img:hover { transform: scale(1.01); }
+  ul, ol { padding-left: 1.3em; }
+  li { margin: 6px 0; }
+  ol li::marker { color: var(--accent); font-weight: 600; }
+  .source a { color: var(--accent); }
+  .facts { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0; }
+  .facts dt { color: var(--muted); }
+  .facts dd { margin: 0; }
+  @media (min-width: 720px) { main { padding: 48px 24px 80px; } h1 { font-size: 3rem; } }
+`;
+
+/** A complete HTML document for the given recipes. */
+export function renderRecipesDocument(recipes: Recipe[], title = "Fresh Recipes"): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${esc(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+  <h1>${esc(title)}</h1>
+${recipes.map(renderRecipe).join("\n")}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,31 @@
+// app/lib/recipe-schema.test.ts
+import { describe, expect, it } from "vitest";
+import { checkRecipes } from "./recipe-schema";
+
+describe("checkRecipes", () => {
+  it("accepts stored recipes and drops unknown fields", () => {
+    const result = checkRecipes([
+      { id: "soup", title: "Soup", ingredients: ["1 onion"], imageUrl: null, extra: 1, sections: [{ heading: "Steps", html: "<p>Stir</p>" }] },
+    ]);
+    expect(result).toEqual({
+      ok: true,
+      recipes: [{ id: "soup", title: "Soup", ingredients: ["1 onion"], imageUrl: null, sections: [{ heading: "Steps", html: "<p>Stir</p>" }] }],
+    });
+  });
+
+  it("reports malformed entries instead of repairing them", () => {
+    const result = checkRecipes([null, { id: 1, title: "Soup" }, { id: 2, title: "Stew", steps: "stir", sections: [{ heading: "x" }] }]);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      "recipes[0] must be an object",
+      "recipes[1].sections must be an array of { heading, html } strings",
+      "recipes[2].steps must be an array of strings",
+      "recipes[2].sections must be an array of { heading, html } strings",
+    ]);
+  });
+
+  it("fills in missing sections when they're optional", () => {
+    const result = checkRecipes([{ id: 1, title: "Soup" }], { sectionsOptional: true });
+    expect(result.ok && result.recipes[0].sections).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+// app/lib/recipe-schema.ts
+import type { JsonSchemaFormat } from "./llm";
+import type { Recipe } from "./types";
+
+// JSON schema for the structured generation mode. OpenAI's strict mode wants
+// every property listed in `required` and no extras, so optional fields are
+// expressed as nullable instead.
+
+const nullableString = { type: ["string", "null"] };
+
+export const RECIPES_JSON_SCHEMA: JsonSchemaFormat = {
+  name: "recipes",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["recipes"],
+    properties: {
+      recipes: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["title", "author", "authorBio", "description", "ingredients", "steps", "imageUrl", "sourceUrl"],
+          properties: {
+            title: { type: "string" },
+            author: nullableString,
+            authorBio: nullableString,
+            description: { type: "string", description: "3–5 paragraphs separated by blank lines" },
+            ingredients: { type: "array", items: { type: "string" } },
+            steps: { type: "array", items: { type: "string" }, description: "One entry per source step, unnumbered" },
+            imageUrl: { ...nullableString, description: "Absolute http(s) URL of a real photo of the dish, or null" },
+            sourceUrl: { ...nullableString, description: "URL of the source recipe page, or null" },
+          },
+        },
+      },
+    },
+  },
+};
+
+export type ValidationResult =
+  | { ok: true; recipes: Recipe[] }
+  | { ok: false; errors: string[] };
+
+function str(v: unknown): string {
+  if (typeof v === "string") return v.trim();
+  if (typeof v === "number") return String(v);
+  return "";
+}
+
+function optStr(v: unknown): string | undefined {
+  return str(v) || undefined;
+}
+
+function url(v: unknown): string | null {
+  const s = str(v);
+  return /^https?:\/\/\S+$/i.test(s) ? s : null;
+}
+
+/** Accept arrays of strings, arrays of {text|name} objects, or one newline-separated string. */
+function strList(v: unknown): string[] {
+  const raw = Array.isArray(v) ? v : typeof v === "string" ? v.split(/\n+/) : [];
+  return raw
+    .map((x) => (x && typeof x === "object" ? str((x as any).text ?? (x as any).name) : str(x)))
+    .filter(Boolean);
+}
+
+function unnumber(s: string): string {
+  return s.replace(/^(?:step\s*)?\d+\s*[.):\-–—]\s*/i, "").trim();
+}
+
+function slugify(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Coerce a model reply into Recipe[] and report what is still wrong.
+ * Common near-misses (a bare array, `name` instead of `title`, numbered
+ * steps, a newline-joined ingredient string) are repaired silently; missing
+ * essentials come back as errors so the caller can ask the model again.
+ */
+export function validateRecipes(value: unknown): ValidationResult {
+  const root: any = Array.isArray(value) ? { recipes: value } : value;
+  const list: unknown[] = Array.isArray(root?.recipes) ? root.recipes : root?.recipe ? [root.recipe] : [];
+  if (!list.length) return { ok: false, errors: ['"recipes" must be a non-empty array'] };
+
+  const errors: string[] = [];
+  const recipes: Recipe[] = list.map((r: any, i) => {
+    const at = `recipes[${i}]`;
+    const title = str(r?.title ?? r?.name);
+    const ingredients = strList(r?.ingredients ?? r?.recipeIngredient);
+    const steps = strList(r?.steps ?? r?.instructions ?? r?.method).map(unnumber).filter(Boolean);
+    if (!title) errors.push(`${at}.title is required`);
+    if (!ingredients.length) errors.push(`${at}.ingredients must list at least one ingredient`);
+    if (!steps.length) errors.push(`${at}.steps must list at least one step`);
+    return {
+      id: slugify(title) || String(i + 1),
+      title,
+      author: optStr(r?.author ?? r?.chef),
+      authorBio: optStr(r?.authorBio ?? r?.chefBackground),
+      description: optStr(r?.description),
+      ingredients,
+      steps,
+      imageUrl: url(r?.imageUrl ?? r?.image),
+      sourceUrl: url(r?.sourceUrl ?? r?.source) ?? undefined,
+      sections: [],
+    };
+  });
+
+  return errors.length ? { ok: false, errors } : { ok: true, recipes };
+}
+
+const isStr = (v: unknown): v is string => typeof v === "string";
+const isStrList = (v: unknown): v is string[] => Array.isArray(v) && v.every(isStr);
+
+/**
+ * Check recipes that arrive already structured (saves, edits, restores)
+ * against the Recipe type. Unlike validateRecipes nothing is repaired: a
+ * malformed entry is an error, and unknown fields are dropped. Sections are
+ * required unless `sectionsOptional`; then a missing list comes back empty.
+ */
+export function checkRecipes(value: unknown, opts: { sectionsOptional?: boolean } = {}): ValidationResult {
+  if (!Array.isArray(value)) return { ok: false, errors: ['"recipes" must be an array'] };
+  const errors: string[] = [];
+  const recipes = value.map((r: any, i): Recipe => {
+    const at = `recipes[${i}]`;
+    if (!r || typeof r !== "object" || Array.isArray(r)) {
+      errors.push(`${at} must be an object`);
+      return { id: i, title: "", sections: [] };
+    }
+    if (!isStr(r.id) && typeof r.id !== "number") errors.push(`${at}.id must be a string or number`);
+    if (!isStr(r.title)) errors.push(`${at}.title must be a string`);
+    for (const k of ["author", "authorBio", "description", "sourceUrl", "yield"] as const) {
+      if (r[k] != null && !isStr(r[k])) errors.push(`${at}.${k} must be a string`);
+    }
+    for (const k of ["ingredients", "steps"] as const) {
+      if (r[k] != null && !isStrList(r[k])) errors.push(`${at}.${k} must be an array of strings`);
+    }
+    if (r.imageUrl != null && !isStr(r.imageUrl)) errors.push(`${at}.imageUrl must be a string or null`);
+    for (const k of ["times", "nutrition"] as const) {
+      const v = r[k];
+      if (v != null && (typeof v !== "object" || Array.isArray(v) || !Object.values(v).every(isStr))) {
+        errors.push(`${at}.${k} must be an object of strings`);
+      }
+    }
+    const sections = r.sections ?? (opts.sectionsOptional ? [] : undefined);
+    if (!Array.isArray(sections) || !sections.every((s: any) => isStr(s?.heading) && isStr(s?.html))) {
+      errors.push(`${at}.sections must be an array of { heading, html } strings`);
+    }
+    return {
+      id: r.id,
+      title: r.title,
+      author: r.author ?? undefined,
+      authorBio: r.authorBio ?? undefined,
+      description: r.description ?? undefined,
+      ingredients: r.ingredients ?? undefined,
+      steps: r.steps ?? undefined,
+      imageUrl: r.imageUrl,
+      sourceUrl: r.sourceUrl ?? undefined,
+      yield: r.yield ?? undefined,
+      times: r.times ?? undefined,
+      nutrition: r.nutrition ?? undefined,
+      sections: Array.isArray(sections) ? sections.map((s: any) => ({ heading: s?.heading, html: s?.html })) : [],
+    };
+  });
+  return errors.length ? { ok: false, errors } : { ok: true, recipes };
+}
@@ -0,0 +1,150 @@
+// app/lib/sanitize.test.ts
+import { parse, parseFragment } from "parse5";
+import { describe, expect, it } from "vitest";
+import { responsiveImages } from "./img-cdn";
+import { sanitizeDocument, sanitizeFragment, scopeCss } from "./sanitize";
+
+// Hostile model output. Each entry must come out of both sanitizers with
+// nothing that runs script once a browser parses it (parse5 follows the HTML
+// spec, so this checks what a browser sees, not what htmlparser2 sees).
+const HOSTILE = [
+  `<script>alert(1)</script>`,
+  `<SCRIPT SRC=https://evil.example/x.js></SCRIPT>`,
+  `<img src=x onerror=alert(1)>`,
+  `<img src="x" OnError="alert(1)">`,
+  `<body onload=alert(1)><p>hi</p></body>`,
+  `<a href="javascript:alert(1)">x</a>`,
+  `<a href="  jav&#x09;ascript:alert(1)">x</a>`,
+  `<a href="JaVaScRiPt:alert(1)">x</a>`,
+  `<a href="vbscript:msgbox(1)">x</a>`,
+  `<a href="data:text/html,<script>alert(1)</script>">x</a>`,
+  `<img src="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">`,
+  `<img srcset="javascript:alert(1) 1x, https://ok.example/a.jpg 2x">`,
+  `<iframe src="https://evil.example/embed/x"></iframe>`,
+  `<iframe src="javascript:alert(1)"></iframe>`,
+  `<iframe srcdoc="<script>alert(1)</script>" src="https://www.youtube.com/embed/x"></iframe>`,
+  `<iframe src="https://www.youtube.com/embed/x">&lt;/iframe&gt;&lt;img src=x onerror=alert(1)&gt;</iframe>`,
+  `<iframe src="https://player.vimeo.com/video/1"></iframe><img src=x onerror=alert(2)></iframe>`,
+  `<noembed>&lt;/noembed&gt;&lt;img src=x onerror=alert(1)&gt;</noembed>`,
+  `<noframes>&lt;/noframes&gt;&lt;img src=x onerror=alert(1)&gt;</noframes>`,
+  `<xmp></xmp><img src=x onerror=alert(1)></xmp>`,
+  `<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>`,
+  `<title>&lt;/title&gt;&lt;img src=x onerror=alert(1)&gt;</title>`,
+  `<textarea>&lt;/textarea&gt;&lt;img src=x onerror=alert(1)&gt;</textarea>`,
+  `<style>&lt;/style&gt;&lt;img src=x onerror=alert(1)&gt;</style>`,
+  `<style></style><img src=x onerror=alert(1)></style>`,
+  `<style>p { background: url(javascript:alert(1)) } b { color: red }</style>`,
+  `<style>@import url(https://evil.example/x.css); p { color: red }</style>`,
+  `<p style="background:url(javascript:alert(1))">x</p>`,
+  `<p style="width: expression(alert(1))">x</p>`,
+  `<p style="behavior: url(x.htc)">x</p>`,
+  `<svg><script>alert(1)</script></svg>`,
+  `<svg><style><img src=x onerror=alert(1)></style></svg>`,
+  `<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>`,
+  `<object data="javascript:alert(1)"></object><embed src="javascript:alert(1)">`,
+  `<form action="javascript:alert(1)"><button formaction="javascript:alert(1)">x</button></form>`,
+  `<meta http-equiv="refresh" content="0;url=javascript:alert(1)">`,
+  `<base href="https://evil.example/">`,
+  `<link rel="stylesheet" href="https://evil.example/x.css">`,
+  `<!--<img src=x onerror=alert(1)>-->`,
+  `<!--[if IE]><script>alert(1)</script><![endif]-->`,
+  `<![CDATA[<img src=x onerror=alert(1)>]]>`,
+  `<template><img src=x onerror=alert(1)></template>`,
+  `<details open ontoggle=alert(1)><summary>x</summary></details>`,
+  `<marquee onstart=alert(1)>x</marquee>`,
+  `<div><p>unclosed <img src=x onerror=alert(1)`,
+  `<a href="https://ok.example/" target="_top">x</a>`,
+];
+
+const EVENT = /^on/i;
+const SCRIPT_URL = /^\s*(?:javascript|vbscript|data:text)/i;
+const URL_ATTRS = new Set(["href", "src", "action", "formaction", "xlink:href", "data"]);
+const BANNED = new Set(["script", "object", "embed", "base", "link", "form", "button", "template", "meta"]);
+
+type Node = { nodeName: string; attrs?: { name: string; value: string }[]; childNodes?: Node[]; content?: Node; value?: string };
+
+/** What a browser would run in `html`: empty when it's safe. */
+function dangers(root: Node, opts: { allowMeta?: boolean } = {}): string[] {
+  const out: string[] = [];
+  const walk = (n: Node) => {
+    if (BANNED.has(n.nodeName) && !(n.nodeName === "meta" && opts.allowMeta)) out.push(`<${n.nodeName}>`);
+    for (const a of n.attrs ?? []) {
+      const v = a.value.replace(/[\u0000- ]+/g, "");
+      if (EVENT.test(a.name)) out.push(`${n.nodeName}[${a.name}]`);
+      if (URL_ATTRS.has(a.name) && SCRIPT_URL.test(v)) out.push(`${n.nodeName}[${a.name}=${a.value}]`);
+      if (a.name === "srcset" && /javascript:/i.test(v)) out.push(`${n.nodeName}[srcset]`);
+      if (a.name === "srcdoc" || a.name === "http-equiv") out.push(`${n.nodeName}[${a.name}]`);
+      if (a.name === "style" && /expression|javascript|behavior/i.test(v)) out.push(`${n.nodeName}[style]`);
+    }
+    if (n.nodeName === "iframe") {
+      const src = n.attrs?.find((a) => a.name === "src")?.value ?? "";
+      if (!/^https:\/\/(?:www\.youtube\.com|player\.vimeo\.com)\//.test(src)) out.push(`iframe[src=${src}]`);
+    }
+    if (n.nodeName === "style") {
+      const css = (n.childNodes ?? []).map((c) => c.value ?? "").join("");
+      if (/javascript:|expression\(|@import|<\//i.test(css)) out.push("<style> content");
+    }
+    for (const c of n.childNodes ?? []) walk(c);
+    if (n.content) walk(n.content);
+  };
+  walk(root);
+  return out;
+}
+
+describe("hostile model output", () => {
+  it.each(HOSTILE)("sanitizeDocument: %s", (input) => {
+    const out = sanitizeDocument(input);
+    expect(dangers(parse(out) as unknown as Node, { allowMeta: true })).toEqual([]);
+    // Sanitizing is stable: a second pass finds nothing more to change.
+    expect(sanitizeDocument(out)).toBe(out);
+  });
+
+  it.each(HOSTILE)("sanitizeFragment + responsiveImages: %s", (input) => {
+    const out = responsiveImages(sanitizeFragment(input, "x"));
+    const tree = parseFragment(out) as unknown as Node;
+    expect(dangers(tree)).toEqual([]);
+    // Everything stays inside the scope wrapper.
+    expect(tree.childNodes?.map((n) => n.nodeName)).toEqual(["div"]);
+  });
+
+  it("keeps allowed frames, but never their content", () => {
+    const out = sanitizeFragment(
+      `<iframe src="https://www.youtube.com/embed/x">&lt;/iframe&gt;&lt;img src=x onerror=alert(1)&gt;</iframe>`
+    );
+    expect(out).toContain(`<iframe src="https://www.youtube.com/embed/x" sandbox=`);
+    expect(out).toContain("></iframe></div>");
+    expect(out).not.toContain("onerror");
+  });
+
+  it("forces links that open elsewhere into a new, opener-less tab", () => {
+    const out = sanitizeFragment(`<a href="https://ok.example/" target="_top">x</a>`);
+    expect(out).toContain(`target="_blank"`);
+    expect(out).toContain(`rel="noopener noreferrer nofollow"`);
+  });
+});
+
+describe("sanitizeFragment", () => {
+  it("keeps ordinary recipe markup", () => {
+    const out = sanitizeFragment(
+      `<article><h2>Soup</h2><ul><li>1 onion</li></ul><img src="https://img.example/a.jpg" alt="Soup"></article>`,
+      "soup"
+    );
+    expect(out).toBe(
+      `<div class="recipe-scope" data-recipe-scope="soup"><article><h2>Soup</h2><ul><li>1 onion</li></ul>` +
+        `<img src="https://img.example/a.jpg" alt="Soup" referrerpolicy="no-referrer"></article></div>`
+    );
+  });
+});
+
+describe("scopeCss", () => {
+  it("confines selectors to the wrapper", () => {
+    const scope = `[data-recipe-scope="x"]`;
+    expect(scopeCss("body { margin: 0 } h1, .card:hover { color: red }", scope)).toBe(
+      `${scope} { margin: 0 }\n${scope} h1, ${scope} .card:hover { color: red }`
+    );
+  });
+
+  it("drops fixed positioning that could cover the app", () => {
+    expect(scopeCss(".x { position: fixed; color: red }", null)).toBe(".x { color: red }");
+  });
+});
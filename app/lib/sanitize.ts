@@ -0,0 +1,347 @@
+// app/lib/sanitize.ts
+import { parseDocument, DomUtils } from "htmlparser2";
+import { isTag, isText, Text, type AnyNode, type Element, type ParentNode } from "domhandler";
+import type { Recipe } from "./types";
+
+// Allow-list sanitizer for model-written HTML. Everything we store or inject
+// into our own origin goes through here:
+//   sanitizeDocument  on save (store.ts) — a full document, still standalone,
+//                     minus scripts, handlers, dangerous URLs and foreign frames;
+//   sanitizeFragment  on render — the body only, wrapped in a scope element,
+//                     with every <style> rewritten so its selectors only reach
+//                     inside that wrapper and can't restyle the app shell.
+// Pure JS (htmlparser2), so client components can use it too.
+
+/** Kept, with their allowed attributes. Anything not listed is unwrapped (children kept). */
+const ELEMENTS: Record<string, string[]> = {
+  html: ["lang"], head: [], body: [], title: [], meta: ["charset", "name", "content"],
+  main: [], header: [], footer: [], section: [], article: [], aside: [], nav: [], div: [], span: [],
+  p: [], br: [], hr: [], h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  ul: [], ol: ["start", "reversed", "type"], li: ["value"], dl: [], dt: [], dd: [],
+  figure: [], figcaption: [], picture: [],
+  img: ["src", "srcset", "sizes", "alt", "width", "height", "loading", "decoding"],
+  source: ["srcset", "sizes", "type", "media"],
+  a: ["href", "target", "rel"],
+  strong: [], b: [], em: [], i: [], u: [], s: [], small: [], sub: [], sup: [], mark: [],
+  blockquote: ["cite"], q: ["cite"], cite: [], code: [], pre: [], kbd: [], abbr: [], time: ["datetime"],
+  table: [], thead: [], tbody: [], tfoot: [], tr: [], caption: [], colgroup: ["span"], col: ["span"],
+  th: ["colspan", "rowspan", "scope"], td: ["colspan", "rowspan"],
+  details: ["open"], summary: [],
+  iframe: ["src", "width", "height", "title", "allow", "allowfullscreen", "loading"],
+  style: [],
+};
+
+/** Allowed on every kept element. */
+const GLOBAL_ATTRS = new Set(["class", "id", "title", "lang", "dir", "role", "style", "itemscope", "itemtype", "itemprop"]);
+
+/** Removed together with their content. */
+const DROP = new Set([
+  "script", "noscript", "template", "object", "embed", "applet", "frame", "frameset", "base", "link",
+  "form", "input", "button", "select", "option", "textarea", "svg", "math", "audio", "video", "canvas",
+  "portal", "dialog", "xmp", "noembed", "noframes", "plaintext",
+]);
+
+/**
+ * Raw-text elements: the serializer writes their text back out unescaped, so
+ * entities the parser decoded there (`&lt;/iframe&gt;&lt;img onerror=…&gt;`)
+ * would come out as live markup. Those we keep lose their content; <style>'s
+ * is rewritten by scopeCss, which escapes it. The rest are in DROP.
+ */
+const RAW_TEXT = new Set(["iframe"]);
+
+/** Video embeds are the only frames worth keeping; everything else is dropped. */
+const IFRAME_HOSTS = new Set([
+  "www.youtube.com", "www.youtube-nocookie.com", "youtube.com", "player.vimeo.com",
+]);
+
+const SAFE_DATA_IMAGE = /^data:image\/(?:png|jpe?g|gif|webp|avif);base64,[a-z0-9+/=\s]+$/i;
+
+/** Lowercase with whitespace and control characters removed, as browsers read a URL's scheme. */
+function squash(v: string): string {
+  return v.replace(/[\u0000- \u007f-\u009f]+/g, "").toLowerCase();
+}
+
+export function isSafeUrl(v: string, kind: "link" | "image" | "frame"): boolean {
+  const url = squash(v);
+  if (!url) return kind === "link";
+  if (kind === "image" && url.startsWith("data:")) return SAFE_DATA_IMAGE.test(v.trim());
+  const scheme = /^([a-z][a-z0-9+.-]*):/.exec(url)?.[1];
+  // Relative URLs stay on http(s); frames must name one of the known hosts.
+  if (!scheme) return kind !== "frame";
+  if (kind === "frame") {
+    try {
+      const u = new URL(v.trim());
+      return u.protocol === "https:" && IFRAME_HOSTS.has(u.hostname) && /^\/(embed|video)\//.test(u.pathname);
+    } catch {
+      return false;
+    }
+  }
+  if (scheme === "http" || scheme === "https") return true;
+  return kind === "link" && (scheme === "mailto" || scheme === "tel");
+}
+
+function safeSrcset(v: string): string | null {
+  const kept = v
+    .split(/,\s+/)
+    .map((p) => p.trim())
+    .filter((p) => p && isSafeUrl(p.split(/\s+/)[0], "image"));
+  return kept.length ? kept.join(", ") : null;
+}
+
+// ---------------------------------------------------------------- CSS
+
+const BANNED_PROPERTIES = new Set(["behavior", "-moz-binding", "-ms-behavior"]);
+
+/** Top-level split that ignores separators inside strings, comments, parens and braces. */
+function splitTop(s: string, sep: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let quote = "";
+  let start = 0;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (quote) {
+      if (c === "\\") i++;
+      else if (c === quote) quote = "";
+    } else if (c === '"' || c === "'") quote = c;
+    else if (c === "(" || c === "[" || c === "{") depth++;
+    else if (c === ")" || c === "]" || c === "}") depth = Math.max(0, depth - 1);
+    else if (c === sep && depth === 0) {
+      out.push(s.slice(start, i));
+      start = i + 1;
+    }
+  }
+  out.push(s.slice(start));
+  return out;
+}
+
+function safeDeclaration(decl: string): string | null {
+  const i = decl.indexOf(":");
+  if (i < 0) return null;
+  const prop = decl.slice(0, i).trim().toLowerCase();
+  const value = decl.slice(i + 1).trim();
+  if (!/^-?[a-z][a-z0-9-]*$/.test(prop) || !value || BANNED_PROPERTIES.has(prop)) return null;
+  // Escapes are how "expression(" and "javascript:" get past naive checks; nothing in a recipe needs them.
+  if (value.includes("\\") && prop !== "content") return null;
+  const v = squash(value);
+  if (/expression\(|javascript:|vbscript:|@import/.test(v)) return null;
+  for (const m of value.matchAll(/url\(\s*(['"]?)(.*?)\1\s*\)/gi)) {
+    if (!isSafeUrl(m[2], "image")) return null;
+  }
+  // Fixed and sticky boxes escape the recipe card and can cover the page.
+  if (prop === "position" && /fixed|sticky/.test(v)) return null;
+  return `${prop}: ${value}`;
+}
+
+export function sanitizeStyleAttr(style: string): string {
+  return splitTop(style.replace(/\/\*[\s\S]*?\*\//g, ""), ";")
+    .map((d) => d.trim() && safeDeclaration(d))
+    .filter((d): d is string => !!d)
+    .join("; ");
+}
+
+type CssRule = { prelude: string; body: string | null };
+
+function parseRules(css: string): CssRule[] {
+  const rules: CssRule[] = [];
+  let i = 0;
+  while (i < css.length) {
+    let depth = 0;
+    let quote = "";
+    let j = i;
+    let open = -1;
+    for (; j < css.length; j++) {
+      const c = css[j];
+      if (quote) {
+        if (c === "\\") j++;
+        else if (c === quote) quote = "";
+        continue;
+      }
+      if (c === '"' || c === "'") quote = c;
+      else if (c === ";" && depth === 0) break;
+      else if (c === "{") {
+        if (depth++ === 0) open = j;
+      } else if (c === "}" && --depth === 0) break;
+    }
+    const chunk = css.slice(i, j + 1);
+    if (open >= 0) rules.push({ prelude: css.slice(i, open).trim(), body: css.slice(open + 1, j) });
+    else if (chunk.trim().replace(/;$/, "")) rules.push({ prelude: chunk.trim().replace(/;$/, ""), body: null });
+    i = j + 1;
+  }
+  return rules;
+}
+
+function scopeSelector(sel: string, scope: string): string {
+  const s = sel.trim();
+  if (!s) return "";
+  // The document root and body become the wrapper itself.
+  const root = /^(?:(?::root|html)(?:\s*>\s*|\s+)body|:root|html|body)(?![\w-])/i.exec(s);
+  if (root) return `${scope}${s.slice(root[0].length)}`;
+  return `${scope} ${s}`;
+}
+
+/** Rewrite a stylesheet so each rule only matches inside `scope`; unsafe rules and declarations are dropped. */
+export function scopeCss(css: string, scope: string | null): string {
+  const out: string[] = [];
+  for (const { prelude, body } of parseRules(css.replace(/\/\*[\s\S]*?\*\//g, ""))) {
+    const at = /^@([a-z-]+)/i.exec(prelude)?.[1].toLowerCase();
+    if (body === null) continue; // @import, @charset, @namespace and stray text
+    if (at === "media" || at === "supports" || at === "container" || at === "layer") {
+      out.push(`${prelude} {\n${scopeCss(body, scope)}\n}`);
+    } else if (at === "keyframes" || at === "-webkit-keyframes") {
+      const frames = parseRules(body)
+        .filter((r) => r.body !== null)
+        .map((r) => `${r.prelude} { ${sanitizeStyleAttr(r.body!)} }`);
+      out.push(`${prelude} {\n${frames.join("\n")}\n}`);
+    } else if (at === "font-face" || at === "page") {
+      out.push(`${prelude} { ${sanitizeStyleAttr(body)} }`);
+    } else if (!at) {
+      const selectors = splitTop(prelude, ",")
+        .map((s) => (scope ? scopeSelector(s, scope) : s.trim()))
+        .filter(Boolean);
+      const decls = sanitizeStyleAttr(body);
+      if (selectors.length && decls) out.push(`${selectors.join(", ")} { ${decls} }`);
+    }
+  }
+  // A stylesheet is raw text inside <style>; make sure it can't close the element.
+  return out.join("\n").replace(/</g, "\\3c ");
+}
+
+// ---------------------------------------------------------------- HTML
+
+function unwrap(el: Element) {
+  const parent = el.parent as ParentNode | null;
+  if (!parent) return;
+  const at = parent.children.indexOf(el);
+  for (const child of el.children) child.parent = parent;
+  parent.children.splice(at, 1, ...el.children);
+  for (let i = 0; i < parent.children.length; i++) {
+    parent.children[i].prev = parent.children[i - 1] ?? null;
+    parent.children[i].next = parent.children[i + 1] ?? null;
+  }
+}
+
+function cleanAttributes(el: Element) {
+  const allowed = ELEMENTS[el.name];
+  const attribs: Record<string, string> = {};
+  for (const [name, value] of Object.entries(el.attribs)) {
+    const n = name.toLowerCase();
+    if (!(allowed.includes(n) || GLOBAL_ATTRS.has(n) || /^aria-[a-z-]+$/.test(n) || /^data-[a-z0-9-]+$/.test(n))) continue;
+    if (n === "style") {
+      const css = sanitizeStyleAttr(value);
+      if (css) attribs.style = css;
+    } else if (n === "href" || n === "cite") {
+      if (isSafeUrl(value, "link")) attribs[n] = value;
+    } else if (n === "src") {
+      if (isSafeUrl(value, el.name === "iframe" ? "frame" : "image")) attribs.src = value;
+    } else if (n === "srcset") {
+      const v = safeSrcset(value);
+      if (v) attribs.srcset = v;
+    } else if (n === "content" && el.name === "meta") {
+      // Only descriptive meta tags survive (see below); a refresh never does.
+      attribs.content = value;
+    } else {
+      attribs[n] = value;
+    }
+  }
+  el.attribs = attribs;
+}
+
+function isAllowedMeta(el: Element): boolean {
+  if ("charset" in el.attribs) return true;
+  const name = (el.attribs.name || "").toLowerCase();
+  return name === "viewport" || name === "description" || name === "author";
+}
+
+function clean(nodes: AnyNode[], scope: string | null) {
+  // Copy: the loop edits the parent's child list.
+  for (const node of [...nodes]) {
+    if (isText(node)) continue;
+    if (!isTag(node)) {
+      // Comments (incl. IE conditional comments), CDATA and processing instructions.
+      if (node.type !== "directive") DomUtils.removeElement(node);
+      continue;
+    }
+    const name = node.name.toLowerCase();
+    node.name = name;
+    if (DROP.has(name) || (name === "meta" && !isAllowedMeta(node))) {
+      DomUtils.removeElement(node);
+      continue;
+    }
+    if (name === "style") {
+      const css = scopeCss(DomUtils.textContent(node), scope);
+      node.attribs = {};
+      node.children = [];
+      if (css) DomUtils.appendChild(node, new Text(css));
+      else DomUtils.removeElement(node);
+      continue;
+    }
+    if (!ELEMENTS[name]) {
+      clean(node.children, scope);
+      unwrap(node);
+      continue;
+    }
+    cleanAttributes(node);
+    if (name === "iframe") {
+      if (!node.attribs.src) {
+        DomUtils.removeElement(node);
+        continue;
+      }
+      node.attribs.sandbox = "allow-scripts allow-same-origin allow-presentation";
+      node.attribs.referrerpolicy = "strict-origin-when-cross-origin";
+    }
+    if (RAW_TEXT.has(name)) {
+      node.children = [];
+      continue;
+    }
+    if (name === "a" && node.attribs.href) {
+      if (node.attribs.target) node.attribs.target = "_blank";
+      node.attribs.rel = "noopener noreferrer nofollow";
+    }
+    if (name === "img") node.attribs.referrerpolicy = "no-referrer";
+    clean(node.children, scope);
+  }
+}
+
+/** A stored document: same shape as the input, with everything unsafe removed. */
+export function sanitizeDocument(html: string): string {
+  if (!html) return "";
+  const doc = parseDocument(html);
+  clean(doc.children, null);
+  return DomUtils.getOuterHTML(doc.children, { decodeEntities: true, encodeEntities: "utf8" });
+}
+
+/** Recipes as stored: each section's html cleaned like a stored document. */
+export function sanitizeRecipes(recipes: Recipe[]): Recipe[] {
+  return recipes.map((r) => ({ ...r, sections: r.sections.map((s) => ({ ...s, html: sanitizeDocument(s.html) })) }));
+}
+
+/** Attribute value for the scope wrapper; ids are kept to characters safe in a selector. */
+function scopeId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, "_").slice(0, 80) || "item";
+}
+
+/**
+ * HTML to inject into one of our pages: the document body (or the whole
+ * input, if it has none) plus its stylesheets, all confined to
+ * <div class="recipe-scope" data-recipe-scope="{id}">.
+ */
+export function sanitizeFragment(html: string, id = "item"): string {
+  if (!html) return "";
+  const scopeAttr = scopeId(id);
+  const scope = `[data-recipe-scope="${scopeAttr}"]`;
+  const doc = parseDocument(html);
+  const styles = DomUtils.findAll((el) => el.name.toLowerCase() === "style", doc.children);
+  const body = DomUtils.findOne((el) => el.name.toLowerCase() === "body", doc.children);
+  const nodes: AnyNode[] = body ? [...styles.filter((s) => !DomUtils.existsOne((x) => x === s, body.children)), ...body.children] : doc.children;
+  const holder = parseDocument("");
+  for (const n of nodes) DomUtils.appendChild(holder, n);
+  // Whole-document wrappers have nothing to contribute once the body is inlined.
+  for (const el of DomUtils.findAll((e) => ["html", "head", "body", "title", "meta"].includes(e.name.toLowerCase()), holder.children)) {
+    if (el.name.toLowerCase() === "html" || el.name.toLowerCase() === "body" || el.name.toLowerCase() === "head") unwrap(el);
+    else DomUtils.removeElement(el);
+  }
+  clean(holder.children, scope);
+  const inner = DomUtils.getOuterHTML(holder.children, { decodeEntities: true, encodeEntities: "utf8" });
+  return `<div class="recipe-scope" data-recipe-scope="${scopeAttr}">${inner}</div>`;
+}
@@ -0,0 +1,276 @@
+// app/lib/search.ts
+import { parseDocument, DomUtils } from "htmlparser2";
+import { isTag, isText, type AnyNode } from "domhandler";
+import { readJson, writeJson, type StorageDriver } from "@/lib/storage";
+import { createQueue } from "./queue";
+import type { ArchiveItem, Kind } from "./store";
+
+// Full-text search over the archive, kept in one document next to the items
+// (search/index.json) so it works on every storage driver without a hosted
+// search service. The repository in store.ts updates it on put/delete and
+// rebuilds it in reindex().
+//
+// Each item keeps its searchable text per field; a query tokenizes that text
+// on the fly and scores it BM25-style, with title and chef matches weighted
+// above ingredients, and ingredients above the running text.
+
+export const SEARCH_INDEX_PATH = "search/index.json";
+
+type Field = "title" | "people" | "ingredients" | "description" | "body";
+
+type SearchDoc = {
+  id: string;
+  kind: Kind;
+  title: string;
+  createdAt: string;
+  fields: Record<Field, string>;
+};
+
+type SearchIndexDoc = { version: 1; updatedAt: string; docs: SearchDoc[] };
+
+export type SearchResult = {
+  id: string;
+  kind: Kind;
+  title: string;
+  createdAt: string;
+  score: number;
+  /** HTML-escaped text with matches wrapped in <mark> */
+  snippet: string;
+  /** Fields that matched, strongest first */
+  matched: Field[];
+};
+
+const WEIGHTS: Record<Field, number> = { title: 5, people: 3, ingredients: 2, description: 1.5, body: 1 };
+const FIELD_ORDER = Object.keys(WEIGHTS) as Field[];
+const MAX_BODY = 20_000;
+const SNIPPET_LENGTH = 180;
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "by", "for", "from", "in", "into", "is", "it", "of", "on", "or",
+  "that", "the", "this", "to", "with", "one",
+]);
+const SKIP = new Set(["head", "style", "script", "noscript", "template", "svg"]);
+
+/** Lowercase and strip accents one character at a time, so offsets into the original still line up. */
+function fold(s: string): string {
+  let out = "";
+  for (const c of s) {
+    const f = c.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+    out += f.length === c.length ? f : c.length === 1 ? " " : "  ";
+  }
+  return out;
+}
+
+/** Crude suffix stripping so "braised" finds "braise" and "ribs" finds "rib". */
+function stem(w: string): string {
+  if (w.length <= 3 || /^\d/.test(w)) return w;
+  const suffix = ["ing", "ed", "es", "s"].find((x) => w.endsWith(x) && w.length - x.length >= 3);
+  const base = suffix ? w.slice(0, -suffix.length) : w;
+  return base.length > 3 && base.endsWith("e") ? base.slice(0, -1) : base;
+}
+
+type Token = { term: string; start: number; end: number };
+
+function tokenize(s: string): Token[] {
+  const out: Token[] = [];
+  for (const m of fold(s).matchAll(/[a-z0-9]+/g)) {
+    if (STOPWORDS.has(m[0])) continue;
+    out.push({ term: stem(m[0]), start: m.index!, end: m.index! + m[0].length });
+  }
+  return out;
+}
+
+function textOf(nodes: AnyNode[], out: string[] = []): string[] {
+  for (const node of nodes) {
+    if (isText(node)) out.push(node.data);
+    else if (isTag(node) && !SKIP.has(node.name)) {
+      textOf(node.children, out);
+      if (/^(p|li|h[1-6]|div|section|article|br|tr)$/.test(node.name)) out.push("\n");
+    }
+  }
+  return out;
+}
+
+/** Readable text of a document, one line per block element. */
+export function htmlText(html: string): string {
+  const doc = parseDocument(html);
+  const body = DomUtils.findOne((el) => el.name === "body", doc.children);
+  return textOf(body ? body.children : doc.children)
+    .join(" ")
+    .replace(/[ \t\r\f\v]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+export function toSearchDoc(item: ArchiveItem): SearchDoc {
+  const recipes = item.recipes ?? [];
+  const join = (xs: (string | null | undefined)[]) => xs.filter(Boolean).join("\n");
+  return {
+    id: item.id,
+    kind: item.kind,
+    title: item.title,
+    createdAt: item.createdAt,
+    fields: {
+      title: join([item.title, ...recipes.map((r) => r.title)]),
+      people: join(recipes.map((r) => r.author)),
+      ingredients: join(recipes.flatMap((r) => r.ingredients ?? [])),
+      description: join([item.description, item.query, ...(item.tags ?? [])]),
+      body: htmlText(item.html).slice(0, MAX_BODY),
+    },
+  };
+}
+
+function isSearchIndex(v: any): v is SearchIndexDoc {
+  return !!v && typeof v === "object" && v.version === 1 && Array.isArray(v.docs);
+}
+
+export class SearchIndex {
+  private enqueue = createQueue();
+
+  constructor(private store: StorageDriver) {}
+
+  private async read(): Promise<SearchDoc[] | null> {
+    const j = await readJson(this.store, SEARCH_INDEX_PATH);
+    return isSearchIndex(j) ? j.docs : null;
+  }
+
+  private async write(docs: SearchDoc[]) {
+    const index: SearchIndexDoc = { version: 1, updatedAt: new Date().toISOString(), docs };
+    await writeJson(this.store, SEARCH_INDEX_PATH, index);
+  }
+
+  /**
+   * Add or replace one item. Returns false when there is no index yet; the
+   * caller should rebuild() from every item rather than start a partial one.
+   */
+  upsert(item: ArchiveItem): Promise<boolean> {
+    return this.enqueue(async () => {
+      const docs = await this.read();
+      if (!docs) return false;
+      await this.write([toSearchDoc(item), ...docs.filter((d) => d.id !== item.id)]);
+      return true;
+    });
+  }
+
+  remove(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const docs = await this.read();
+      if (docs) await this.write(docs.filter((d) => d.id !== id));
+    });
+  }
+
+  rebuild(items: ArchiveItem[]): Promise<void> {
+    return this.enqueue(() => this.write(items.map(toSearchDoc)));
+  }
+
+  async exists(): Promise<boolean> {
+    return (await this.read()) !== null;
+  }
+
+  async search(q: string, opts: { limit?: number; kind?: Kind } = {}): Promise<SearchResult[]> {
+    const docs = ((await this.read()) ?? []).filter((d) => !opts.kind || d.kind === opts.kind);
+    return rank(docs, q).slice(0, opts.limit ?? 20);
+  }
+}
+
+type Match = (term: string) => boolean;
+
+/** Query terms; the last one also matches as a prefix so partial words find results while typing. */
+function queryMatchers(q: string): { term: string; match: Match }[] {
+  const raw = fold(q).match(/[a-z0-9]+/g) ?? [];
+  const words = raw.filter((w) => !STOPWORDS.has(w));
+  return words.map((w, i) => {
+    const term = stem(w);
+    const prefix = i === words.length - 1 && !/\s$/.test(q) && w.length >= 2;
+    return { term, match: prefix ? (t: string) => t === term || t.startsWith(w) : (t: string) => t === term };
+  });
+}
+
+function rank(docs: SearchDoc[], q: string): SearchResult[] {
+  const matchers = queryMatchers(q);
+  if (!matchers.length || !docs.length) return [];
+
+  const tokenized = docs.map((d) => {
+    const fields = {} as Record<Field, Token[]>;
+    for (const f of FIELD_ORDER) fields[f] = tokenize(d.fields[f]);
+    return fields;
+  });
+  const avgLen = {} as Record<Field, number>;
+  for (const f of FIELD_ORDER) {
+    avgLen[f] = Math.max(1, tokenized.reduce((n, t) => n + t[f].length, 0) / docs.length);
+  }
+  const df = matchers.map(({ match }) =>
+    tokenized.filter((t) => FIELD_ORDER.some((f) => t[f].some((tok) => match(tok.term)))).length
+  );
+
+  const results: SearchResult[] = [];
+  const phrase = fold(q).trim();
+  docs.forEach((doc, i) => {
+    const t = tokenized[i];
+    let score = 0;
+    const matched = new Set<Field>();
+    let allTerms = true;
+    matchers.forEach(({ match }, qi) => {
+      let termScore = 0;
+      for (const f of FIELD_ORDER) {
+        const tf = t[f].filter((tok) => match(tok.term)).length;
+        if (!tf) continue;
+        matched.add(f);
+        // BM25 with k1 = 1.2, b = 0.75, per field.
+        const norm = tf / (tf + 1.2 * (0.25 + (0.75 * t[f].length) / avgLen[f]));
+        termScore += WEIGHTS[f] * norm;
+      }
+      if (!termScore) allTerms = false;
+      score += termScore * Math.log(1 + (docs.length - df[qi] + 0.5) / (df[qi] + 0.5));
+    });
+    if (!score) return;
+    // Documents with every term outrank those with some; an exact phrase in the title beats both.
+    if (allTerms) score *= 1.5;
+    if (phrase.length > 2 && fold(doc.fields.title).includes(phrase)) score *= 2;
+    results.push({
+      id: doc.id,
+      kind: doc.kind,
+      title: doc.title,
+      createdAt: doc.createdAt,
+      score: Math.round(score * 1000) / 1000,
+      snippet: snippet(doc, t, matchers),
+      matched: FIELD_ORDER.filter((f) => matched.has(f)),
+    });
+  });
+  return results.sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt));
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+/** The window of running text with the most distinct query terms, matches marked. */
+function snippet(doc: SearchDoc, t: Record<Field, Token[]>, matchers: { match: Match }[]): string {
+  let best = { field: "description" as Field, start: 0, score: -1 };
+  for (const f of ["body", "ingredients", "description"] as Field[]) {
+    const hits = t[f].filter((tok) => matchers.some((m) => m.match(tok.term)));
+    for (const h of hits) {
+      const inWindow = hits.filter((o) => o.start >= h.start && o.end <= h.start + SNIPPET_LENGTH);
+      const distinct = new Set(inWindow.map((o) => o.term)).size;
+      if (distinct > best.score) best = { field: f, start: h.start, score: distinct };
+    }
+  }
+  const text = doc.fields[best.field];
+  if (best.score < 0) {
+    const plain = text.replace(/\s+/g, " ").slice(0, SNIPPET_LENGTH);
+    return escapeHtml(plain) + (text.length > SNIPPET_LENGTH ? "…" : "");
+  }
+  // Back up to a word boundary a little before the first hit.
+  let from = Math.max(0, best.start - 40);
+  if (from > 0) from = text.indexOf(" ", from) + 1 || from;
+  const to = Math.min(text.length, from + SNIPPET_LENGTH);
+  let out = "";
+  let pos = from;
+  for (const tok of t[best.field]) {
+    if (tok.start < from || tok.end > to) continue;
+    if (!matchers.some((m) => m.match(tok.term))) continue;
+    out += escapeHtml(text.slice(pos, tok.start)) + `<mark>${escapeHtml(text.slice(tok.start, tok.end))}</mark>`;
+    pos = tok.end;
+  }
+  out += escapeHtml(text.slice(pos, to));
+  return (from > 0 ? "…" : "") + out.replace(/\s+/g, " ").trim() + (to < text.length ? "…" : "");
+}
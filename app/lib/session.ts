@@ -0,0 +1,79 @@
+// app/lib/session.ts
+
+// Signed tokens for sign-in: the session cookie and the magic links mailed
+// by /api/auth/login. A token is base64url(JSON payload) + "." +
+// base64url(HMAC-SHA256 of it under AUTH_SECRET); nothing is stored
+// server-side except which links were used (see auth.ts).
+//
+// Web Crypto only, so middleware.ts can verify sessions on the edge runtime
+// as well as in Node routes.
+
+export const SESSION_COOKIE = "fr_session";
+/** An admin's choice of whose archive to look at; see auth.ts */
+export const VIEW_AS_COOKIE = "fr_view_as";
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const LINK_TTL_MS = 15 * 60 * 1000;
+
+export type SessionToken = { typ: "session"; uid: string; email: string; exp: number };
+export type LinkToken = { typ: "link"; email: string; next: string; nonce: string; exp: number };
+
+/** Auth is on once AUTH_SECRET is set; without it every archive is the shared one. */
+export function authEnabled(): boolean {
+  return !!process.env.AUTH_SECRET?.trim();
+}
+
+function secret(): string {
+  const s = process.env.AUTH_SECRET?.trim();
+  if (!s) throw new Error("Missing AUTH_SECRET");
+  return s;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function hmacKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", new TextEncoder().encode(secret()), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+}
+
+export async function signToken(payload: SessionToken | LinkToken): Promise<string> {
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const sig = await crypto.subtle.sign("HMAC", await hmacKey(), new TextEncoder().encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(sig))}`;
+}
+
+/** The payload when the signature holds, the type matches and it hasn't expired; otherwise null. */
+export async function verifyToken<T extends SessionToken | LinkToken>(token: string | undefined, typ: T["typ"]): Promise<T | null> {
+  const [body, sig] = token?.split(".") ?? [];
+  if (!body || !sig) return null;
+  try {
+    const ok = await crypto.subtle.verify("HMAC", await hmacKey(), fromBase64Url(sig), new TextEncoder().encode(body));
+    if (!ok) return null;
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+    return payload?.typ === typ && typeof payload.exp === "number" && payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/** A stable id for an email address: the storage prefix users/{uid}/. */
+export async function userId(email: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(email.trim().toLowerCase()));
+  return Array.from(new Uint8Array(digest).slice(0, 12), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** ADMIN_EMAILS, comma-separated; read per request so changes apply to existing sessions. */
+export function isAdmin(email: string): boolean {
+  const admins = (process.env.ADMIN_EMAILS ?? "").split(",").map((e) => e.trim().toLowerCase());
+  return admins.includes(email.trim().toLowerCase());
+}
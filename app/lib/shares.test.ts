@@ -0,0 +1,53 @@
+// app/lib/shares.test.ts
+import { describe, expect, it } from "vitest";
+import { createShare, listShares, openShare, revokeShare } from "./shares";
+import { getArchive } from "./store";
+import { userStorage } from "./auth";
+
+async function newItem() {
+  const item = await getArchive(userStorage(undefined)).save({
+    kind: "full",
+    title: "Soup",
+    description: "",
+    query: "soup",
+    html: "<article><h2>Soup</h2></article>",
+  });
+  return item.id;
+}
+
+describe("share links", () => {
+  it("counts views and lists an item's links", async () => {
+    const id = await newItem();
+    const a = await createShare(id, undefined);
+    const b = await createShare(id, undefined);
+    await openShare(a.token);
+    await openShare(a.token);
+    const listed = await listShares(id, undefined);
+    expect(listed.map((s) => s.token).sort()).toEqual([a.token, b.token].sort());
+    expect(listed.find((s) => s.token === a.token)?.views).toBe(2);
+    expect(await listShares(id, "0123abcd")).toEqual([]);
+  });
+
+  it("stays revoked when views race the revoke", async () => {
+    const id = await newItem();
+    const share = await createShare(id, undefined);
+    const views = Array.from({ length: 5 }, () => openShare(share.token));
+    const [revoked] = await Promise.all([revokeShare(share.token, undefined), ...views]);
+    expect(revoked.revokedAt).toBeTruthy();
+    expect(await openShare(share.token)).toBeNull();
+    expect((await listShares(id, undefined))[0].revokedAt).toBe(revoked.revokedAt);
+  });
+
+  it("doesn't lose a new link to a concurrent view", async () => {
+    const id = await newItem();
+    const first = await createShare(id, undefined);
+    const [, second] = await Promise.all([openShare(first.token), createShare(id, undefined)]);
+    expect((await listShares(id, undefined)).map((s) => s.token)).toContain(second.token);
+  });
+
+  it("only lets the owner revoke, and ignores tokens that aren't", async () => {
+    const share = await createShare(await newItem(), undefined);
+    await expect(revokeShare(share.token, "0123abcd")).rejects.toThrow("Share not found");
+    expect(await openShare("../recipes/index")).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+// app/lib/shares.ts
+import { randomBytes } from "crypto";
+import { getStorage, listAll, readJson, writeJson } from "@/lib/storage";
+import { createQueue } from "./queue";
+import { ArchiveError, getArchive, type ArchiveItem } from "./store";
+import { userStorage } from "./auth";
+
+// Public read-only links to single archive items: /s/{token} shows the item
+// to anyone holding the token, without an account and without access to the
+// rest of the archive. Links can expire and be revoked; each view is
+// counted.
+//
+// Links live at the root of storage, whoever's archive the item is in, since
+// /s/{token} has no session to say which archive to look in. Each link is its
+// own document, written when it's made and when it's revoked; views are
+// counted in another, so a view never rewrites revocation state:
+// path: shares/{token}.json                        Share, without views
+// path: shares/views/{token}.json                  { views, lastViewedAt }
+// path: shares/items/{owner or _}/{itemId}/{token}  the token; finds an item's links
+//
+// A share points at the item, not a copy of it: the link shows the current
+// version, and stops working when the item is deleted.
+
+const PREFIX = "shares/";
+export const MAX_SHARE_DAYS = 365;
+
+export type Share = {
+  token: string;
+  itemId: string;
+  /** Whose archive the item is in; absent for the shared one (see auth.ts) */
+  owner?: string;
+  createdAt: string;
+  /** Absent: never expires */
+  expiresAt?: string;
+  revokedAt?: string;
+  views: number;
+  lastViewedAt?: string;
+};
+
+export type ShareState = "active" | "expired" | "revoked";
+
+type ShareRecord = Omit<Share, "views" | "lastViewedAt">;
+type ViewCount = Pick<Share, "views" | "lastViewedAt">;
+
+// randomBytes(16) in base64url; anything else can't be a token, and never reaches a storage key.
+const TOKEN = /^[A-Za-z0-9_-]{22}$/;
+
+function recordPath(token: string) {
+  return `${PREFIX}${token}.json`;
+}
+
+function viewsPath(token: string) {
+  return `${PREFIX}views/${token}.json`;
+}
+
+function itemPrefix(itemId: string, owner: string | undefined) {
+  return `${PREFIX}items/${owner ?? "_"}/${encodeURIComponent(itemId)}/`;
+}
+
+function isShareRecord(v: any): v is ShareRecord {
+  return !!v && typeof v === "object" && typeof v.token === "string" && typeof v.itemId === "string";
+}
+
+export function shareState(share: Pick<Share, "expiresAt" | "revokedAt">, now = Date.now()): ShareState {
+  if (share.revokedAt) return "revoked";
+  if (share.expiresAt && Date.parse(share.expiresAt) <= now) return "expired";
+  return "active";
+}
+
+export function sharePath(token: string) {
+  return `/s/${encodeURIComponent(token)}`;
+}
+
+/** Expiry in whole days from now: a number from 1 to MAX_SHARE_DAYS, or null/absent for never. */
+export function parseExpiry(v: unknown): string | undefined {
+  if (v === undefined || v === null || v === "") return undefined;
+  const days = Number(v);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_SHARE_DAYS) {
+    throw new ArchiveError(`expiresInDays must be a whole number from 1 to ${MAX_SHARE_DAYS}`, 400);
+  }
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+async function readRecord(token: string): Promise<ShareRecord | null> {
+  if (!TOKEN.test(token)) return null;
+  const doc = await readJson(getStorage(), recordPath(token));
+  return isShareRecord(doc) && doc.token === token ? doc : null;
+}
+
+async function readViews(token: string): Promise<ViewCount> {
+  const doc = await readJson<ViewCount>(getStorage(), viewsPath(token));
+  return { views: typeof doc?.views === "number" ? doc.views : 0, lastViewedAt: doc?.lastViewedAt };
+}
+
+async function withViews(record: ShareRecord): Promise<Share> {
+  return { ...record, ...(await readViews(record.token)) };
+}
+
+/** The item's links in `owner`'s archive, newest first, revoked and expired ones included. */
+export async function listShares(itemId: string, owner: string | undefined): Promise<Share[]> {
+  const prefix = itemPrefix(itemId, owner);
+  const tokens = (await listAll(getStorage(), prefix)).map((o) => o.key.slice(prefix.length));
+  const records = await Promise.all(tokens.map(readRecord));
+  const shares = await Promise.all(
+    records.filter((r): r is ShareRecord => !!r && r.itemId === itemId && r.owner === owner).map(withViews)
+  );
+  return shares.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** A new link to an item in `owner`'s archive; ArchiveError 404 when there is no such item. */
+export async function createShare(itemId: string, owner: string | undefined, expiresAt?: string): Promise<Share> {
+  if (!(await getArchive(userStorage(owner)).get(itemId))) throw new ArchiveError("Not found", 404);
+  const record: ShareRecord = {
+    token: randomBytes(16).toString("base64url"),
+    itemId,
+    owner,
+    createdAt: new Date().toISOString(),
+    expiresAt,
+  };
+  const store = getStorage();
+  await writeJson(store, recordPath(record.token), record);
+  await store.put(itemPrefix(itemId, owner) + record.token, record.token, "text/plain");
+  return { ...record, views: 0 };
+}
+
+/** Revoke a link in `owner`'s archive; revoking twice is fine. ArchiveError 404 for anyone else's. */
+export async function revokeShare(token: string, owner: string | undefined): Promise<Share> {
+  const record = await readRecord(token);
+  if (!record || record.owner !== owner) throw new ArchiveError("Share not found", 404);
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    await writeJson(getStorage(), recordPath(token), record);
+  }
+  return withViews(record);
+}
+
+// Counting a view is read-modify-write, so views are queued (see queue.ts);
+// views racing on other instances can lose a count, never a revocation.
+const enqueue = createQueue();
+
+/**
+ * What /s/{token} shows: the shared item, counting the view, or null when
+ * the link is unknown, revoked or expired, or its item is gone.
+ */
+export async function openShare(token: string): Promise<{ share: Share; item: ArchiveItem } | null> {
+  const record = await readRecord(token);
+  if (!record || shareState(record) !== "active") return null;
+  const item = await getArchive(userStorage(record.owner)).get(record.itemId);
+  if (!item) return null;
+  const counted = await enqueue(async () => {
+    const { views } = await readViews(token);
+    const next: ViewCount = { views: views + 1, lastViewedAt: new Date().toISOString() };
+    await writeJson(getStorage(), viewsPath(token), next);
+    return next;
+  });
+  return { share: { ...record, ...counted }, item };
+}
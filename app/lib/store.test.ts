@@ -0,0 +1,75 @@
+// app/lib/store.test.ts
+import { describe, expect, it } from "vitest";
+import { writeJson } from "@/lib/storage";
+import { userStorage } from "./auth";
+import { getArchive, isItemId, type ArchiveItem } from "./store";
+
+let uid = 0;
+
+function item(id: string): ArchiveItem {
+  return { id, kind: "full", title: id, description: "", html: "<p>x</p>", createdAt: "2026-01-01T00:00:00.000Z" };
+}
+
+describe("legacy suffixed items", () => {
+  it("are found by their own id only", async () => {
+    const store = userStorage(`s${++uid}`);
+    await writeJson(store, "recipes/soup-2.json", item("soup-2"));
+    await writeJson(store, "recipes/soup-abc123.json", item("soup"));
+    const repo = getArchive(store);
+    expect((await repo.get("soup"))?.id).toBe("soup");
+    expect((await repo.get("soup-2"))?.id).toBe("soup-2");
+  });
+
+  it("deleting one leaves other items' files alone", async () => {
+    const store = userStorage(`s${++uid}`);
+    const uuid = "1234abcd-5678-9abc-def0";
+    await writeJson(store, "recipes/soup-2.json", item("soup-2"));
+    await writeJson(store, `recipes/${uuid}-123456789abc.json`, item(`${uuid}-123456789abc`));
+    const repo = getArchive(store);
+    await repo.delete("soup");
+    await repo.delete(uuid);
+    expect(await store.head("recipes/soup-2.json")).not.toBeNull();
+    expect(await store.head(`recipes/${uuid}-123456789abc.json`)).not.toBeNull();
+  });
+});
+
+describe("isItemId", () => {
+  it("takes UUIDs and legacy slugs, nothing that reaches another key", () => {
+    expect(isItemId(crypto.randomUUID())).toBe(true);
+    expect(isItemId("pasta-carbonara")).toBe(true);
+    for (const bad of ["", "index", "a/v1", "../x", ".x", "a~b", "a b"]) expect(isItemId(bad)).toBe(false);
+  });
+});
+
+describe("update", () => {
+  it("sanitizes recipe sections", async () => {
+    const repo = getArchive(userStorage(`s${++uid}`));
+    const saved = await repo.save({ kind: "full", title: "Soup", description: "", html: "<p>x</p>" });
+    const next = await repo.update(saved.id, {
+      recipes: [{ id: 1, title: "Soup", sections: [{ heading: "Steps", html: `<p>Stir</p><script>alert(1)</script>` }] }],
+    });
+    expect(next.recipes?.[0].sections[0].html).toBe("<p>Stir</p>");
+  });
+});
+
+describe("save", () => {
+  it("sanitizes recipe sections, given or parsed", async () => {
+    const repo = getArchive(userStorage(`s${++uid}`));
+    const given = await repo.save({
+      kind: "full",
+      title: "Soup",
+      description: "",
+      html: "<p>x</p>",
+      recipes: [{ id: 1, title: "Soup", sections: [{ heading: "Steps", html: `<p onclick="x()">Stir</p>` }] }],
+    });
+    expect(given.recipes?.[0].sections[0].html).toBe("<p>Stir</p>");
+    const parsed = await repo.save({
+      kind: "full",
+      title: "Soup",
+      description: "",
+      html: `<h1>Soup</h1><h2>Ingredients</h2><ul><li>1 onion</li></ul><h2>Steps</h2><ol><li>Stir<img src=x onerror=alert(1)></li></ol>`,
+    });
+    expect(parsed.recipes?.length).toBe(1);
+    expect(JSON.stringify(parsed.recipes)).not.toContain("onerror");
+  });
+});
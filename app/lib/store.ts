@@ -1,8 +1,39 @@
-import { put, list, del } from "@vercel/blob";
+import { getStorage, listAll, readJson, writeJson, type StorageDriver } from "@/lib/storage";
+import {
+  addImageRefs,
+  buildImageRefs,
+  imageKeys,
+  persistImages,
+  readImageRefs,
+  releaseImages,
+  writeImageRefs,
+} from "./image-store";
+import { parseRecipesFromHtml } from "./recipe-parse";
+import { createQueue } from "./queue";
+import { sanitizeDocument, sanitizeRecipes } from "./sanitize";
+import { SearchIndex, type SearchResult } from "./search";
+import type { Recipe } from "./types";
 
-// Storage model: one JSON blob per item, public.
+// Storage model: one JSON object per item, on whichever driver
+// lib/storage.ts selects (Vercel Blob, local disk or memory).
 // path: recipes/{id}.json
-// JSON: { id, kind, title, description, html, createdAt }
+// JSON: { id, kind, title, description, html, createdAt, query?, tags?, recipes?, legacy?, version?, updatedAt? }
+//
+// update() snapshots the item as it was to recipes/{id}/v{n}.json before
+// writing the new state, so /r/{id} links survive edits and every earlier
+// version can be viewed, diffed or restored.
+//
+// recipes/index.json holds the summary of every item so listing the archive is
+// a single read. save/put/delete keep it current; reindex() rebuilds it from
+// the item objects when it drifts (a failed write, items copied in by hand).
+// search/index.json (see search.ts) is maintained alongside it.
+//
+// save() and update() copy remote images into images/ (see image-store.ts);
+// put() records which images an item uses and delete() removes the ones no
+// other item needs.
+//
+// This is the only layout new code writes. Older layouts (archive/{slug}/…,
+// recipes/{slug}.html) are read by app/lib/migrate.ts and rewritten here.
 
 export type Kind = "full" | "highlight";
 export type ArchiveItem = {
@@ -12,72 +43,443 @@ export type ArchiveItem = {
   description: string;
   html: string;
   createdAt: string;
+  /** The generate query that produced the item, when known */
+  query?: string;
+  /** Lowercase labels for filtering; see normalizeTags */
+  tags?: string[];
+  /** Starred in the archive; set by setFavorite(), outside version history */
+  favorite?: boolean;
+  /** Structured recipes, parsed once at save time */
+  recipes?: Recipe[];
+  /** Set on items rewritten from a legacy layout */
+  legacy?: { layout: LegacyLayout; path: string };
+  /** Current version number; absent means 1 (never edited) */
+  version?: number;
+  /** When the current version was written by update() or restore() */
+  updatedAt?: string;
 };
 
-const PREFIX = "recipes/";
+export type LegacyLayout = "archive-dir" | "recipes-html" | "recipes-suffixed";
+
+export type ArchiveSummary = Pick<ArchiveItem, "id" | "kind" | "title" | "description" | "createdAt" | "query" | "tags" | "favorite">;
+
+export type ArchiveIndex = {
+  version: 1;
+  updatedAt: string;
+  /** Newest first */
+  items: ArchiveSummary[];
+};
+
+export type IndexReport = {
+  dryRun: boolean;
+  count: number;
+  /** Items present in storage but missing from the index */
+  added: string[];
+  /** Index entries whose item no longer exists */
+  removed: string[];
+  /** Index entries that no longer match their item */
+  changed: string[];
+};
 
-function needToken() {
-  if (!process.env.BLOB_READ_WRITE_TOKEN) {
-    throw new Error("BLOB_READ_WRITE_TOKEN not configured");
+/** Fields update() may change; id and createdAt never do. */
+export type ArchiveUpdate = Partial<Pick<ArchiveItem, "kind" | "title" | "description" | "html" | "query" | "tags" | "recipes">>;
+
+export type VersionInfo = {
+  version: number;
+  title: string;
+  /** When this version was written */
+  savedAt: string;
+  current: boolean;
+};
+
+export class ArchiveError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
   }
 }
 
-export async function saveItem(input: {
+export type NewArchiveItem = {
   kind: Kind;
   title: string;
   description: string;
   html: string;
-}) {
-  needToken();
-  const id = crypto.randomUUID();
-  const item: ArchiveItem = {
-    id,
-    ...input,
-    createdAt: new Date().toISOString(),
-  };
-  const pathname = `${PREFIX}${id}.json`;
-  await put(pathname, JSON.stringify(item), {
-    access: "public",
-    token: process.env.BLOB_READ_WRITE_TOKEN,
-    contentType: "application/json; charset=utf-8",
-  });
-  return { id };
+  query?: string;
+  tags?: string[];
+  recipes?: Recipe[];
+};
+
+/** The one way routes and pages read and write the archive. */
+export interface ArchiveRepository {
+  save(input: NewArchiveItem): Promise<ArchiveItem>;
+  /**
+   * Write an item under its existing id (migration, restore). `history` is
+   * written as the item's earlier versions, by their own version numbers.
+   */
+  put(item: ArchiveItem, opts?: { history?: ArchiveItem[] }): Promise<void>;
+  get(id: string): Promise<ArchiveItem | null>;
+  /**
+   * Apply `patch` as a new version, keeping the current one in history.
+   * Throws ArchiveError 404 for an unknown id and 409 when `expectedVersion`
+   * is given and no longer current.
+   */
+  update(id: string, patch: ArchiveUpdate, opts?: { expectedVersion?: number }): Promise<ArchiveItem>;
+  /** Every version of an item, oldest first; the last one is current. */
+  versions(id: string): Promise<VersionInfo[]>;
+  getVersion(id: string, version: number): Promise<ArchiveItem | null>;
+  /** Make an earlier version current again, as a new version. */
+  restore(id: string, version: number): Promise<ArchiveItem>;
+  /** Star or unstar an item in place; not a new version. Throws ArchiveError 404. */
+  setFavorite(id: string, favorite: boolean): Promise<ArchiveItem>;
+  /** Removes the item and its version history. */
+  delete(id: string): Promise<void>;
+  /** Every item, newest first, read from the index. */
+  list(): Promise<ArchiveSummary[]>;
+  /** Compare the index with the stored items and, unless dryRun, rewrite it and the search index. */
+  reindex(opts?: { dryRun?: boolean }): Promise<IndexReport>;
+  /** Ranked full-text matches over titles, chefs, ingredients and page text. */
+  search(q: string, opts?: { limit?: number; kind?: Kind }): Promise<SearchResult[]>;
 }
 
-export async function getItem(id: string): Promise<ArchiveItem | null> {
-  needToken();
-  const pathname = `${PREFIX}${id}.json`;
-  // list() to get full URL (put doesn't return a deterministic URL here)
-  const li = await list({ prefix: PREFIX, token: process.env.BLOB_READ_WRITE_TOKEN });
-  const blob = li.blobs.find((b) => b.pathname === pathname);
-  if (!blob) return null;
-  const res = await fetch(blob.url, { cache: "no-store" });
-  if (!res.ok) return null;
-  return (await res.json()) as ArchiveItem;
+const PREFIX = "recipes/";
+
+export const INDEX_PATH = `${PREFIX}index.json`;
+
+export function itemPath(id: string) {
+  return `${PREFIX}${id}.json`;
 }
 
-export async function deleteItem(id: string) {
-  needToken();
-  const pathname = `${PREFIX}${id}.json`;
-  await del(pathname, { token: process.env.BLOB_READ_WRITE_TOKEN });
+export function versionPath(id: string, version: number) {
+  return `${PREFIX}${id}/v${version}.json`;
 }
 
-export async function listItems(): Promise<{
-  full: Pick<ArchiveItem, "id" | "title" | "description" | "createdAt">[];
-  highlight: Pick<ArchiveItem, "id" | "title" | "description" | "createdAt">[];
-}> {
-  needToken();
-  const li = await list({ prefix: PREFIX, token: process.env.BLOB_READ_WRITE_TOKEN });
-  const entries: ArchiveItem[] = [];
-  for (const b of li.blobs) {
-    if (!b.pathname.endsWith(".json")) continue;
-    const r = await fetch(b.url, { cache: "no-store" });
-    if (r.ok) {
-      const j = (await r.json()) as ArchiveItem;
-      entries.push(j);
+export function currentVersion(item: ArchiveItem): number {
+  return item.version ?? 1;
+}
+
+/**
+ * What an item id can be: a UUID from save(), or a legacy slug that migrate.ts
+ * kept (one path segment). Anything else could land on another document:
+ * `index` is the archive index, and a `/` reaches into version paths.
+ */
+export function isItemId(id: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9._%-]{0,199}$/.test(id) && id !== "index";
+}
+
+/**
+ * Items saved before addRandomSuffix was turned off live at
+ * recipes/{id}-{suffix}.json; accept both until they are migrated.
+ */
+function isItemPath(pathname: string, id: string) {
+  if (pathname === itemPath(id)) return true;
+  const rest = pathname.startsWith(`${PREFIX}${id}-`) ? pathname.slice(PREFIX.length + id.length + 1) : "";
+  return /^[A-Za-z0-9]+\.json$/.test(rest);
+}
+
+/**
+ * Canonical items are the only JSON documents with both `id` and `html`;
+ * this rules out legacy sidecars (recipes/{slug}.json) and recipes/index.json.
+ */
+export function isArchiveItem(v: any): v is ArchiveItem {
+  return !!v && typeof v === "object" && typeof v.id === "string" && typeof v.html === "string";
+}
+
+export function summarize({ id, kind, title, description, createdAt, query, tags, favorite }: ArchiveItem): ArchiveSummary {
+  return { id, kind, title, description, createdAt, query, tags, favorite };
+}
+
+/** Trimmed, lowercased, de-duplicated; anything that isn't a string is dropped. */
+export function normalizeTags(v: unknown): string[] {
+  if (!Array.isArray(v)) return [];
+  const tags = v
+    .filter((t): t is string => typeof t === "string")
+    .map((t) => t.trim().toLowerCase().replace(/\s+/g, " ").slice(0, 40))
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+function versionInfo(item: ArchiveItem, version: number, current: boolean): VersionInfo {
+  return { version, title: item.title, savedAt: item.updatedAt ?? item.createdAt, current };
+}
+
+function isArchiveIndex(v: any): v is ArchiveIndex {
+  return !!v && typeof v === "object" && v.version === 1 && Array.isArray(v.items);
+}
+
+function newestFirst(a: ArchiveSummary, b: ArchiveSummary) {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+function sameSummary(a: ArchiveSummary, b: ArchiveSummary) {
+  return (
+    (["kind", "title", "description", "createdAt", "query"] as const).every((k) => a[k] === b[k]) &&
+    !!a.favorite === !!b.favorite &&
+    (a.tags ?? []).join("\n") === (b.tags ?? []).join("\n")
+  );
+}
+
+class StorageArchiveRepository implements ArchiveRepository {
+  // Index and image refs updates are read-modify-write; see queue.ts.
+  private enqueue = createQueue();
+  private searchIndex: SearchIndex;
+
+  constructor(private store: StorageDriver) {
+    this.searchIndex = new SearchIndex(store);
+  }
+
+  async save(input: NewArchiveItem): Promise<ArchiveItem> {
+    const { html, recipes } = await persistImages(
+      this.store,
+      sanitizeDocument(input.html),
+      sanitizeRecipes(input.recipes ?? parseRecipesFromHtml(input.html))
+    );
+    const item: ArchiveItem = {
+      id: crypto.randomUUID(),
+      ...input,
+      html,
+      tags: input.tags?.length ? normalizeTags(input.tags) : undefined,
+      recipes,
+      createdAt: new Date().toISOString(),
+    };
+    await this.put(item);
+    return item;
+  }
+
+  async put(item: ArchiveItem, opts: { history?: ArchiveItem[] } = {}): Promise<void> {
+    const history = opts.history ?? [];
+    for (const old of history) await writeJson(this.store, versionPath(item.id, currentVersion(old)), old);
+    await writeJson(this.store, itemPath(item.id), item);
+    const entry = summarize(item);
+    await this.updateIndex((items) => [entry, ...items.filter((e) => e.id !== item.id)]);
+    if (!(await this.searchIndex.upsert(item))) await this.searchIndex.rebuild(await this.scanItems());
+    await this.enqueue(async () => {
+      const refs = await readImageRefs(this.store);
+      const keys = Array.from(new Set([item, ...history].flatMap((i) => imageKeys(i))));
+      if (refs) await addImageRefs(this.store, refs, item.id, keys);
+      else await writeImageRefs(this.store, buildImageRefs(await this.scanAll()));
+    });
+  }
+
+  private async find(id: string) {
+    if (await this.store.head(itemPath(id))) return itemPath(id);
+    // The suffixed form also matches other items' files (soup-2.json for
+    // "soup"), so a candidate only counts when it holds this id.
+    const li = await this.store.list(`${PREFIX}${id}-`);
+    for (const o of li.objects) {
+      if (!isItemPath(o.key, id)) continue;
+      const j = await readJson(this.store, o.key);
+      if (isArchiveItem(j) && j.id === id) return o.key;
     }
+    return null;
   }
-  entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  async get(id: string): Promise<ArchiveItem | null> {
+    const key = await this.find(id);
+    if (!key) return null;
+    const j = await readJson(this.store, key);
+    return isArchiveItem(j) && j.id === id ? j : null;
+  }
+
+  async update(id: string, patch: ArchiveUpdate, opts: { expectedVersion?: number } = {}): Promise<ArchiveItem> {
+    const current = await this.get(id);
+    if (!current) throw new ArchiveError("Not found", 404);
+    const version = currentVersion(current);
+    if (opts.expectedVersion != null && opts.expectedVersion !== version) {
+      throw new ArchiveError(`Item is at version ${version}, not ${opts.expectedVersion}`, 409);
+    }
+    const defined = Object.fromEntries(Object.entries(patch).filter(([, v]) => v !== undefined)) as ArchiveUpdate;
+    if (defined.html !== undefined) defined.html = sanitizeDocument(defined.html);
+    if (defined.recipes) defined.recipes = sanitizeRecipes(defined.recipes);
+    const next: ArchiveItem = {
+      ...current,
+      ...defined,
+      tags: defined.tags ? normalizeTags(defined.tags) : current.tags,
+      // New html without new recipes: the old structured data no longer matches.
+      recipes: defined.recipes ?? (defined.html !== undefined ? parseRecipesFromHtml(defined.html) : current.recipes),
+      version: version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    if (defined.html !== undefined || defined.recipes) {
+      const persisted = await persistImages(this.store, next.html, next.recipes ?? []);
+      next.html = persisted.html;
+      if (next.recipes) next.recipes = persisted.recipes;
+    }
+    // History first: if the second write fails the item is unchanged and the
+    // snapshot is just a duplicate of it.
+    await writeJson(this.store, versionPath(id, version), current);
+    await this.put(next);
+    return next;
+  }
+
+  async versions(id: string): Promise<VersionInfo[]> {
+    const current = await this.get(id);
+    if (!current) return [];
+    const objects = await listAll(this.store, `${PREFIX}${id}/v`);
+    const history: VersionInfo[] = [];
+    for (const o of objects) {
+      const m = /\/v(\d+)\.json$/.exec(o.key);
+      if (!m || Number(m[1]) >= currentVersion(current)) continue;
+      const j = await readJson(this.store, o.key);
+      if (isArchiveItem(j)) history.push(versionInfo(j, Number(m[1]), false));
+    }
+    history.sort((a, b) => a.version - b.version);
+    return [...history, versionInfo(current, currentVersion(current), true)];
+  }
+
+  async getVersion(id: string, version: number): Promise<ArchiveItem | null> {
+    const current = await this.get(id);
+    if (!current) return null;
+    if (version === currentVersion(current)) return current;
+    if (version > currentVersion(current)) return null;
+    const j = await readJson(this.store, versionPath(id, version));
+    return isArchiveItem(j) && j.id === id ? { ...j, version } : null;
+  }
+
+  async restore(id: string, version: number): Promise<ArchiveItem> {
+    const old = await this.getVersion(id, version);
+    if (!old) throw new ArchiveError(`Version ${version} not found`, 404);
+    const { kind, title, description, html, query, tags, recipes } = old;
+    return this.update(id, { kind, title, description, html, query, tags: tags ?? [], recipes: recipes ?? parseRecipesFromHtml(html) });
+  }
+
+  async setFavorite(id: string, favorite: boolean): Promise<ArchiveItem> {
+    const current = await this.get(id);
+    if (!current) throw new ArchiveError("Not found", 404);
+    if (!!current.favorite === favorite) return current;
+    const next: ArchiveItem = { ...current, favorite: favorite || undefined };
+    await this.put(next);
+    return next;
+  }
+
+  async delete(id: string): Promise<void> {
+    const key = await this.find(id);
+    if (key) await this.store.delete(key);
+    const history = await listAll(this.store, `${PREFIX}${id}/`);
+    if (history.length) await this.store.delete(history.map((o) => o.key));
+    await this.updateIndex((items) => items.filter((e) => e.id !== id));
+    await this.searchIndex.remove(id);
+    await this.enqueue(async () => {
+      const refs = await readImageRefs(this.store);
+      if (refs) await releaseImages(this.store, refs, id);
+      // No refs to go by: rebuild them from what's left and sweep the rest.
+      else await releaseImages(this.store, buildImageRefs(await this.scanAll()), id, { sweep: true });
+    });
+  }
+
+  async list(): Promise<ArchiveSummary[]> {
+    const index = await readJson(this.store, INDEX_PATH);
+    if (isArchiveIndex(index)) return index.items;
+    // First run, or the index was lost: build it once from the items.
+    await this.reindex();
+    const rebuilt = await readJson(this.store, INDEX_PATH);
+    return isArchiveIndex(rebuilt) ? rebuilt.items : [];
+  }
+
+  async reindex(opts: { dryRun?: boolean } = {}): Promise<IndexReport> {
+    const dryRun = !!opts.dryRun;
+    const run = async () => {
+      const stored = await this.scanItems();
+      const items = stored.map(summarize);
+      const current = await readJson(this.store, INDEX_PATH);
+      const indexed = new Map((isArchiveIndex(current) ? current.items : []).map((e) => [e.id, e]));
+      const ids = new Set(items.map((e) => e.id));
+      const report: IndexReport = {
+        dryRun,
+        count: items.length,
+        added: items.filter((e) => !indexed.has(e.id)).map((e) => e.id),
+        removed: Array.from(indexed.keys()).filter((id) => !ids.has(id)),
+        changed: items.filter((e) => indexed.has(e.id) && !sameSummary(indexed.get(e.id)!, e)).map((e) => e.id),
+      };
+      if (!dryRun) {
+        await this.writeIndex(items);
+        await this.searchIndex.rebuild(stored);
+      }
+      return report;
+    };
+    return dryRun ? run() : this.enqueue(run);
+  }
+
+  async search(q: string, opts: { limit?: number; kind?: Kind } = {}): Promise<SearchResult[]> {
+    if (!(await this.searchIndex.exists())) await this.searchIndex.rebuild(await this.scanItems());
+    return this.searchIndex.search(q, opts);
+  }
+
+  /** Every item object, read one by one; only rebuilds pay for this. */
+  private async scanItems(): Promise<ArchiveItem[]> {
+    const objects = await listAll(this.store, PREFIX);
+    const entries = new Map<string, ArchiveItem>();
+    for (const o of objects) {
+      // Only top-level recipes/{id}.json; anything deeper is not an item.
+      if (!/^recipes\/[^/]+\.json$/.test(o.key) || o.key === INDEX_PATH) continue;
+      const j = await readJson(this.store, o.key);
+      // An unmigrated suffixed copy loses to the canonical one.
+      if (isArchiveItem(j) && (o.key === itemPath(j.id) || !entries.has(j.id))) entries.set(j.id, j);
+    }
+    return Array.from(entries.values());
+  }
+
+  /** Every item and stored version; only image refs rebuilds pay for this. */
+  private async scanAll(): Promise<ArchiveItem[]> {
+    const objects = await listAll(this.store, PREFIX);
+    const items: ArchiveItem[] = [];
+    for (const o of objects) {
+      if (!o.key.endsWith(".json") || o.key === INDEX_PATH) continue;
+      const j = await readJson(this.store, o.key);
+      if (isArchiveItem(j)) items.push(j);
+    }
+    return items;
+  }
+
+  private async writeIndex(items: ArchiveSummary[]) {
+    const index: ArchiveIndex = {
+      version: 1,
+      updatedAt: new Date().toISOString(),
+      items: [...items].sort(newestFirst),
+    };
+    await writeJson(this.store, INDEX_PATH, index);
+  }
+
+  private updateIndex(edit: (items: ArchiveSummary[]) => ArchiveSummary[]) {
+    return this.enqueue(async () => {
+      const current = await readJson(this.store, INDEX_PATH);
+      // Without an index, start from the items themselves (which already
+      // include the write that got us here).
+      const items = isArchiveIndex(current) ? current.items : (await this.scanItems()).map(summarize);
+      await this.writeIndex(edit(items));
+    });
+  }
+}
+
+const repositories = new WeakMap<StorageDriver, ArchiveRepository>();
+
+/**
+ * The archive in `store`: the whole storage by default, or one user's part
+ * of it (see app/lib/auth.ts). One repository per driver, so index writes
+ * stay queued behind each other.
+ */
+export function getArchive(store: StorageDriver = getStorage()): ArchiveRepository {
+  let repo = repositories.get(store);
+  if (!repo) repositories.set(store, (repo = new StorageArchiveRepository(store)));
+  return repo;
+}
+
+export async function saveItem(input: NewArchiveItem, store?: StorageDriver) {
+  const { id } = await getArchive(store).save(input);
+  return { id };
+}
+
+export async function getItem(id: string, store?: StorageDriver): Promise<ArchiveItem | null> {
+  return getArchive(store).get(id);
+}
+
+export async function deleteItem(id: string, store?: StorageDriver) {
+  await getArchive(store).delete(id);
+}
+
+export async function listItems(store?: StorageDriver): Promise<{
+  full: Pick<ArchiveSummary, "id" | "title" | "description" | "createdAt">[];
+  highlight: Pick<ArchiveSummary, "id" | "title" | "description" | "createdAt">[];
+}> {
+  const entries = await getArchive(store).list();
   return {
     full: entries
       .filter((e) => e.kind === "full")
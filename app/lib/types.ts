@@ -5,6 +5,19 @@ export type Recipe = {
   id: number | string;
   title: string;
   author?: string;
+  /** Free-text chef background, as written in the "Chef & Background" section */
+  authorBio?: string;
+  description?: string;
+  ingredients?: string[];
+  /** Ordered instructions; the index is the step number */
+  steps?: string[];
   imageUrl?: string | null;
+  sourceUrl?: string;
+  /** As the source states it: "4 servings", "1 loaf" */
+  yield?: string;
+  /** Human-readable durations: "15 min", "1 hr 30 min" */
+  times?: { prep?: string; cook?: string; total?: string };
+  /** Per serving, label → amount: { Calories: "320 kcal", Fat: "12 g" } */
+  nutrition?: Record<string, string>;
   sections: Section[];
 };
@@ -0,0 +1,67 @@
+// app/login/login-form.tsx — CLIENT UI
+"use client";
+
+import { useState } from "react";
+
+/** Asks /api/auth/login for a magic link, then says where to find it. */
+export default function LoginForm({ next }: { next: string }) {
+  const [email, setEmail] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [sent, setSent] = useState<{ outbox: boolean } | null>(null);
+  const [error, setError] = useState("");
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    try {
+      const r = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ email, next }),
+      });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error || `HTTP ${r.status}`);
+      setSent({ outbox: !!j.outbox });
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (sent) {
+    return (
+      <div className="card p-4 text-slate-600">
+        Check {email} for your sign-in link. It works once, for 15 minutes.
+        {sent.outbox ? (
+          <div className="mt-2 text-sm">
+            No SMTP server is set up, so it went to the <a href="/api/auth/outbox" target="_blank">dev outbox</a> (and the
+            server log).
+          </div>
+        ) : null}
+      </div>
+    );
+  }
+
+  return (
+    <form className="card p-4 flex flex-col gap-3" onSubmit={submit}>
+      <label className="flex flex-col gap-1 text-sm">
+        <span className="text-slate-600">Email</span>
+        <input
+          type="email"
+          required
+          autoFocus
+          autoComplete="email"
+          className="border border-slate-300 rounded-lg px-3 py-2 bg-white"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+      </label>
+      {error ? <div className="text-sm text-red-700">{error}</div> : null}
+      <button className="btn" type="submit" disabled={busy || !email.trim()}>
+        {busy ? "Sending…" : "Email me a sign-in link"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+// app/login/page.tsx
+import Link from "next/link";
+import { currentUser, safeNext } from "@/app/lib/auth";
+import { authEnabled } from "@/app/lib/session";
+import LoginForm from "./login-form";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export default async function LoginPage(props: any) {
+  const params = await props?.searchParams;
+  const next = safeNext(params?.next);
+  const error = typeof params?.error === "string" ? params.error : "";
+
+  if (!authEnabled()) {
+    return (
+      <div className="container">
+        <div className="card p-4 my-8 text-slate-600">
+          Sign-in is off: there are no accounts, and everyone shares one archive. <Link href="/archive">Open it</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const user = await currentUser();
+  return (
+    <div className="container max-w-md">
+      <header className="py-8">
+        <h1 className="text-3xl font-semibold">Sign in</h1>
+        <p className="text-slate-600 mt-2">We’ll email you a link that signs you in. No password needed.</p>
+      </header>
+      {error ? <div className="card p-3 mb-4 text-red-700">{error}</div> : null}
+      {user ? (
+        <div className="card p-4 text-slate-600">
+          You’re signed in as {user.email}. <Link href={next}>Continue</Link>
+        </div>
+      ) : (
+        <LoginForm next={next} />
+      )}
+    </div>
+  );
+}
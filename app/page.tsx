@@ -3,15 +3,9 @@
 
 import React from 'react';
 import Link from 'next/link';
-
-type Section = { heading: string; html: string };
-type Recipe = {
-  id: string | number;
-  title: string;
-  author?: string;
-  sections: Section[];
-  imageUrl?: string | null;
-};
+import type { Recipe } from './lib/types';
+import { sanitizeDocument, sanitizeFragment } from './lib/sanitize';
+import { responsiveImage, responsiveImages } from './lib/img-cdn';
 
 export default function Page() {
   const [query, setQuery] = React.useState('');
@@ -21,60 +15,120 @@ export default function Page() {
   // Dual-output holders (server may return either)
   const [htmlDoc, setHtmlDoc] = React.useState<string | null>(null);
   const [recipes, setRecipes] = React.useState<Recipe[]>([]);
+  const [view, setView] = React.useState<'preview' | 'structured'>('preview');
 
   const hasContent = !!htmlDoc || recipes.length > 0;
 
-  async function handleGenerate() {
+  // Streaming state: the controller cancels the in-flight request
+  const abortRef = React.useRef<AbortController | null>(null);
+  const [generating, setGenerating] = React.useState(false);
+  const [streamed, setStreamed] = React.useState(0);
+  // Set when the server answered from its generation cache
+  const [fromCache, setFromCache] = React.useState(false);
+  // What's on screen is a stream that never finished (cancelled or failed): preview only, not saveable
+  const [partial, setPartial] = React.useState(false);
+
+  React.useEffect(() => () => abortRef.current?.abort(), []);
+
+  function applyResult(data: any) {
+    setFromCache(!!data?.cached);
+    setPartial(false);
+    // Case 1: full HTML document (string), with the recipes parsed out of it
+    if (typeof data?.html === 'string' && data.html.includes('<html')) {
+      setHtmlDoc(data.html);
+      setRecipes(Array.isArray(data?.recipes) ? data.recipes : []);
+      setView('preview');
+      return;
+    }
+
+    // Case 2: structured JSON recipes
+    if (Array.isArray(data?.recipes) && data.recipes.length > 0) {
+      setRecipes(data.recipes);
+      setHtmlDoc(null);
+      return;
+    }
+
+    throw new Error('Model did not return a complete HTML document. Check your model/keys.');
+  }
+
+  // `force` skips the server's cache, for a fresh take on the same query.
+  async function handleGenerate(force = false) {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
+    setGenerating(true);
     setError(null);
     setHtmlDoc(null);
     setRecipes([]);
+    setStreamed(0);
+    setFromCache(false);
+    setPartial(false);
 
+    let raw = '';
+    let finished = false;
     try {
-      const res = await fetch('/api/generate', {
+      const res = await fetch('/api/generate/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query }),
+        body: JSON.stringify({ query, force }),
+        signal: controller.signal,
       });
 
-      if (!res.ok) {
+      if (!res.ok || !res.body) {
         const txt = await res.text().catch(() => '');
         throw new Error(txt || `Request failed (${res.status}).`);
       }
 
-      const data = await res.json();
-
-      // Case 1: full HTML document (string)
-      if (typeof data?.html === 'string' && data.html.includes('<html')) {
-        setHtmlDoc(data.html);
-        setRecipes([]);
-        return;
-      }
-
-      // Case 2: structured JSON recipes
-      if (Array.isArray(data?.recipes) && data.recipes.length > 0) {
-        setRecipes(data.recipes);
-        setHtmlDoc(null);
-        return;
+      let lastPaint = 0;
+      for await (const ev of readEvents(res.body)) {
+        if (ev.event === 'token') {
+          raw += ev.data.delta;
+          setStreamed(raw.length);
+          // Repainting the iframe on every token is wasteful; a few times a second is plenty.
+          const now = Date.now();
+          if (now - lastPaint > 250) {
+            lastPaint = now;
+            setHtmlDoc(stripFence(raw));
+          }
+        } else if (ev.event === 'done') {
+          applyResult(ev.data);
+          finished = true;
+        } else if (ev.event === 'error') {
+          // The server's message; retrying is up to the user, since every attempt costs a generation.
+          throw new Error(ev.data?.error || 'Generation failed. Try again.');
+        }
       }
 
-      throw new Error('Model did not return a complete HTML document. Check your model/keys.');
+      if (!finished) throw new Error('The connection closed before the document was complete. Try again.');
     } catch (e: any) {
-      setError(e?.message || 'Request failed. Try again.');
+      if (!controller.signal.aborted) {
+        setError(e?.message || 'Request failed. Try again.');
+      }
     } finally {
+      // A cancel or failure keeps whatever was streamed so far on screen, as a preview only.
+      if (!finished) {
+        setHtmlDoc(raw ? stripFence(raw) : null);
+        setPartial(!!raw);
+      }
+      abortRef.current = null;
+      setGenerating(false);
       setLoading(false);
     }
   }
 
+  function handleCancel() {
+    abortRef.current?.abort();
+  }
+
   async function handleSave() {
-    if (!hasContent) return;
+    if (!hasContent || partial) return;
 
     try {
       setLoading(true);
       setError(null);
 
       const payload = htmlDoc
-        ? { kind: 'html', html: htmlDoc, query }
+        ? { kind: 'html', html: htmlDoc, recipes, query }
         : { kind: 'recipes', recipes, query };
 
       const r = await fetch('/api/archive', {
@@ -87,6 +141,9 @@ export default function Page() {
         const txt = await r.text().catch(() => '');
         throw new Error(txt || `Save failed (${r.status}).`);
       }
+
+      const j = await r.json().catch(() => null);
+      if (j?.url) window.location.href = j.url;
     } catch (e: any) {
       setError(e?.message || 'Save failed.');
     } finally {
@@ -129,16 +186,20 @@ export default function Page() {
 
           <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
             <button
-              onClick={handleGenerate}
-              disabled={loading || !query.trim()}
+              onClick={generating ? handleCancel : () => handleGenerate()}
+              disabled={!generating && (loading || !query.trim())}
               className="w-full rounded-2xl bg-indigo-600 text-white py-4 text-xl font-semibold shadow-sm disabled:opacity-50"
             >
-              {loading ? 'Working…' : 'Generate'}
+              {generating
+                ? `Cancel${streamed ? ` (${(streamed / 1024).toFixed(1)} KB)` : '…'}`
+                : loading
+                ? 'Working…'
+                : 'Generate'}
             </button>
 
             <button
               onClick={handleSave}
-              disabled={!hasContent || loading}
+              disabled={!hasContent || partial || loading}
               className="w-full rounded-2xl bg-neutral-100 text-neutral-500 py-4 text-xl font-semibold border border-neutral-200 disabled:opacity-50"
             >
               Save
@@ -153,13 +214,47 @@ export default function Page() {
             </div>
           )}
 
+          {partial && !generating && (
+            <div className="mt-4 text-sm text-neutral-500">
+              Generation stopped before the document was complete, so it can&apos;t be saved. Generate again for the full
+              recipe.
+            </div>
+          )}
+
+          {fromCache && !generating && (
+            <div className="mt-4 text-sm text-neutral-500">
+              Served from the cache of earlier identical requests.{' '}
+              <button className="underline" onClick={() => handleGenerate(true)} disabled={loading}>
+                Regenerate
+              </button>
+            </div>
+          )}
+
           {/* PREVIEW */}
           <div className="mt-6">
-            {htmlDoc && (
+            {htmlDoc && recipes.length > 0 && (
+              <div className="mb-3 flex gap-2 text-sm">
+                {(['preview', 'structured'] as const).map((v) => (
+                  <button
+                    key={v}
+                    onClick={() => setView(v)}
+                    className={`rounded-full px-4 py-1.5 border ${
+                      view === v
+                        ? 'bg-neutral-900 text-white border-neutral-900'
+                        : 'bg-white text-neutral-600 border-neutral-300'
+                    }`}
+                  >
+                    {v === 'preview' ? 'Preview' : `Structured (${recipes.length})`}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {htmlDoc && view === 'preview' && (
               <div className="overflow-hidden rounded-2xl border border-neutral-200 shadow-sm">
                 <iframe
                   title="Recipe Preview"
-                  srcDoc={htmlDoc}
+                  srcDoc={responsiveImages(sanitizeDocument(htmlDoc))}
                   sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
                   className="w-full"
                   style={{ height: '1200px' }}
@@ -167,7 +262,7 @@ export default function Page() {
               </div>
             )}
 
-            {!htmlDoc && recipes.length > 0 && (
+            {(!htmlDoc || view === 'structured') && recipes.length > 0 && (
               <div className="space-y-6">
                 {recipes.map((r) => (
                   <article
@@ -182,8 +277,10 @@ export default function Page() {
                     {r.imageUrl ? (
                       // eslint-disable-next-line @next/next/no-img-element
                       <img
-                        src={r.imageUrl}
+                        {...responsiveImage(r.imageUrl)}
                         alt={r.title}
+                        loading="lazy"
+                        decoding="async"
                         className="w-full rounded-xl border border-neutral-200 mb-4 object-cover"
                       />
                     ) : null}
@@ -193,7 +290,7 @@ export default function Page() {
                         <h3 className="font-semibold text-xl mb-2">{s.heading}</h3>
                         <div
                           className="prose max-w-none prose-headings:font-semibold"
-                          dangerouslySetInnerHTML={{ __html: s.html }}
+                          dangerouslySetInnerHTML={{ __html: responsiveImages(sanitizeFragment(s.html, `${r.id}-${i}`)) }}
                         />
                       </section>
                     ))}
@@ -214,3 +311,32 @@ export default function Page() {
     </div>
   );
 }
+
+/** Drop a leading ```html fence so a partial reply still renders as HTML. */
+function stripFence(raw: string): string {
+  return raw.replace(/^\s*```[a-z]*\s*/i, '').replace(/```\s*$/, '');
+}
+
+/** Minimal text/event-stream reader for the /api/generate/stream response. */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: any }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buf = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true });
+    let i: number;
+    while ((i = buf.indexOf('\n\n')) >= 0) {
+      const block = buf.slice(0, i);
+      buf = buf.slice(i + 2);
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) yield { event, data: JSON.parse(data) };
+    }
+  }
+}
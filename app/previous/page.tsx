@@ -1,19 +1,22 @@
 // app/previous/page.tsx
+import { getArchive, type ArchiveSummary } from "@/app/lib/store";
+import { archiveStorage } from "@/app/lib/auth";
+
+export const dynamic = "force-dynamic";
+
 export default async function Previous() {
-  const indexUrl = `https://${process.env.VERCEL_BLOB_STORAGE_HOST || "blob.vercel-storage.com"}/recipes/index.json`;
-  let items: { url: string; slug: string; title: string; ts: number }[] = [];
+  let items: ArchiveSummary[] = [];
   try {
-    const res = await fetch(indexUrl, { cache: "no-store" });
-    if (res.ok) items = await res.json();
+    items = await getArchive(await archiveStorage()).list();
   } catch {}
   return (
     <main style={{maxWidth:900, margin:"0 auto", padding:"24px"}}>
       <h1>Previous Recipes</h1>
       <ul>
         {items.map(i => (
-          <li key={i.slug} style={{margin:"10px 0"}}>
-            <a href={i.url} target="_blank" rel="noopener">
-              {new Date(i.ts).toLocaleString()} — {i.title}
+          <li key={i.id} style={{margin:"10px 0"}}>
+            <a href={`/r/${encodeURIComponent(i.id)}`}>
+              {new Date(i.createdAt).toLocaleString()} — {i.title}
             </a>
           </li>
         ))}
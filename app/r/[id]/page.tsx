@@ -1,34 +1,154 @@
-import { getItem } from "@/app/lib/store";
+import { currentVersion, getArchive } from "@/app/lib/store";
+import { diffVersions, type DiffLine } from "@/app/lib/diff";
+import { sanitizeFragment } from "@/app/lib/sanitize";
+import { responsiveImages } from "@/app/lib/img-cdn";
+import { parseServings } from "@/app/lib/ingredients";
+import { archiveStorage } from "@/app/lib/auth";
+import RestoreButton from "./restore-button";
+import PrintButton from "./print-button";
+import RecipeBody from "./recipe-body";
+import SharePanel from "./share-panel";
 
 export const runtime = "nodejs"; // stable + uses our global CSS/layout
 
+function versionParam(v: unknown): number | null {
+  const n = Number(v);
+  return typeof v === "string" && Number.isInteger(n) && n >= 1 ? n : null;
+}
+
+const DIFF_STYLE: Record<DiffLine["op"], string> = {
+  same: "text-slate-600",
+  add: "bg-green-50 text-green-900",
+  del: "bg-red-50 text-red-900 line-through",
+};
+const DIFF_MARK: Record<DiffLine["op"], string> = { same: " ", add: "+", del: "-" };
+
 export default async function SavedPage(props: any) {
   const params = await props?.params;
   const searchParams = (await props?.searchParams) ?? {};
   const id = params?.id as string | undefined;
   if (!id) return null;
 
-  const item = await getItem(id);
+  const repo = getArchive(await archiveStorage());
+  const latest = await repo.get(id);
+  if (!latest) return null;
+
+  // ?v=2 shows an earlier version; ?from=1&to=3 adds a diff between two.
+  const viewing = versionParam(searchParams?.v);
+  const item = viewing ? await repo.getVersion(id, viewing) : latest;
   if (!item) return null;
+  const isOld = currentVersion(item) !== currentVersion(latest);
+
+  const versions = await repo.versions(id);
+  const from = versionParam(searchParams?.from);
+  const to = versionParam(searchParams?.to);
+  let diff: DiffLine[] | null = null;
+  if (from && to) {
+    const [a, b] = await Promise.all([repo.getVersion(id, from), repo.getVersion(id, to)]);
+    if (a && b) diff = diffVersions(a, b);
+  }
 
   const autoPrint = (searchParams?.print as string) === "1";
+  const versionQuery: Record<string, string> = isOld ? { v: String(currentVersion(item)) } : {};
+  const exportUrl = (format: string) => `/api/archive/export?${new URLSearchParams({ id, format, ...versionQuery })}`;
+  const pdfUrl = `/api/archive/pdf?${new URLSearchParams({ id, ...versionQuery })}`;
+
+  const html = responsiveImages(sanitizeFragment(item.html, item.id));
+  const recipes = item.recipes ?? [];
+  const scalable = recipes.some((r) => r.ingredients?.length);
+  // A servings box only makes sense for one recipe; several get a multiplier.
+  const servings = recipes.length === 1 ? parseServings(recipes[0].yield) : null;
 
   return (
     <div className="container">
       <header className="py-6 flex items-center justify-between">
         <h1 className="text-2xl font-semibold">{item.title}</h1>
-        <div className="flex gap-2">
+        <div className="flex gap-2 no-print">
           <a className="btn" href="/archive">← Back</a>
-          <button className="btn" onClick={() => window.print()}>Print</button>
+          <PrintButton auto={autoPrint} />
         </div>
       </header>
 
-      {/* Render saved HTML — global CSS styles it */}
-      <div className="card p-4">
-        <div className="recipe-surface" dangerouslySetInnerHTML={{ __html: item.html }} />
+      <div className="mb-4 flex flex-wrap items-center gap-3 text-sm text-slate-600 no-print">
+        <span>Download:</span>
+        <a href={pdfUrl}>PDF</a>
+        <a href={exportUrl("jsonld")} download>JSON-LD</a>
+        <a href={exportUrl("md")} download>Markdown</a>
+        <a href={exportUrl("txt")} download>Text</a>
       </div>
 
-      {autoPrint ? <script dangerouslySetInnerHTML={{ __html: "window.print()" }} /> : null}
+      <SharePanel id={id} />
+
+      {isOld ? (
+        <div className="card p-3 mb-4 flex items-center justify-between gap-3 no-print">
+          <span>
+            Viewing version {currentVersion(item)} of {currentVersion(latest)}.{" "}
+            <a href={`/r/${id}`}>Show current</a>
+          </span>
+          <RestoreButton id={id} version={currentVersion(item)} />
+        </div>
+      ) : null}
+
+      {diff ? (
+        <div className="card p-4 mb-4 no-print">
+          <h2 className="text-lg font-semibold mb-2">
+            Changes from v{from} to v{to}
+          </h2>
+          {diff.every((l) => l.op === "same") ? (
+            <p className="text-slate-600">No differences.</p>
+          ) : (
+            <pre className="text-sm whitespace-pre-wrap font-mono">
+              {diff.map((l, i) => (
+                <div key={i} className={DIFF_STYLE[l.op]}>
+                  {DIFF_MARK[l.op]} {l.text}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      ) : null}
+
+      {scalable ? (
+        <RecipeBody html={html} servings={servings} />
+      ) : (
+        /* Render saved HTML — global CSS styles it; its own <style> is scoped to the wrapper */
+        <div className="card p-4">
+          <div className="recipe-surface" dangerouslySetInnerHTML={{ __html: html }} />
+        </div>
+      )}
+
+      {versions.length > 1 ? (
+        <details className="card p-4 mt-4 no-print" open={!!diff}>
+          <summary className="font-semibold cursor-pointer">History ({versions.length} versions)</summary>
+          <ul className="mt-3 space-y-1 text-sm">
+            {[...versions].reverse().map((v) => (
+              <li key={v.version} className="flex flex-wrap gap-3">
+                <span className="font-mono">v{v.version}</span>
+                <span className="text-slate-500">{new Date(v.savedAt).toLocaleString()}</span>
+                <span className="truncate">{v.title}</span>
+                <a href={v.current ? `/r/${id}` : `/r/${id}?v=${v.version}`}>{v.current ? "current" : "view"}</a>
+                {v.version > 1 ? <a href={`/r/${id}?from=${v.version - 1}&to=${v.version}`}>diff</a> : null}
+              </li>
+            ))}
+          </ul>
+          <form method="get" className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <span>Compare</span>
+            <select name="from" defaultValue={String(from ?? versions[versions.length - 2].version)}>
+              {versions.map((v) => (
+                <option key={v.version} value={v.version}>v{v.version}</option>
+              ))}
+            </select>
+            <span>with</span>
+            <select name="to" defaultValue={String(to ?? versions[versions.length - 1].version)}>
+              {versions.map((v) => (
+                <option key={v.version} value={v.version}>v{v.version}</option>
+              ))}
+            </select>
+            {viewing ? <input type="hidden" name="v" value={viewing} /> : null}
+            <button className="btn" type="submit">Diff</button>
+          </form>
+        </details>
+      ) : null}
     </div>
   );
 }
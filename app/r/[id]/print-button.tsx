@@ -0,0 +1,17 @@
+// app/r/[id]/print-button.tsx — CLIENT UI
+"use client";
+
+import { useEffect } from "react";
+
+/** window.print() needs the browser; `auto` prints once on load (?print=1). */
+export default function PrintButton({ auto = false }: { auto?: boolean }) {
+  useEffect(() => {
+    if (auto) window.print();
+  }, [auto]);
+
+  return (
+    <button className="btn" onClick={() => window.print()}>
+      Print
+    </button>
+  );
+}
@@ -0,0 +1,114 @@
+// app/r/[id]/recipe-body.tsx — CLIENT UI
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { adjustIngredient, type UnitSystem } from "@/app/lib/ingredients";
+
+const MULTIPLIERS = [0.5, 1, 1.5, 2, 3, 4];
+
+/**
+ * Every ingredient <li> in the saved page: the items of the lists between an
+ * "Ingredients" heading and the next heading. Works for rendered, generated
+ * and legacy pages alike, since all of them head the list that way.
+ */
+function ingredientItems(root: HTMLElement): HTMLLIElement[] {
+  const out: HTMLLIElement[] = [];
+  for (const h of Array.from(root.querySelectorAll("h1, h2, h3, h4, h5, h6"))) {
+    if (!/ingredient/i.test(h.textContent ?? "")) continue;
+    for (let el = h.nextElementSibling; el && !/^H[1-6]$/.test(el.tagName); el = el.nextElementSibling) {
+      if (el instanceof HTMLLIElement) out.push(el);
+      out.push(...Array.from(el.querySelectorAll("li")));
+    }
+  }
+  return out;
+}
+
+/**
+ * The saved page, with servings and unit controls that rewrite its
+ * ingredient lists in place. `servings` is the recipe's yield when it states
+ * one; without it the controls offer a multiplier instead.
+ */
+export default function RecipeBody({ html, servings }: { html: string; servings: number | null }) {
+  const surface = useRef<HTMLDivElement | null>(null);
+  // Each item's markup as saved, so "as written" can be put back exactly.
+  const originals = useRef(new Map<HTMLLIElement, { html: string; text: string }>());
+  const [factor, setFactor] = useState(1);
+  const [system, setSystem] = useState<UnitSystem>("original");
+
+  useEffect(() => {
+    const root = surface.current;
+    if (!root) return;
+    for (const li of ingredientItems(root)) {
+      if (!originals.current.has(li)) originals.current.set(li, { html: li.innerHTML, text: li.textContent ?? "" });
+      const saved = originals.current.get(li)!;
+      const next = adjustIngredient(saved.text, factor, system);
+      if (next === saved.text) li.innerHTML = saved.html;
+      else li.textContent = next;
+    }
+  }, [factor, system]);
+
+  const changed = factor !== 1 || system !== "original";
+
+  return (
+    <>
+      <div className="card p-3 mb-4 flex flex-wrap items-center gap-3 text-sm no-print">
+        {servings ? (
+          <label className="flex items-center gap-2">
+            <span className="text-slate-600">Servings</span>
+            <input
+              type="number"
+              min={1}
+              className="w-20 border border-slate-300 rounded-lg px-2 py-1 bg-white"
+              value={Math.round(servings * factor * 100) / 100}
+              onChange={(e) => {
+                const n = Number(e.target.value);
+                if (n > 0) setFactor(n / servings);
+              }}
+            />
+          </label>
+        ) : (
+          <label className="flex items-center gap-2">
+            <span className="text-slate-600">Scale</span>
+            <select
+              className="border border-slate-300 rounded-lg px-2 py-1 bg-white"
+              value={MULTIPLIERS.includes(factor) ? String(factor) : ""}
+              onChange={(e) => setFactor(Number(e.target.value))}
+            >
+              {MULTIPLIERS.map((m) => (
+                <option key={m} value={m}>×{m}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          <span className="text-slate-600">Units</span>
+          <select
+            className="border border-slate-300 rounded-lg px-2 py-1 bg-white"
+            value={system}
+            onChange={(e) => setSystem(e.target.value as UnitSystem)}
+          >
+            <option value="original">As written</option>
+            <option value="metric">Metric</option>
+            <option value="us">US</option>
+          </select>
+        </label>
+        {changed ? (
+          <button
+            className="btn"
+            onClick={() => {
+              setFactor(1);
+              setSystem("original");
+            }}
+          >
+            Reset
+          </button>
+        ) : null}
+      </div>
+
+      {/* Render saved HTML — global CSS styles it; its own <style> is scoped to the wrapper */}
+      <div className="card p-4">
+        <div ref={surface} className="recipe-surface" dangerouslySetInnerHTML={{ __html: html }} />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,36 @@
+// app/r/[id]/restore-button.tsx — CLIENT UI
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export default function RestoreButton({ id, version }: { id: string; version: number }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+
+  async function restore() {
+    if (!confirm(`Make version ${version} current? The current version stays in the history.`)) return;
+    setBusy(true);
+    try {
+      const r = await fetch("/api/archive/restore", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ id, version }),
+      });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error || `HTTP ${r.status}`);
+      router.push(`/r/${id}`);
+      router.refresh();
+    } catch (e: any) {
+      alert(`Restore failed: ${e?.message || e}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <button className="btn" onClick={restore} disabled={busy}>
+      {busy ? "Restoring…" : `Restore v${version}`}
+    </button>
+  );
+}
@@ -0,0 +1,139 @@
+// app/r/[id]/share-panel.tsx — CLIENT UI
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type ShareRow = {
+  token: string;
+  path: string;
+  state: "active" | "expired" | "revoked";
+  createdAt: string;
+  expiresAt?: string;
+  views: number;
+  lastViewedAt?: string;
+};
+
+const EXPIRY_OPTIONS = [
+  { label: "Never expires", days: "" },
+  { label: "1 day", days: "1" },
+  { label: "7 days", days: "7" },
+  { label: "30 days", days: "30" },
+];
+
+/** The item's public links: make one, copy it, see its views, revoke it. */
+export default function SharePanel({ id }: { id: string }) {
+  const [shares, setShares] = useState<ShareRow[] | null>(null);
+  const [days, setDays] = useState("7");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch(`/api/archive/shares?${new URLSearchParams({ id })}`, { cache: "no-store" });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error || `HTTP ${r.status}`);
+      setShares(j.shares);
+    } catch {
+      setShares([]);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function send(url: string, init: RequestInit, action: string) {
+    setBusy(true);
+    try {
+      const r = await fetch(url, init);
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error || `HTTP ${r.status}`);
+      await load();
+      return j;
+    } catch (e: any) {
+      alert(`${action} failed: ${e?.message || e}`);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function create() {
+    const j = await send(
+      "/api/archive/shares",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ id, expiresInDays: days ? Number(days) : null }),
+      },
+      "Sharing"
+    );
+    if (j?.share) await copy(j.share.path);
+  }
+
+  async function revoke(token: string) {
+    if (!confirm("Revoke this link? Anyone who has it won’t be able to open it any more.")) return;
+    await send(`/api/archive/shares/${encodeURIComponent(token)}`, { method: "DELETE" }, "Revoking");
+  }
+
+  async function copy(path: string) {
+    const url = new URL(path, location.origin).toString();
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      prompt("Copy the link", url);
+    }
+  }
+
+  return (
+    <details className="card p-4 mb-4 no-print">
+      <summary className="font-semibold cursor-pointer">
+        Share{shares?.some((s) => s.state === "active") ? ` (${shares.filter((s) => s.state === "active").length} active)` : ""}
+      </summary>
+      <p className="text-sm text-slate-600 mt-2">
+        Anyone with a link can read this recipe (its current version), and nothing else in the archive.
+      </p>
+      <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+        <select
+          className="border border-slate-300 rounded-lg px-2 py-1 bg-white"
+          value={days}
+          onChange={(e) => setDays(e.target.value)}
+        >
+          {EXPIRY_OPTIONS.map((o) => (
+            <option key={o.days} value={o.days}>{o.label}</option>
+          ))}
+        </select>
+        <button className="btn" onClick={create} disabled={busy}>
+          {busy ? "Working…" : "Create link and copy"}
+        </button>
+      </div>
+      {shares?.length ? (
+        <ul className="mt-3 space-y-1 text-sm">
+          {shares.map((s) => (
+            <li key={s.token} className="flex flex-wrap items-center gap-3">
+              <span className={`font-mono ${s.state === "active" ? "" : "line-through text-slate-400"}`}>{s.path}</span>
+              <span className="text-slate-500">
+                {s.state === "active"
+                  ? s.expiresAt
+                    ? `expires ${new Date(s.expiresAt).toLocaleString()}`
+                    : "no expiry"
+                  : s.state}
+              </span>
+              <span className="text-slate-500">
+                {s.views} view{s.views === 1 ? "" : "s"}
+                {s.lastViewedAt ? `, last ${new Date(s.lastViewedAt).toLocaleString()}` : ""}
+              </span>
+              {s.state === "active" ? (
+                <>
+                  <button className="underline" onClick={() => copy(s.path)}>Copy</button>
+                  <button className="underline text-red-700" onClick={() => revoke(s.token)} disabled={busy}>
+                    Revoke
+                  </button>
+                </>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </details>
+  );
+}
@@ -1,33 +1,9 @@
 // app/recipes/[slug]/page.tsx
 import type { Metadata } from "next";
-
-type Row = {
-  slug: string;
-  title: string;
-  query: string | null;
-  createdAt: number;
-  urlHtml: string | null;
-  urlJson: string | null;
-};
-
-async function getIndex(): Promise<Row[]> {
-  const base = process.env.NEXT_PUBLIC_BASE_URL ?? "";
-  try {
-    const r = await fetch(`${base}/api/recipes`, { cache: "no-store" });
-    if (!r.ok) throw new Error(String(r.status));
-    const j = await r.json();
-    return Array.isArray(j?.recipes) ? (j.recipes as Row[]) : [];
-  } catch {
-    try {
-      const r2 = await fetch("/api/recipes", { cache: "no-store" } as any);
-      if (!r2.ok) return [];
-      const j2 = await r2.json();
-      return Array.isArray(j2?.recipes) ? (j2.recipes as Row[]) : [];
-    } catch {
-      return [];
-    }
-  }
-}
+import { getArchive, type ArchiveItem } from "@/app/lib/store";
+import { sanitizeDocument } from "@/app/lib/sanitize";
+import { responsiveImages } from "@/app/lib/img-cdn";
+import { archiveStorage } from "@/app/lib/auth";
 
 export async function generateMetadata(
   props: { params: Promise<{ slug: string }> }
@@ -41,8 +17,12 @@ export default async function RecipePage(
 ) {
   const { slug } = await props.params;
 
-  const rows = await getIndex();
-  const row = rows.find((r) => r.slug === slug);
+  let row: ArchiveItem | null = null;
+  try {
+    row = await getArchive(await archiveStorage()).get(decodeURIComponent(slug));
+  } catch {
+    row = null;
+  }
 
   if (!row) {
     return (
@@ -66,18 +46,17 @@ export default async function RecipePage(
       </header>
 
       <section className="prose prose-slate max-w-none">
-        {row.urlHtml ? (
+        {row.html ? (
           <iframe
             title={`${row.title ?? slug} source`}
-            src={row.urlHtml}
+            srcDoc={responsiveImages(sanitizeDocument(row.html))}
+            sandbox="allow-popups allow-popups-to-escape-sandbox"
             className="w-full h-[80vh] rounded-lg border"
           />
-        ) : row.urlJson ? (
+        ) : (
           <pre className="overflow-auto rounded-lg border bg-slate-50 p-4 text-xs">
-            {JSON.stringify({ urlJson: row.urlJson, query: row.query }, null, 2)}
+            {JSON.stringify({ id: row.id, query: row.query ?? null }, null, 2)}
           </pre>
-        ) : (
-          <p>No source URL available for this recipe.</p>
         )}
       </section>
 
@@ -0,0 +1,60 @@
+// app/s/[token]/page.tsx
+import type { Metadata } from "next";
+import { openShare } from "@/app/lib/shares";
+import { sanitizeFragment } from "@/app/lib/sanitize";
+import { responsiveImages } from "@/app/lib/img-cdn";
+import { parseServings } from "@/app/lib/ingredients";
+import PrintButton from "@/app/r/[id]/print-button";
+import RecipeBody from "@/app/r/[id]/recipe-body";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Share links are for the people they're sent to: keep them out of search
+// engines and out of the Referer sent to image hosts.
+export const metadata: Metadata = {
+  title: "Shared recipe – FreshRecipes",
+  robots: { index: false, follow: false },
+  referrer: "no-referrer",
+};
+
+/** A shared archive item, read-only: no archive links, history or edits. See app/lib/shares.ts. */
+export default async function SharedPage(props: any) {
+  const params = await props?.params;
+  const token = params?.token as string | undefined;
+  const opened = token ? await openShare(token).catch(() => null) : null;
+
+  if (!opened) {
+    return (
+      <div className="container">
+        <div className="card p-4 my-8 text-slate-600">
+          This link has expired or been revoked, or the recipe is no longer shared. Ask whoever sent it for a new one.
+        </div>
+      </div>
+    );
+  }
+
+  const { item } = opened;
+  const html = responsiveImages(sanitizeFragment(item.html, item.id));
+  const recipes = item.recipes ?? [];
+  const servings = recipes.length === 1 ? parseServings(recipes[0].yield) : null;
+
+  return (
+    <div className="container">
+      <header className="py-6 flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">{item.title}</h1>
+        <div className="flex gap-2 no-print">
+          <PrintButton />
+        </div>
+      </header>
+
+      {recipes.some((r) => r.ingredients?.length) ? (
+        <RecipeBody html={html} servings={servings} />
+      ) : (
+        <div className="card p-4">
+          <div className="recipe-surface" dangerouslySetInnerHTML={{ __html: html }} />
+        </div>
+      )}
+    </div>
+  );
+}
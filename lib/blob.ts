@@ -1,40 +1,63 @@
 // lib/blob.ts
-import { put as _put, list as _list, del as _del, head as _head } from '@vercel/blob'
+import { put as _put, list as _list, del as _del, head as _head, type ListBlobResultBlob } from '@vercel/blob'
 
-const TOKEN = process.env.BLOB_READ_WRITE_TOKEN
+// The token is checked when a call is made, not at import time, so modules
+// that import this file still load when the archive runs on another storage
+// driver (see lib/storage.ts).
+function token() {
+  const TOKEN = process.env.BLOB_READ_WRITE_TOKEN
+  if (!TOKEN || !TOKEN.trim()) {
+    throw new Error('Missing BLOB_READ_WRITE_TOKEN')
+  }
+  return TOKEN
+}
 
-if (!TOKEN || !TOKEN.trim()) {
-  throw new Error('Missing BLOB_READ_WRITE_TOKEN')
+export function hasToken() {
+  return !!process.env.BLOB_READ_WRITE_TOKEN?.trim()
 }
 
+// Only our own reads go through the blob CDN (browsers get /api/files), and
+// they want the latest copy, not one cached for the default year. 60 s is the
+// shortest it allows; BlobDriver.get in storage.ts also busts the cache.
+const MAX_AGE_SECONDS = 60
+
 /**
- * Upload a public blob.
+ * Upload a public blob at exactly `path` (no random suffix; lib/storage.ts
+ * picks unguessable paths itself).
  * Usage: await put('recipes/abc.html', htmlString)
  */
-export async function put(path: string, data: string | ArrayBuffer | Buffer) {
-  return _put(path, data as any, { access: 'public', token: TOKEN })
+export async function put(path: string, data: string | ArrayBuffer | Buffer, contentType?: string) {
+  return _put(path, data as any, {
+    access: 'public',
+    token: token(),
+    addRandomSuffix: false,
+    cacheControlMaxAge: MAX_AGE_SECONDS,
+    contentType,
+  })
 }
 
+export type ListedBlob = ListBlobResultBlob
+
 /**
  * List blobs, optionally by prefix.
  * Usage: const r = await list('recipes/')
  */
-export async function list(prefix?: string, limit?: number) {
-  return _list({ token: TOKEN, prefix, limit })
+export async function list(prefix?: string, limit?: number, cursor?: string) {
+  return _list({ token: token(), prefix, limit, cursor })
 }
 
 /**
- * Delete a blob by path.
- * Usage: await del('recipes/abc.html')
+ * Delete a blob by url (or several).
+ * Usage: await del(blob.url)
  */
-export async function del(path: string) {
-  return _del(path, { token: TOKEN })
+export async function del(url: string | string[]) {
+  return _del(url, { token: token() })
 }
 
 /**
  * Get blob metadata (no body download).
- * Usage: const meta = await head('recipes/abc.html')
+ * Usage: const meta = await head(blob.url)
  */
-export async function head(path: string) {
-  return _head(path, { token: TOKEN })
+export async function head(url: string) {
+  return _head(url, { token: token() })
 }
@@ -1,16 +1,27 @@
 // lib/images.ts
-type ImgCandidate = { url: string; alt?: string };
+import { safeFetch, type SafeResponse } from "./safe-fetch";
 
-export async function headIsImage(u: string): Promise<boolean> {
+export type ImgCandidate = { url: string; alt?: string };
+
+const BOT_HEADERS = { "User-Agent": "Mozilla/5.0 (FreshRecipesBot)" };
+
+/**
+ * Does `u` answer with an image? HEAD first; hosts that refuse HEAD get a
+ * one-byte ranged GET. Goes through safeFetch, since these URLs come from
+ * the model and scraped pages.
+ */
+export async function headIsImage(u: string, signal?: AbortSignal): Promise<boolean> {
+  const ok = (r: SafeResponse) => r.status >= 200 && r.status < 300 && String(r.headers["content-type"] || "").startsWith("image/");
   try {
-    const h = await fetch(u, {
-      method: "HEAD",
-      redirect: "follow",
-      headers: { "User-Agent": "Mozilla/5.0 (FreshRecipesBot)" },
+    const h = await safeFetch(u, { method: "HEAD", timeoutMs: 5000, signal, headers: BOT_HEADERS });
+    if (h.status !== 405 && h.status !== 501 && h.status !== 403) return ok(h);
+    const g = await safeFetch(u, {
+      timeoutMs: 5000,
+      signal,
+      maxBytes: 10 * 1024 * 1024,
+      headers: { ...BOT_HEADERS, range: "bytes=0-0" },
     });
-    if (!h.ok) return false;
-    const ct = h.headers.get("content-type") || "";
-    return ct.startsWith("image/");
+    return ok(g);
   } catch {
     return false;
   }
@@ -84,20 +95,21 @@ function absolutize(maybe: string, base: string): string {
 
 export async function fetchRealImagesFromSource(
   pageUrl: string,
-  max: number = 8
+  max: number = 8,
+  signal?: AbortSignal
 ): Promise<ImgCandidate[]> {
   try {
-    const rsp = await fetch(pageUrl, {
-      headers: {
-        "User-Agent": "Mozilla/5.0 (FreshRecipesBot)",
-        "Accept": "text/html,application/xhtml+xml",
-      },
-      redirect: "follow",
+    const rsp = await safeFetch(pageUrl, {
+      headers: { ...BOT_HEADERS, Accept: "text/html,application/xhtml+xml" },
+      maxBytes: 3 * 1024 * 1024,
+      timeoutMs: 8000,
+      signal,
     });
-    if (!rsp.ok) return [];
+    if (rsp.status < 200 || rsp.status >= 300) return [];
 
-    const html = await rsp.text();
-    const base = pageUrl;
+    const html = rsp.body.toString("utf8");
+    // Relative URLs resolve against the page that answered, after redirects.
+    const base = rsp.url;
 
     const candidates: string[] = [];
 
@@ -114,7 +126,7 @@ export async function fetchRealImagesFromSource(
     const out: ImgCandidate[] = [];
     for (const u of uniq) {
       if (out.length >= max) break;
-      if (await headIsImage(u)) out.push({ url: u });
+      if (await headIsImage(u, signal)) out.push({ url: u });
     }
     return out;
   } catch {
@@ -123,7 +135,8 @@ export async function fetchRealImagesFromSource(
 }
 
 export async function serpImageFallback(
-  query: string
+  query: string,
+  signal?: AbortSignal
 ): Promise<ImgCandidate[]> {
   const key = process.env.SERPAPI_KEY;
   if (!key) return [];
@@ -134,7 +147,7 @@ export async function serpImageFallback(
     url.searchParams.set("tbm", "isch");
     url.searchParams.set("api_key", key);
 
-    const rsp = await fetch(url.toString(), { cache: "no-store" });
+    const rsp = await fetch(url.toString(), { cache: "no-store", signal });
     if (!rsp.ok) return [];
     const data = await rsp.json();
 
@@ -143,7 +156,7 @@ export async function serpImageFallback(
 
     const out: ImgCandidate[] = [];
     for (const u of imgs) {
-      if (await headIsImage(u)) out.push({ url: u });
+      if (await headIsImage(u, signal)) out.push({ url: u });
       if (out.length >= 6) break;
     }
     return out;
@@ -0,0 +1,21 @@
+// lib/log.ts
+
+// Messages for whoever runs the server, all in one format:
+// "[scope] message: detail". Only for things that are handled where they
+// happen (a usage record or cache write that failed) and would otherwise go
+// unseen; errors a caller can act on are returned or thrown instead.
+
+function detail(err: unknown): string {
+  if (err instanceof Error) return err.message
+  return typeof err === 'string' ? err : JSON.stringify(err)
+}
+
+/** A failure that was handled, but that someone running the app should know about. */
+export function logError(scope: string, message: string, err?: unknown): void {
+  console.error(`[${scope}] ${message}${err === undefined ? '' : `: ${detail(err)}`}`)
+}
+
+/** Something for the server log that isn't a failure. */
+export function logInfo(scope: string, message: string): void {
+  console.log(`[${scope}] ${message}`)
+}
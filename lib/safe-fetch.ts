@@ -0,0 +1,185 @@
+// lib/safe-fetch.ts
+import http from 'http'
+import https from 'https'
+import dns from 'dns'
+import net from 'net'
+import type { LookupFunction } from 'net'
+
+// Server-side fetch of URLs that came from users or the model, without
+// letting them reach our own network (SSRF).
+//   - every hostname is resolved here and each address checked against the
+//     private, loopback, link-local and reserved ranges below, IPv4 and IPv6;
+//   - the socket connects to the address that was checked, so a DNS answer
+//     can't change between the check and the connect (rebinding);
+//   - redirects are followed by hand and every hop goes through the same
+//     checks;
+//   - bodies are capped at maxBytes while streaming, whatever content-length says.
+
+export class SafeFetchError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+export type SafeFetchOptions = {
+  /** Default GET */
+  method?: 'GET' | 'HEAD'
+  /** Reject bodies larger than this (default 5 MB) */
+  maxBytes?: number
+  /** Default 5 */
+  maxRedirects?: number
+  /** Whole request, including redirects (default 10 s) */
+  timeoutMs?: number
+  headers?: Record<string, string>
+  signal?: AbortSignal
+  /**
+   * Blocked addresses to allow anyway, exactly as written (e.g. "127.0.0.1").
+   * Only for tests against a local stand-in; never set from request input.
+   */
+  allowPrivate?: string[]
+}
+
+export type SafeResponse = {
+  status: number
+  /** The URL that answered, after redirects */
+  url: string
+  headers: http.IncomingHttpHeaders
+  body: Buffer
+}
+
+const BLOCKED = new net.BlockList()
+for (const [net4, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED.addSubnet(net4, bits, 'ipv4')
+}
+for (const [net6, bits] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 23],
+  ['2001:db8::', 32], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED.addSubnet(net6, bits, 'ipv6')
+}
+
+/** True for addresses a public URL has no business resolving to. */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address)
+  if (family === 4) return BLOCKED.check(address, 'ipv4')
+  if (family === 6) {
+    // IPv4-mapped and -compatible forms (::ffff:10.0.0.1, ::ffff:a00:1) carry a v4 address.
+    const mapped = /^::(?:ffff:)?(?:0:)?(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1]
+    if (mapped) return BLOCKED.check(mapped, 'ipv4')
+    const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address)
+    if (hex) {
+      const hi = parseInt(hex[1], 16)
+      const lo = parseInt(hex[2], 16)
+      return BLOCKED.check(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`, 'ipv4')
+    }
+    return BLOCKED.check(address, 'ipv6')
+  }
+  return true
+}
+
+function blocked(address: string, allowPrivate: string[] = []): boolean {
+  return isBlockedAddress(address) && !allowPrivate.includes(address)
+}
+
+function guardedLookup(allowPrivate?: string[]): LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, list) => {
+      if (err) return callback(err, '', 0)
+      const bad = list.find((a) => blocked(a.address, allowPrivate))
+      if (bad || !list.length) {
+        const e = Object.assign(new Error(`Blocked address for ${hostname}`), { code: 'EBLOCKED' })
+        return callback(e, '', 0)
+      }
+      // Node asks for every address (all: true) when it will try several, e.g. autoSelectFamily.
+      if (options.all) return callback(null, list)
+      callback(null, list[0].address, list[0].family)
+    })
+  }
+}
+
+function checkUrl(raw: string, allowPrivate?: string[]): URL {
+  let url: URL
+  try {
+    url = new URL(raw)
+  } catch {
+    throw new SafeFetchError('Bad URL', 400)
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new SafeFetchError('Blocked scheme', 400)
+  if (url.username || url.password) throw new SafeFetchError('Credentials in URL', 400)
+  // IP literals never reach the lookup, so check them here.
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (net.isIP(host) && blocked(host, allowPrivate)) throw new SafeFetchError('Blocked host', 403)
+  return url
+}
+
+function request(url: URL, opts: SafeFetchOptions, signal: AbortSignal): Promise<SafeResponse> {
+  const maxBytes = opts.maxBytes ?? 5 * 1024 * 1024
+  return new Promise((resolve, reject) => {
+    const mod = url.protocol === 'https:' ? https : http
+    const req = mod.request(
+      url,
+      {
+        method: opts.method ?? 'GET',
+        headers: { 'user-agent': 'Mozilla/5.0 (compatible; freshrecipes/1.0)', ...opts.headers },
+        lookup: guardedLookup(opts.allowPrivate),
+        signal,
+      },
+      (res) => {
+        const declared = Number(res.headers['content-length'])
+        if (Number.isFinite(declared) && declared > maxBytes) {
+          res.destroy()
+          return reject(new SafeFetchError('Too large', 413))
+        }
+        const chunks: Buffer[] = []
+        let size = 0
+        res.on('data', (c: Buffer) => {
+          size += c.length
+          if (size > maxBytes) {
+            res.destroy()
+            reject(new SafeFetchError('Too large', 413))
+          } else {
+            chunks.push(c)
+          }
+        })
+        res.on('end', () =>
+          resolve({ status: res.statusCode ?? 0, url: url.toString(), headers: res.headers, body: Buffer.concat(chunks) })
+        )
+        res.on('error', () =>
+          reject(signal.aborted ? new SafeFetchError('Upstream timeout', 504) : new SafeFetchError('Upstream error', 502))
+        )
+      }
+    )
+    req.on('error', (err: any) => {
+      if (err?.code === 'EBLOCKED') reject(new SafeFetchError('Blocked host', 403))
+      else if (signal.aborted) reject(new SafeFetchError('Upstream timeout', 504))
+      else reject(new SafeFetchError(`Upstream error: ${err?.code || err?.message || err}`, 502))
+    })
+    req.end()
+  })
+}
+
+/** Fetch a public http(s) URL; throws SafeFetchError with the status a proxy should answer. */
+export async function safeFetch(raw: string, opts: SafeFetchOptions = {}): Promise<SafeResponse> {
+  const ctrl = new AbortController()
+  const timer = setTimeout(() => ctrl.abort(), opts.timeoutMs ?? 10_000)
+  const onAbort = () => ctrl.abort()
+  opts.signal?.addEventListener('abort', onAbort)
+  const maxRedirects = opts.maxRedirects ?? 5
+  try {
+    let url = checkUrl(raw, opts.allowPrivate)
+    for (let hop = 0; ; hop++) {
+      const res = await request(url, opts, ctrl.signal)
+      const location = res.headers.location
+      if (res.status < 300 || res.status >= 400 || res.status === 304 || !location) return res
+      if (hop >= maxRedirects) throw new SafeFetchError('Too many redirects', 502)
+      url = checkUrl(new URL(location, url).toString(), opts.allowPrivate)
+    }
+  } finally {
+    clearTimeout(timer)
+    opts.signal?.removeEventListener('abort', onAbort)
+  }
+}
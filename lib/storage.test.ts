@@ -0,0 +1,92 @@
+// lib/storage.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// An in-memory stand-in for the Vercel Blob API, sorted by pathname like the real list.
+const blobs = vi.hoisted(() => new Map<string, { body: Buffer; contentType?: string; uploadedAt: Date }>())
+const ORIGIN = 'https://store.blob.test/'
+let clock = 0
+
+vi.mock('./blob', () => ({
+  hasToken: () => true,
+  put: async (path: string, data: Buffer, contentType?: string) => {
+    blobs.set(path, { body: Buffer.from(data), contentType, uploadedAt: new Date(++clock) })
+    return { url: ORIGIN + path, pathname: path }
+  },
+  list: async (prefix = '', limit = 1000) => {
+    const all = [...blobs.keys()].filter((p) => p.startsWith(prefix)).sort()
+    return {
+      blobs: all.slice(0, limit).map((p) => ({
+        url: ORIGIN + p,
+        pathname: p,
+        size: blobs.get(p)!.body.byteLength,
+        uploadedAt: blobs.get(p)!.uploadedAt,
+      })),
+      hasMore: all.length > limit,
+      cursor: undefined,
+    }
+  },
+  del: async (urls: string | string[]) => {
+    for (const u of [urls].flat()) blobs.delete(u.slice(ORIGIN.length))
+  },
+  head: async (url: string) => ({ contentType: blobs.get(url.slice(ORIGIN.length))?.contentType }),
+}))
+
+import { getStorage, relocateLegacyBlobs } from './storage'
+
+beforeEach(() => {
+  blobs.clear()
+  vi.stubEnv('STORAGE_DRIVER', 'blob')
+  vi.stubGlobal('fetch', async (url: URL | string) => {
+    const hit = blobs.get(new URL(url).pathname.slice(1))
+    return hit ? new Response(new Uint8Array(hit.body)) : new Response('', { status: 404 })
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+})
+
+describe('BlobDriver', () => {
+  it('writes to unguessable paths and hands out only /api/files URLs', async () => {
+    const store = getStorage()
+    const obj = await store.put('users/abc/recipes/r1.json', '{"a":1}')
+    expect(obj.url).toBe('/api/files/users/abc/recipes/r1.json')
+    const [path] = blobs.keys()
+    expect(path).toMatch(/^users\/abc\/recipes\/r1\.json~[0-9a-f]{32}$/)
+    expect((await store.get('users/abc/recipes/r1.json'))?.toString()).toBe('{"a":1}')
+  })
+
+  it('keeps one copy per key and reads the newest', async () => {
+    const store = getStorage()
+    await store.put('recipes/index.json', 'one')
+    await store.put('recipes/index.json', 'two')
+    expect(blobs.size).toBe(1)
+    expect((await store.get('recipes/index.json'))?.toString()).toBe('two')
+    expect((await store.list('recipes/')).objects.map((o) => o.key)).toEqual(['recipes/index.json'])
+    await store.delete('recipes/index.json')
+    expect(blobs.size).toBe(0)
+  })
+
+  it('still reads blobs at a bare key, and relocates them except those kept public', async () => {
+    blobs.set('recipes/old.json', { body: Buffer.from('old'), contentType: 'application/json', uploadedAt: new Date(0) })
+    blobs.set('images/a.jpg', { body: Buffer.from('img'), uploadedAt: new Date(0) })
+    const store = getStorage()
+    expect((await store.get('recipes/old.json'))?.toString()).toBe('old')
+
+    const keep = (key: string) => key.startsWith('images/')
+    expect(await relocateLegacyBlobs({ keep, dryRun: true })).toEqual(['recipes/old.json'])
+    expect(blobs.has('recipes/old.json')).toBe(true)
+
+    expect(await relocateLegacyBlobs({ keep })).toEqual(['recipes/old.json'])
+    expect(blobs.has('recipes/old.json')).toBe(false)
+    expect(blobs.has('images/a.jpg')).toBe(true)
+    const [moved] = [...blobs].filter(([p]) => p.startsWith('recipes/'))
+    expect(moved[1].contentType).toBe('application/json')
+    expect((await store.get('recipes/old.json'))?.toString()).toBe('old')
+  })
+
+  it('rejects keys that could be mistaken for a copy', async () => {
+    await expect(getStorage().put('recipes/a~b.json', 'x')).rejects.toThrow('Invalid storage key')
+  })
+})
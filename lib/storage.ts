@@ -0,0 +1,388 @@
+// lib/storage.ts
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomBytes } from 'crypto'
+import * as blob from './blob'
+
+// Key/value object storage behind the archive. Keys are slash-separated paths
+// ("recipes/abc.json"); drivers map them onto Vercel Blob, a directory on
+// disk or a Map.
+//
+// STORAGE_DRIVER=blob|local|memory picks one; the default is blob when
+// BLOB_READ_WRITE_TOKEN is set and local otherwise. The local driver writes
+// under STORAGE_DIR (default .data/storage).
+
+export type DriverName = 'blob' | 'local' | 'memory'
+
+export type StoredObject = {
+  key: string
+  /** Where a browser can fetch the object: /api/files/…, which only serves public keys */
+  url: string
+  size: number
+  uploadedAt: Date
+}
+
+export type ListResult = { objects: StoredObject[]; cursor?: string }
+
+export interface StorageDriver {
+  readonly name: DriverName
+  put(key: string, data: string | Uint8Array, contentType?: string): Promise<StoredObject>
+  get(key: string): Promise<Buffer | null>
+  head(key: string): Promise<StoredObject | null>
+  /** Objects whose key starts with `prefix`, in key order; pass `cursor` back for the next page. */
+  list(prefix: string, opts?: { cursor?: string; limit?: number }): Promise<ListResult>
+  /** Missing keys are ignored. */
+  delete(keys: string | string[]): Promise<void>
+}
+
+const DEFAULT_LIMIT = 1000
+
+function localUrl(key: string) {
+  return `/api/files/${key.split('/').map(encodeURIComponent).join('/')}`
+}
+
+function toBuffer(data: string | Uint8Array) {
+  return typeof data === 'string' ? Buffer.from(data, 'utf8') : Buffer.from(data)
+}
+
+type BlobCopy = { pathname: string; url: string; size: number; uploadedAt: Date }
+
+// Vercel Blob only has public blobs, so the pathname is all that keeps one
+// private. Each write goes to a fresh pathname, "{key}~{random}", that nobody
+// outside can guess; older copies are deleted once it is written, and reads
+// take the newest. Browsers are only ever given /api/files/{key}, which
+// decides what is public, never a blob URL. Blobs written before this sit at
+// the bare key: they are still read, and relocateLegacyBlobs() moves them.
+const VERSION_SEP = '~'
+const VERSION = /~[0-9a-f]{32}$/
+
+function newest(a: BlobCopy, b: BlobCopy) {
+  return b.uploadedAt.getTime() - a.uploadedAt.getTime() || b.pathname.localeCompare(a.pathname)
+}
+
+class BlobDriver implements StorageDriver {
+  readonly name = 'blob' as const
+
+  /** Every stored copy of `key`, newest first. */
+  private async copies(key: string): Promise<BlobCopy[]> {
+    if (key.includes(VERSION_SEP)) throw new Error(`Invalid storage key: ${key}`)
+    const toCopy = (b: blob.ListedBlob) => ({ ...b, uploadedAt: new Date(b.uploadedAt) })
+    const versions = (await blob.list(key + VERSION_SEP)).blobs.filter((b) => VERSION.test(b.pathname)).map(toCopy)
+    // The exact key sorts before every longer key sharing its prefix.
+    const legacy = (await blob.list(key, 1)).blobs.filter((b) => b.pathname === key).map(toCopy)
+    return [...versions, ...legacy].sort(newest)
+  }
+
+  private toObject(key: string, c: BlobCopy): StoredObject {
+    return { key, url: localUrl(key), size: c.size, uploadedAt: c.uploadedAt }
+  }
+
+  async put(key: string, data: string | Uint8Array, contentType?: string) {
+    if (key.includes(VERSION_SEP)) throw new Error(`Invalid storage key: ${key}`)
+    const buf = toBuffer(data)
+    const pathname = `${key}${VERSION_SEP}${randomBytes(16).toString('hex')}`
+    await blob.put(pathname, buf, contentType)
+    // Drop what this write replaces. Only older copies: two writers racing
+    // must not delete each other's, and the newest one wins for both.
+    const copies = await this.copies(key)
+    const mine = copies.findIndex((c) => c.pathname === pathname)
+    if (mine >= 0 && copies.length > mine + 1) await blob.del(copies.slice(mine + 1).map((c) => c.url))
+    return { key, url: localUrl(key), size: buf.byteLength, uploadedAt: copies[mine]?.uploadedAt ?? new Date() }
+  }
+
+  async head(key: string) {
+    const [latest] = await this.copies(key)
+    return latest ? this.toObject(key, latest) : null
+  }
+
+  async get(key: string) {
+    // A write that lands between finding the newest copy and fetching it
+    // deletes that copy; look again once.
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const [latest] = await this.copies(key)
+      if (!latest) return null
+      // The CDN caches by URL; the upload time (from the API, not the CDN) names this copy.
+      const url = new URL(latest.url)
+      url.searchParams.set('v', String(latest.uploadedAt.getTime()))
+      const res = await fetch(url, { cache: 'no-store' })
+      if (res.ok) return Buffer.from(await res.arrayBuffer())
+      if (res.status !== 404) return null
+    }
+    return null
+  }
+
+  async list(prefix: string, opts: { cursor?: string; limit?: number } = {}) {
+    const r = await blob.list(prefix, opts.limit ?? DEFAULT_LIMIT, opts.cursor)
+    // Copies of one key sort next to each other; a race can leave two for a moment.
+    const byKey = new Map<string, BlobCopy>()
+    for (const b of r.blobs) {
+      const copy = { ...b, uploadedAt: new Date(b.uploadedAt) }
+      const key = b.pathname.replace(VERSION, '')
+      const seen = byKey.get(key)
+      if (!seen || newest(copy, seen) < 0) byKey.set(key, copy)
+    }
+    return {
+      objects: Array.from(byKey, ([key, c]) => this.toObject(key, c)),
+      cursor: r.hasMore ? r.cursor : undefined,
+    }
+  }
+
+  async delete(keys: string | string[]) {
+    const copies = await Promise.all((Array.isArray(keys) ? keys : [keys]).map((k) => this.copies(k)))
+    const urls = copies.flat().map((c) => c.url)
+    if (urls.length) await blob.del(urls)
+  }
+
+  /** Blobs still at a bare key, outside `keep` (public anyway); moved to a fresh pathname unless dryRun. */
+  async relocateLegacy(keep: (key: string) => boolean, dryRun: boolean): Promise<string[]> {
+    const legacy: blob.ListedBlob[] = []
+    let cursor: string | undefined
+    do {
+      const page = await blob.list('', DEFAULT_LIMIT, cursor)
+      legacy.push(...page.blobs.filter((b) => !VERSION.test(b.pathname) && !keep(b.pathname)))
+      cursor = page.hasMore ? page.cursor : undefined
+    } while (cursor)
+    if (dryRun) return legacy.map((b) => b.pathname)
+
+    const moved: string[] = []
+    for (const b of legacy) {
+      const meta = await blob.head(b.url)
+      const res = await fetch(b.url, { cache: 'no-store' })
+      if (!res.ok) continue
+      // put() deletes the bare copy once the new one is in place.
+      await this.put(b.pathname, Buffer.from(await res.arrayBuffer()), meta.contentType)
+      moved.push(b.pathname)
+    }
+    return moved
+  }
+}
+
+class LocalDriver implements StorageDriver {
+  readonly name = 'local' as const
+
+  constructor(private root: string) {}
+
+  private file(key: string) {
+    const p = path.resolve(this.root, ...key.split('/'))
+    if (!key || key.split('/').some((s) => s === '..' || s === '') || !p.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return p
+  }
+
+  async put(key: string, data: string | Uint8Array) {
+    const p = this.file(key)
+    const buf = toBuffer(data)
+    await fs.mkdir(path.dirname(p), { recursive: true })
+    // Write-then-rename so readers never see a half-written file.
+    const tmp = `${p}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(tmp, buf)
+    await fs.rename(tmp, p)
+    return { key, url: localUrl(key), size: buf.byteLength, uploadedAt: new Date() }
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.file(key))
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null
+      throw err
+    }
+  }
+
+  async head(key: string) {
+    try {
+      const st = await fs.stat(this.file(key))
+      return st.isFile() ? { key, url: localUrl(key), size: st.size, uploadedAt: st.mtime } : null
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null
+      throw err
+    }
+  }
+
+  private async walk(dir: string, out: string[]) {
+    let entries: import('fs').Dirent[]
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true })
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return
+      throw err
+    }
+    for (const e of entries) {
+      const p = path.join(dir, e.name)
+      if (e.isDirectory()) await this.walk(p, out)
+      else if (e.isFile() && !e.name.endsWith('.tmp')) out.push(path.relative(this.root, p).split(path.sep).join('/'))
+    }
+  }
+
+  async list(prefix: string, opts: { cursor?: string; limit?: number } = {}) {
+    // Only walk the directory the prefix points into.
+    const dir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : ''
+    const keys: string[] = []
+    await this.walk(dir ? this.file(dir) : this.root, keys)
+    const matching = keys
+      .filter((k) => k.startsWith(prefix) && (!opts.cursor || k > opts.cursor))
+      .sort()
+    const limit = opts.limit ?? DEFAULT_LIMIT
+    const page = matching.slice(0, limit)
+    const objects = (await Promise.all(page.map((k) => this.head(k)))).filter((o): o is StoredObject => !!o)
+    return { objects, cursor: matching.length > limit ? page[page.length - 1] : undefined }
+  }
+
+  async delete(keys: string | string[]) {
+    for (const k of Array.isArray(keys) ? keys : [keys]) {
+      await fs.rm(this.file(k), { force: true })
+    }
+  }
+}
+
+type MemoryEntry = { data: Buffer; uploadedAt: Date }
+
+class MemoryDriver implements StorageDriver {
+  readonly name = 'memory' as const
+
+  constructor(private map: Map<string, MemoryEntry>) {}
+
+  async put(key: string, data: string | Uint8Array) {
+    const entry = { data: toBuffer(data), uploadedAt: new Date() }
+    this.map.set(key, entry)
+    return { key, url: localUrl(key), size: entry.data.byteLength, uploadedAt: entry.uploadedAt }
+  }
+
+  async get(key: string) {
+    const e = this.map.get(key)
+    return e ? Buffer.from(e.data) : null
+  }
+
+  async head(key: string) {
+    const e = this.map.get(key)
+    return e ? { key, url: localUrl(key), size: e.data.byteLength, uploadedAt: e.uploadedAt } : null
+  }
+
+  async list(prefix: string, opts: { cursor?: string; limit?: number } = {}) {
+    const matching = Array.from(this.map.keys())
+      .filter((k) => k.startsWith(prefix) && (!opts.cursor || k > opts.cursor))
+      .sort()
+    const limit = opts.limit ?? DEFAULT_LIMIT
+    const page = matching.slice(0, limit)
+    const objects = page.map((k) => {
+      const e = this.map.get(k)!
+      return { key: k, url: localUrl(k), size: e.data.byteLength, uploadedAt: e.uploadedAt }
+    })
+    return { objects, cursor: matching.length > limit ? page[page.length - 1] : undefined }
+  }
+
+  async delete(keys: string | string[]) {
+    for (const k of Array.isArray(keys) ? keys : [keys]) this.map.delete(k)
+  }
+}
+
+// Survives dev-server module reloads, like a real store would.
+const g = globalThis as typeof globalThis & { __freshrecipesMemoryStorage?: Map<string, MemoryEntry> }
+
+export function driverName(): DriverName {
+  const name = process.env.STORAGE_DRIVER?.trim()
+  if (name === 'blob' || name === 'local' || name === 'memory') return name
+  return blob.hasToken() ? 'blob' : 'local'
+}
+
+let driver: StorageDriver | null = null
+
+export function getStorage(): StorageDriver {
+  if (driver && driver.name === driverName()) return driver
+  switch (driverName()) {
+    case 'blob':
+      driver = new BlobDriver()
+      break
+    case 'local':
+      driver = new LocalDriver(path.resolve(process.env.STORAGE_DIR?.trim() || '.data/storage'))
+      break
+    case 'memory':
+      driver = new MemoryDriver((g.__freshrecipesMemoryStorage ??= new Map()))
+      break
+  }
+  return driver!
+}
+
+/**
+ * `base` seen through a key prefix ("users/abc/"): keys going in and out are
+ * relative to it, while URLs stay those of the underlying objects.
+ */
+class ScopedDriver implements StorageDriver {
+  constructor(readonly base: StorageDriver, readonly prefix: string) {}
+
+  get name() {
+    return this.base.name
+  }
+
+  async put(key: string, data: string | Uint8Array, contentType?: string) {
+    return { ...(await this.base.put(this.prefix + key, data, contentType)), key }
+  }
+
+  get(key: string) {
+    return this.base.get(this.prefix + key)
+  }
+
+  async head(key: string) {
+    const o = await this.base.head(this.prefix + key)
+    return o && { ...o, key }
+  }
+
+  async list(prefix: string, opts: { cursor?: string; limit?: number } = {}) {
+    const r = await this.base.list(this.prefix + prefix, opts)
+    return { ...r, objects: r.objects.map((o) => ({ ...o, key: o.key.slice(this.prefix.length) })) }
+  }
+
+  delete(keys: string | string[]) {
+    return this.base.delete((Array.isArray(keys) ? keys : [keys]).map((k) => this.prefix + k))
+  }
+}
+
+const scoped = new Map<string, ScopedDriver>()
+
+/** The storage driver under `prefix`; the same instance each time, so repositories can cache on it. */
+export function scopedStorage(prefix: string): StorageDriver {
+  const base = getStorage()
+  const existing = scoped.get(prefix)
+  if (existing?.base === base) return existing
+  const driver = new ScopedDriver(base, prefix)
+  scoped.set(prefix, driver)
+  return driver
+}
+
+/**
+ * Move blobs still at their bare, guessable key to a private path (see
+ * BlobDriver), except those `keep` says are public anyway. Returns the keys
+ * moved, or that would be with dryRun; nothing to do for other drivers.
+ */
+export async function relocateLegacyBlobs(opts: { keep?: (key: string) => boolean; dryRun?: boolean } = {}): Promise<string[]> {
+  const store = getStorage()
+  if (!(store instanceof BlobDriver)) return []
+  return store.relocateLegacy(opts.keep ?? (() => false), !!opts.dryRun)
+}
+
+/** Every object under a prefix, following cursors past one page. */
+export async function listAll(store: StorageDriver, prefix: string): Promise<StoredObject[]> {
+  const out: StoredObject[] = []
+  let cursor: string | undefined
+  do {
+    const page = await store.list(prefix, { cursor })
+    out.push(...page.objects)
+    cursor = page.cursor
+  } while (cursor)
+  return out
+}
+
+export async function readJson<T = unknown>(store: StorageDriver, key: string): Promise<T | null> {
+  const buf = await store.get(key)
+  if (!buf) return null
+  try {
+    return JSON.parse(buf.toString('utf8')) as T
+  } catch {
+    return null
+  }
+}
+
+export async function writeJson(store: StorageDriver, key: string, value: unknown) {
+  return store.put(key, JSON.stringify(value), 'application/json; charset=utf-8')
+}
@@ -0,0 +1,43 @@
+// middleware.ts
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, authEnabled, verifyToken, type SessionToken } from "@/app/lib/session";
+
+// Guards the archive: its pages and every route that reads or writes it.
+// With AUTH_SECRET set, they need a session (APIs answer 401, pages go to
+// /login and come back); routes then scope storage to the signed-in user
+// (app/lib/auth.ts). Without it there is one shared archive with no
+// accounts, which production only serves read-only unless
+// ALLOW_ANONYMOUS_WRITES=1 says it sits behind some other gate.
+
+const READS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+  const api = pathname.startsWith("/api/");
+
+  if (!authEnabled()) {
+    const open = process.env.NODE_ENV !== "production" || process.env.ALLOW_ANONYMOUS_WRITES === "1";
+    if (open || READS.has(req.method)) return NextResponse.next();
+    return NextResponse.json({ error: "Archive writes need sign-in; set AUTH_SECRET" }, { status: 503 });
+  }
+
+  const session = await verifyToken<SessionToken>(req.cookies.get(SESSION_COOKIE)?.value, "session");
+  if (session) return NextResponse.next();
+  if (api) return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  const login = new URL("/login", req.url);
+  login.searchParams.set("next", pathname + search);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: [
+    "/archive/:path*",
+    "/r/:path*",
+    "/recipes/:path*",
+    "/previous",
+    "/admin",
+    "/api/archive/:path*",
+    "/api/save",
+    "/api/recipes",
+  ],
+};
@@ -1,6 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // pdfkit reads its font metrics from its own package directory at runtime.
+  serverExternalPackages: ['pdfkit'],
   webpack: (config) => {
     // Allow importing plain text files as raw strings: import txt from './file.txt'
     config.module.rules.push({
@@ -0,0 +1,26 @@
+// vitest.config.ts
+import path from "path";
+import { readFile } from "fs/promises";
+import { defineConfig, type Plugin } from "vitest/config";
+
+// Prompt files are imported as strings; next.config.ts does the same for webpack.
+const rawText: Plugin = {
+  name: "raw-text",
+  async load(id) {
+    if (!id.endsWith(".txt")) return null;
+    return `export default ${JSON.stringify(await readFile(id, "utf8"))};`;
+  },
+};
+
+export default defineConfig({
+  plugins: [rawText],
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    env: { STORAGE_DRIVER: "memory" },
+  },
+});